@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE `SchedulesOnUsers` ADD COLUMN `role` ENUM('OWNER', 'EDITOR', 'VIEWER') NOT NULL DEFAULT 'VIEWER';
+
+-- CreateTable
+CREATE TABLE `ScheduleInvite` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `email` VARCHAR(191) NOT NULL,
+    `schedule_tuid` VARCHAR(191) NOT NULL,
+    `role` ENUM('OWNER', 'EDITOR', 'VIEWER') NOT NULL DEFAULT 'VIEWER',
+    `invitedBy` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `ScheduleInvite_email_schedule_tuid_key`(`email`, `schedule_tuid`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ScheduleInvite` ADD CONSTRAINT `ScheduleInvite_schedule_tuid_fkey` FOREIGN KEY (`schedule_tuid`) REFERENCES `Schedule`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every creator of a revision becomes the owner of its schedule
+INSERT IGNORE INTO `SchedulesOnUsers` (`user_tuid`, `schedule_tuid`, `assignedBy`, `role`)
+SELECT DISTINCT `user`, `schedule`, `user`, 'OWNER' FROM `ScheduleRevision` WHERE `schedule` IS NOT NULL;
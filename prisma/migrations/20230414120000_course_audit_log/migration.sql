@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `CourseAudit` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `revision_tuid` VARCHAR(191) NOT NULL,
+    `course_tuid` VARCHAR(191) NOT NULL,
+    `user_tuid` VARCHAR(191) NOT NULL,
+    `action` ENUM('ADDED', 'UPDATED', 'REMOVED', 'RESTORED', 'DELETED') NOT NULL,
+    `course` VARCHAR(191) NOT NULL,
+    `before` JSON NULL,
+    `after` JSON NULL,
+    `changes` JSON NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `CourseAudit_revision_tuid_idx`(`revision_tuid`),
+    INDEX `CourseAudit_course_tuid_idx`(`course_tuid`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CourseAudit` ADD CONSTRAINT `CourseAudit_revision_tuid_fkey` FOREIGN KEY (`revision_tuid`) REFERENCES `ScheduleRevision`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CourseAudit` ADD CONSTRAINT `CourseAudit_user_tuid_fkey` FOREIGN KEY (`user_tuid`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `CourseAudit` MODIFY `action` ENUM('ADDED', 'UPDATED', 'REMOVED', 'RESTORED', 'DELETED', 'UNDONE', 'REDONE') NOT NULL,
+    ADD COLUMN `undo_state` ENUM('DONE', 'UNDONE', 'DISCARDED') NOT NULL DEFAULT 'DONE',
+    ADD COLUMN `undoneAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `CourseAudit_user_tuid_revision_tuid_undo_state_idx` ON `CourseAudit`(`user_tuid`, `revision_tuid`, `undo_state`);
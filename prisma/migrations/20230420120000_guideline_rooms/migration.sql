@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `GuidelineRoom` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `building_tuid` VARCHAR(191) NOT NULL,
+    `room` VARCHAR(191) NOT NULL,
+    `capacity` INTEGER NOT NULL,
+    `has_lab` BOOLEAN NOT NULL DEFAULT false,
+    `has_projector` BOOLEAN NOT NULL DEFAULT false,
+    `is_accessible` BOOLEAN NOT NULL DEFAULT false,
+
+    UNIQUE INDEX `GuidelineRoom_building_tuid_room_key`(`building_tuid`, `room`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `GuidelineRoom` ADD CONSTRAINT `GuidelineRoom_building_tuid_fkey` FOREIGN KEY (`building_tuid`) REFERENCES `GuidelineBuilding`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE `GuidelineFacultyLoad` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `is_adjunct` BOOLEAN NOT NULL,
+    `semester_min` INTEGER NULL,
+    `semester_max` INTEGER NULL,
+    `year_min` INTEGER NULL,
+    `year_max` INTEGER NULL,
+
+    UNIQUE INDEX `GuidelineFacultyLoad_is_adjunct_key`(`is_adjunct`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
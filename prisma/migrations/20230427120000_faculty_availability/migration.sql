@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE `GuidelineFacultyTime` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `faculty_tuid` VARCHAR(191) NOT NULL,
+    `type` ENUM('UNAVAILABLE', 'PREFERRED') NOT NULL,
+    `day_monday` BOOLEAN NOT NULL DEFAULT false,
+    `day_tuesday` BOOLEAN NOT NULL DEFAULT false,
+    `day_wednesday` BOOLEAN NOT NULL DEFAULT false,
+    `day_thursday` BOOLEAN NOT NULL DEFAULT false,
+    `day_friday` BOOLEAN NOT NULL DEFAULT false,
+    `day_saturday` BOOLEAN NOT NULL DEFAULT false,
+    `day_sunday` BOOLEAN NOT NULL DEFAULT false,
+    `start_time` INTEGER NOT NULL,
+    `end_time` INTEGER NOT NULL,
+
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `GuidelineFacultyCampus` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `faculty_tuid` VARCHAR(191) NOT NULL,
+    `campus_tuid` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `GuidelineFacultyCampus_faculty_tuid_campus_tuid_key`(`faculty_tuid`, `campus_tuid`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `GuidelineFacultyQualification` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `faculty_tuid` VARCHAR(191) NOT NULL,
+    `subject` VARCHAR(191) NOT NULL,
+    `course_number` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `GuidelineFacultyQualification_faculty_tuid_subject_course_n_key`(`faculty_tuid`, `subject`, `course_number`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `GuidelineFacultyTime` ADD CONSTRAINT `GuidelineFacultyTime_faculty_tuid_fkey` FOREIGN KEY (`faculty_tuid`) REFERENCES `GuidelinesFaculty`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GuidelineFacultyCampus` ADD CONSTRAINT `GuidelineFacultyCampus_faculty_tuid_fkey` FOREIGN KEY (`faculty_tuid`) REFERENCES `GuidelinesFaculty`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GuidelineFacultyCampus` ADD CONSTRAINT `GuidelineFacultyCampus_campus_tuid_fkey` FOREIGN KEY (`campus_tuid`) REFERENCES `GuidelineCampus`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `GuidelineFacultyQualification` ADD CONSTRAINT `GuidelineFacultyQualification_faculty_tuid_fkey` FOREIGN KEY (`faculty_tuid`) REFERENCES `GuidelinesFaculty`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `ImportFacultyMapping` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `faculty_tuid` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `ImportFacultyMapping_name_key`(`name`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ImportBuildingMapping` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `prefix` VARCHAR(191) NOT NULL,
+    `building_tuid` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `ImportBuildingMapping_prefix_key`(`prefix`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ImportFacultyMapping` ADD CONSTRAINT `ImportFacultyMapping_faculty_tuid_fkey` FOREIGN KEY (`faculty_tuid`) REFERENCES `GuidelinesFaculty`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ImportBuildingMapping` ADD CONSTRAINT `ImportBuildingMapping_building_tuid_fkey` FOREIGN KEY (`building_tuid`) REFERENCES `GuidelineBuilding`(`tuid`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `ColumnTemplate` (
+    `tuid` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `user_tuid` VARCHAR(191) NOT NULL,
+    `headers` JSON NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ColumnTemplate_user_tuid_name_key`(`user_tuid`, `name`),
+    PRIMARY KEY (`tuid`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ColumnTemplate` ADD CONSTRAINT `ColumnTemplate_user_tuid_fkey` FOREIGN KEY (`user_tuid`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,504 @@
+/**
+ * Calendar Benchmark
+ *
+ * Seeds a large revision (600 sections) with course guidelines for the fall, and
+ * loads it through getRevision of the calendar router, which queries the revision
+ * once and checks the guidelines in memory. It is compared to how getRevision used
+ * to load it, with one query per day, one for online courses and one more for
+ * each course of each day to check it against the guidelines. The number of SQL
+ * queries and time of each are printed, and it fails when the new way runs more
+ * queries than the old way ran to load only the courses of one day, or when any
+ * day has different courses, locations, rooms or guideline results than before.
+ *
+ * Needs a migrated database in DATABASE_URL, everything seeded is deleted after.
+ * The old way matched the guidelines of every semester, so the database should
+ * have no course guidelines of other semesters for the results to be the same.
+ * Run with: yarn benchmark:calendar
+ */
+import { prisma, getQueryCount } from "./benchmarkSetup";
+
+import assert from "assert";
+import { CourseState } from "@prisma/client";
+
+import { calendarRouter } from "src/server/api/routers/calendar";
+import { type RevisionWithCourses } from "src/server/revisionCourses";
+import { LOCATION_DAYS, type ILocationDay } from "src/utils/calendar";
+
+const SECTIONS = 600;
+const RUNS = 5;
+
+//The days of the in person sections, cycled through
+const DAY_PATTERNS: ILocationDay[][] = [
+  ["day_monday", "day_wednesday"],
+  ["day_tuesday", "day_thursday"],
+  ["day_monday", "day_wednesday", "day_friday"],
+  ["day_tuesday"],
+  ["day_saturday"],
+];
+
+//The fall course guidelines for three credits, as [meetings, days, times]
+const GUIDELINES: Array<[number, ILocationDay[][], number[][]]> = [
+  [
+    2,
+    [
+      ["day_monday", "day_wednesday"],
+      ["day_tuesday", "day_thursday"],
+    ],
+    [
+      [800, 915],
+      [900, 1015],
+      [1000, 1115],
+      [1100, 1215],
+    ],
+  ],
+  [
+    3,
+    [["day_monday", "day_wednesday", "day_friday"]],
+    [
+      [800, 915],
+      [1300, 1415],
+    ],
+  ],
+  [1, [["day_tuesday"]], [[1700, 1815]]],
+];
+
+//The filters of the calendar, as getRevision gets them
+type ICalendarInput = Parameters<
+  ReturnType<typeof calendarRouter.createCaller>["getRevision"]
+>[0];
+
+//The courses of each day (and online) with if each is within a guideline
+type ICalendarDays = Record<
+  string,
+  Array<RevisionWithCourses["courses"][number] & { withinGuideline: boolean }>
+>;
+
+/**
+ * Gets the days of a location (or guideline) with only the given days set
+ */
+const onDays = (days: ILocationDay[]) =>
+  Object.fromEntries(
+    LOCATION_DAYS.map((day) => [day, days.includes(day)])
+  ) as Record<ILocationDay, boolean>;
+
+/**
+ * legacyQueryCoursesByDay
+ * How getRevision used to query the courses of a revision, once for each day
+ * and once more for the online courses
+ */
+async function legacyQueryCoursesByDay(input: ICalendarInput, day?: string) {
+  const coursesByDay: RevisionWithCourses | null =
+    await prisma.scheduleRevision.findUnique({
+      where: {
+        tuid: input.tuid,
+      },
+      include: {
+        courses: {
+          where: {
+            ...(input.faculty
+              ? { faculty: { some: { faculty_tuid: { in: input.faculty } } } }
+              : {}),
+            ...(input.departments
+              ? { department: { in: input.departments } }
+              : {}),
+            ...(input.credits ? { credits: input.credits } : {}),
+            locations: {
+              some: {
+                ...(day != undefined
+                  ? { [day]: { equals: true } }
+                  : { OR: [{ is_online: true }] }),
+                ...(input.buildings
+                  ? {
+                      rooms: {
+                        some: { building_tuid: { in: input.buildings } },
+                      },
+                    }
+                  : {}),
+              },
+            },
+            semester_fall: input.semester_fall,
+            semester_winter: input.semester_winter,
+            semester_spring: input.semester_spring,
+            semester_summer: input.semester_summer,
+          },
+          include: {
+            faculty: { include: { faculty: true } },
+            locations: {
+              ...(day != undefined
+                ? { where: { OR: [{ is_online: false }] } }
+                : {}),
+              include: {
+                rooms: { include: { building: day != undefined } },
+              },
+            },
+          },
+        },
+      },
+    });
+  return coursesByDay;
+}
+
+/**
+ * legacyWithinGuideline
+ * How getRevision used to check a course against the guidelines, with one
+ * query for each course of each day
+ */
+async function legacyWithinGuideline(
+  input: ICalendarInput,
+  course: RevisionWithCourses["courses"][number]
+) {
+  const totalMeetings = course.locations
+    .map((location) => LOCATION_DAYS.filter((day) => location[day]).length)
+    .reduce((sum, value) => sum + value, 0);
+  const result = await prisma.guidelinesCourses.count({
+    where: {
+      AND: [
+        {
+          //The same conditions as before, where an empty one matches any semester
+          OR: [
+            input.semester_fall ? { semester_fall: true } : {},
+            input.semester_winter ? { semester_winter: true } : {},
+            input.semester_spring ? { semester_spring: true } : {},
+            input.semester_summer ? { semester_summer: true } : {},
+          ],
+        },
+        {
+          credits: course.credits,
+          meeting_amount: totalMeetings,
+        },
+        {
+          days: {
+            some: {
+              OR: course.locations.map((location) =>
+                Object.fromEntries(
+                  LOCATION_DAYS.filter((day) => location[day]).map((day) => [
+                    day,
+                    true,
+                  ])
+                )
+              ),
+            },
+          },
+        },
+        {
+          times: {
+            some: {
+              OR: course.locations.map((location) => ({
+                start_time: location.start_time,
+                end_time: location.end_time,
+              })),
+            },
+          },
+        },
+      ],
+    },
+  });
+  return result > 0;
+}
+
+/**
+ * legacyGetRevision
+ * The courses of each day (and online) the way getRevision used to get them
+ */
+async function legacyGetRevision(input: ICalendarInput) {
+  const days: ICalendarDays = {};
+  for (const day of LOCATION_DAYS) {
+    const revision = await legacyQueryCoursesByDay(input, day);
+    days[day] = await Promise.all(
+      (revision?.courses ?? []).map(async (course) => ({
+        withinGuideline: await legacyWithinGuideline(input, course),
+        ...course,
+      }))
+    );
+  }
+  days.online = ((await legacyQueryCoursesByDay(input))?.courses ?? []).map(
+    (course) => ({ ...course, withinGuideline: false })
+  );
+  return days;
+}
+
+/**
+ * currentGetRevision
+ * The courses of each day (and online) from getRevision of the calendar router,
+ * called as the user who created the revision
+ */
+async function currentGetRevision(input: ICalendarInput, user_tuid: string) {
+  const caller = calendarRouter.createCaller({
+    session: { user: { id: user_tuid }, expires: "" },
+    prisma,
+  });
+  const out = await caller.getRevision(input);
+  const days: ICalendarDays = {
+    day_monday: out.monday_courses,
+    day_tuesday: out.tuesday_courses,
+    day_wednesday: out.wednesday_courses,
+    day_thursday: out.thursday_courses,
+    day_friday: out.friday_courses,
+    day_saturday: out.saturday_courses,
+    day_sunday: out.sunday_courses,
+    online: out.online,
+  };
+  return days;
+}
+
+/**
+ * shape
+ * The courses of a day with their locations, the rooms of each and if it is
+ * within a guideline, which is what the calendar shows, sorted so the two ways
+ * can be compared
+ */
+const shape = (courses: ICalendarDays[string]) =>
+  courses
+    .map((course) => ({
+      course: course.tuid,
+      withinGuideline: course.withinGuideline,
+      faculty: course.faculty.map((value) => value.faculty_tuid).sort(),
+      locations: course.locations
+        .map((location) => ({
+          location: location.tuid,
+          rooms: location.rooms.map((room) => room.tuid).sort(),
+        }))
+        .sort((a, b) => a.location.localeCompare(b.location)),
+    }))
+    .sort((a, b) => a.course.localeCompare(b.course));
+
+/**
+ * measure
+ * Runs a way of loading the calendar several times, returning what the last run
+ * loaded with the queries and average milliseconds of one run
+ */
+async function measure<T>(load: () => Promise<T>) {
+  let result = await load();
+  const before = getQueryCount();
+  const start = performance.now();
+  for (let run = 0; run < RUNS; run++) {
+    result = await load();
+  }
+  return {
+    result,
+    queries: (getQueryCount() - before) / RUNS,
+    ms: Math.round((performance.now() - start) / RUNS),
+  };
+}
+
+/**
+ * seed
+ * Creates a revision of sections in three buildings taught by ten faculty. Most
+ * sections meet in one room, every seventh also meets in a second building on
+ * Friday and every tenth is online. The fall guidelines only allow some of the
+ * days and times, so some sections are within a guideline and some are not.
+ */
+async function seed() {
+  const user = await prisma.user.create({
+    data: {
+      username: "benchmark",
+      email: `benchmark-${Date.now()}@svsu.edu`,
+      password: "",
+    },
+  });
+  const campus = await prisma.guidelineCampus.create({
+    data: { name: "Benchmark" },
+  });
+  const buildings = await Promise.all(
+    ["BA", "BB", "BC"].map((prefix) =>
+      prisma.guidelineBuilding.create({
+        data: {
+          name: `Benchmark ${prefix}`,
+          prefix,
+          classrooms: "100-199",
+          campus_tuid: campus.tuid,
+        },
+      })
+    )
+  );
+  const faculty = await Promise.all(
+    Array.from({ length: 10 }, (_, index) =>
+      prisma.guidelinesFaculty.create({
+        data: {
+          name: `Benchmark Faculty ${index}`,
+          suffix: "",
+          email: `faculty${index}@svsu.edu`,
+          is_adjunct: index % 3 == 0,
+        },
+      })
+    )
+  );
+  const guidelines = await Promise.all(
+    GUIDELINES.map(([meeting_amount, days, times]) =>
+      prisma.guidelinesCourses.create({
+        data: {
+          semester_fall: true,
+          credits: 3,
+          meeting_amount,
+          days: { create: days.map(onDays) },
+          times: {
+            create: times.map(([start_time = 0, end_time = 0]) => ({
+              start_time,
+              end_time,
+            })),
+          },
+        },
+      })
+    )
+  );
+
+  const revision = await prisma.scheduleRevision.create({
+    data: { name: "Benchmark", creator_tuid: user.id, onboarding: false },
+  });
+
+  for (let index = 0; index < SECTIONS; index++) {
+    const building = buildings[index % buildings.length];
+    const teacher = faculty[index % faculty.length];
+    assert(building != undefined && teacher != undefined);
+    const days = DAY_PATTERNS[index % DAY_PATTERNS.length] ?? [];
+    const start_time = 800 + (index % 10) * 100;
+    const location = (
+      is_online: boolean,
+      meets: ILocationDay[],
+      building_tuid?: string
+    ) => ({
+      start_time: is_online ? 0 : start_time,
+      end_time: is_online ? 0 : start_time + 115,
+      is_online,
+      ...onDays(meets),
+      ...(building_tuid != undefined
+        ? {
+            rooms: {
+              create: { room: `${100 + (index % 100)}`, building_tuid },
+            },
+          }
+        : {}),
+    });
+
+    await prisma.course.create({
+      data: {
+        revision_tuid: revision.tuid,
+        type: "LEC",
+        term: 202390,
+        semester_fall: true,
+        div: "SE",
+        department: "CSIS",
+        subject: "CS",
+        course_number: `${100 + (index % 300)}`,
+        section: `${index}`,
+        start_date: new Date("2023-08-28"),
+        end_date: new Date("2023-12-15"),
+        start_time,
+        end_time: start_time + 115,
+        credits: 3,
+        title: `Benchmark Course ${index}`,
+        capacity: 30,
+        original_state: CourseState.UNMODIFIED,
+        state: CourseState.UNMODIFIED,
+        faculty: { create: { faculty_tuid: teacher.tuid } },
+        locations: {
+          create:
+            index % 10 == 0
+              ? [location(true, [])]
+              : index % 7 == 0
+              ? [
+                  location(false, days, building.tuid),
+                  location(
+                    false,
+                    ["day_friday"],
+                    buildings[(index + 1) % buildings.length]?.tuid
+                  ),
+                ]
+              : [location(false, days, building.tuid)],
+        },
+      },
+    });
+  }
+
+  return { user, campus, revision, faculty, buildings, guidelines };
+}
+
+async function main() {
+  console.log(`Seeding a revision of ${SECTIONS} sections...`);
+  const seeded = await seed();
+  try {
+    const input: ICalendarInput = {
+      tuid: seeded.revision.tuid,
+      minRoomNum: "",
+      maxRoomNum: "",
+      semester_fall: true,
+      semester_winter: false,
+      semester_spring: false,
+      semester_summer: false,
+    };
+    const filters: Array<[string, ICalendarInput]> = [
+      ["All buildings", input],
+      [
+        "One building",
+        { ...input, buildings: [seeded.buildings[0]?.tuid ?? ""] },
+      ],
+    ];
+
+    const results = [];
+    for (const [name, input] of filters) {
+      const legacy = await measure(() => legacyGetRevision(input));
+      const legacyDay = await measure(() =>
+        legacyQueryCoursesByDay(input, "day_monday")
+      );
+      const current = await measure(() =>
+        currentGetRevision(input, seeded.user.id)
+      );
+
+      //Every day has the same courses, locations, rooms and guideline results as before
+      for (const day of [...LOCATION_DAYS, "online"]) {
+        assert.deepStrictEqual(
+          shape(current.result[day] ?? []),
+          shape(legacy.result[day] ?? []),
+          `${name}: the courses of ${day} changed`
+        );
+      }
+
+      //The revision is loaded with no more queries than one day used to be
+      assert(
+        current.queries <= legacyDay.queries,
+        `${name}: ${current.queries} queries, one day used to be ${legacyDay.queries}`
+      );
+
+      const courses = Object.values(current.result).flat();
+      results.push({
+        filter: name,
+        courses: courses.length,
+        "within a guideline": courses.filter((course) => course.withinGuideline)
+          .length,
+        "queries (old)": legacy.queries,
+        "queries (new)": current.queries,
+        "ms (old)": legacy.ms,
+        "ms (new)": current.ms,
+      });
+    }
+    console.table(results);
+  } finally {
+    //Deleting the revision deletes its courses, and the campus its buildings
+    await prisma.scheduleRevision.delete({
+      where: { tuid: seeded.revision.tuid },
+    });
+    await prisma.guidelineCampus.delete({
+      where: { tuid: seeded.campus.tuid },
+    });
+    await prisma.guidelinesFaculty.deleteMany({
+      where: { tuid: { in: seeded.faculty.map((value) => value.tuid) } },
+    });
+    //The days and times of a guideline have to be deleted first
+    const guideline_id = { in: seeded.guidelines.map((value) => value.tuid) };
+    await prisma.$transaction([
+      prisma.guidelinesCoursesDays.deleteMany({ where: { guideline_id } }),
+      prisma.guidelinesCoursesTimes.deleteMany({ where: { guideline_id } }),
+      prisma.guidelinesCourses.deleteMany({
+        where: { tuid: guideline_id },
+      }),
+    ]);
+    await prisma.user.delete({ where: { id: seeded.user.id } });
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
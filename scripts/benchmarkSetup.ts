@@ -0,0 +1,27 @@
+/**
+ * Benchmark Setup
+ *
+ * Loads the .env files the way Next does, and creates the prisma client used by
+ * the benchmark, which counts every SQL query it runs. It is set as the global
+ * prisma so src/server/db uses it too, which means this must be imported before
+ * anything from src/server.
+ */
+import { loadEnvConfig } from "@next/env";
+import { PrismaClient } from "@prisma/client";
+
+loadEnvConfig(process.cwd());
+
+export const prisma = new PrismaClient({
+  log: [{ emit: "event", level: "query" }],
+});
+global.prisma = prisma;
+
+let queries = 0;
+prisma.$on("query", () => {
+  queries++;
+});
+
+/**
+ * Gets how many SQL queries have been run so far
+ */
+export const getQueryCount = () => queries;
@@ -1,10 +1,19 @@
 import Link from "next/link";
 import React from "react";
 import { Divider, Menu } from "react-daisyui";
-import { Apple, Book, Building, CaretLeft, User } from "tabler-icons-react";
+import {
+  Apple,
+  Book,
+  Building,
+  CaretLeft,
+  Lock,
+  User,
+} from "tabler-icons-react";
+import { Permissions } from "@prisma/client";
 import DashboardSidebarItem from "./DashboardSidebarItem";
 import cardinalLogo from "src/pages/projects/cardinalLogo.png";
 import Image from "next/image";
+import { api } from "src/utils/api";
 
 /**
  * AdminDashboardSidebar
@@ -14,6 +23,10 @@ import Image from "next/image";
  */
 
 const AdminDashboardSidebar = () => {
+  //Get the permissions of the current user, so only the allowed pages are shown
+  const permissions = api.auth.getPermissions.useQuery();
+  const isAdmin = permissions.data?.includes(Permissions.ADMIN) ?? false;
+
   return (
     <div className="flex h-full w-[220px] flex-col bg-base-200 pt-4">
       <Menu>
@@ -44,11 +57,13 @@ const AdminDashboardSidebar = () => {
           <p className="font-bold">Admin</p>
         </div>
         {/* Redirects to courses page when clicked */}
-        <Link href={`/admin/courses`}>
-          <DashboardSidebarItem title="Courses">
-            <Book width={40} height={40} />
-          </DashboardSidebarItem>
-        </Link>
+        {isAdmin && (
+          <Link href={`/admin/courses`}>
+            <DashboardSidebarItem title="Courses">
+              <Book width={40} height={40} />
+            </DashboardSidebarItem>
+          </Link>
+        )}
 
         {/* Redirects to faculty page when clicked */}
         <Link href={`/admin/faculty`}>
@@ -57,18 +72,28 @@ const AdminDashboardSidebar = () => {
           </DashboardSidebarItem>
         </Link>
 
-        {/* Redirects to buildings page when clicked */}
-        <Link href={`/admin/buildings`}>
-          <DashboardSidebarItem title="Buildings">
-            <Building width={40} height={40} />
-          </DashboardSidebarItem>
-        </Link>
-        {/* Redirects to buildings page when clicked */}
-        <Link href={`/admin/departments`}>
-          <DashboardSidebarItem title="Departments">
-            <Apple width={40} height={40} />
-          </DashboardSidebarItem>
-        </Link>
+        {isAdmin && (
+          <>
+            {/* Redirects to buildings page when clicked */}
+            <Link href={`/admin/buildings`}>
+              <DashboardSidebarItem title="Buildings">
+                <Building width={40} height={40} />
+              </DashboardSidebarItem>
+            </Link>
+            {/* Redirects to buildings page when clicked */}
+            <Link href={`/admin/departments`}>
+              <DashboardSidebarItem title="Departments">
+                <Apple width={40} height={40} />
+              </DashboardSidebarItem>
+            </Link>
+            {/* Redirects to permissions page when clicked */}
+            <Link href={`/admin/permissions`}>
+              <DashboardSidebarItem title="Permissions">
+                <Lock width={40} height={40} />
+              </DashboardSidebarItem>
+            </Link>
+          </>
+        )}
       </Menu>
     </div>
   );
@@ -0,0 +1,70 @@
+import React from "react";
+import { Badge } from "react-daisyui";
+import { capitalize } from "lodash";
+import { type RouterOutputs } from "src/utils/api";
+
+type ICourseAudit = RouterOutputs["audit"]["getCourseHistory"][number];
+
+interface AuditListProps {
+  audits: Omit<ICourseAudit, "revision_tuid">[];
+  showCourse?: boolean; //Show the course name, for lists with many courses
+}
+
+/**
+ * Colors for each action in the history
+ */
+const ACTION_COLORS = {
+  ADDED: "success",
+  UPDATED: "info",
+  REMOVED: "error",
+  RESTORED: "warning",
+  DELETED: "error",
+  UNDONE: "ghost",
+  REDONE: "ghost",
+} as const;
+
+/**
+ * AuditList
+ * Lists changes made to courses, with who made them, when, and which fields changed
+ */
+const AuditList = ({ audits, showCourse = false }: AuditListProps) => {
+  if (audits.length == 0) {
+    return <div className="p-2 italic text-slate-400">No changes yet</div>;
+  }
+  return (
+    <ul className="flex flex-col divide-y-[1px]">
+      {audits.map((audit) => {
+        return (
+          <li key={audit.tuid} className="flex flex-col gap-1 p-2">
+            <div className="flex flex-row flex-wrap items-center gap-2">
+              <Badge color={ACTION_COLORS[audit.action]}>
+                {capitalize(audit.action)}
+              </Badge>
+              {showCourse && <span className="font-bold">{audit.course}</span>}
+              <span>by {audit.user.username}</span>
+              <span className="ml-auto text-sm text-slate-400">
+                {audit.createdAt.toLocaleString()}
+              </span>
+            </div>
+            {audit.changes.map((change) => {
+              return (
+                <div key={change.field} className="pl-2 text-sm">
+                  <span className="font-semibold">{change.field}: </span>
+                  <span className="text-red-600 line-through">
+                    {change.before || "None"}
+                  </span>
+                  {" → "}
+                  <span className="text-green-700">
+                    {change.after || "None"}
+                  </span>
+                </div>
+              );
+            })}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AuditList;
@@ -2,7 +2,14 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import React from "react";
 import { Divider, Menu } from "react-daisyui";
-import { Calendar, CaretLeft, ChartBar, Home } from "tabler-icons-react";
+import {
+  Calendar,
+  CaretLeft,
+  ChartBar,
+  ClipboardCheck,
+  GitCompare,
+  Home,
+} from "tabler-icons-react";
 import DashboardSidebarItem from "./DashboardSidebarItem";
 import cardinalLogo from "src/pages/projects/cardinalLogo.png";
 import Image from "next/image";
@@ -30,6 +37,8 @@ export enum DashboardPages {
   HOME,
   SCHEDULER,
   REPORT,
+  CHANGES,
+  COMPLIANCE,
 }
 
 /**
@@ -116,6 +125,26 @@ const DashboardSidebar = ({ page }: DashboardSidebarProps) => {
             <ChartBar width={40} height={40} />
           </DashboardSidebarItem>
         </Link>
+
+        {/* Redirects to the changes between revisions page when clicked */}
+        <Link href={`/dashboard/${scheduleId}/diff`}>
+          <DashboardSidebarItem
+            title="Changes"
+            active={page == DashboardPages.CHANGES}
+          >
+            <GitCompare width={40} height={40} />
+          </DashboardSidebarItem>
+        </Link>
+
+        {/* Redirects to the guideline compliance page when clicked */}
+        <Link href={`/dashboard/${scheduleId}/compliance`}>
+          <DashboardSidebarItem
+            title="Compliance"
+            active={page == DashboardPages.COMPLIANCE}
+          >
+            <ClipboardCheck width={40} height={40} />
+          </DashboardSidebarItem>
+        </Link>
       </Menu>
     </div>
   );
@@ -0,0 +1,44 @@
+import React, { useState } from "react";
+import { api } from "src/utils/api";
+import PaginationBar from "src/components/Pagination";
+import AuditList from "src/components/dashboard/AuditList";
+
+interface DashboardActivityProps {
+  tuid: string;
+}
+
+/**
+ * DashboardActivity
+ * The feed of every change made to the courses on a revision
+ */
+const DashboardActivity = ({ tuid }: DashboardActivityProps) => {
+  const [currentPage, setCurrentPage] = useState(1);
+  const activity = api.audit.getRevisionActivity.useQuery({
+    tuid,
+    page: currentPage,
+  });
+
+  return (
+    <div className="container mx-auto px-4 pb-10">
+      <h2 className="mb-2 pt-10 font-bold">Recent Activity</h2>
+      <div className="border-[1px] border-gray-200">
+        {activity.data != undefined && (
+          <AuditList audits={activity.data.result} showCourse={true} />
+        )}
+      </div>
+      {activity.data != undefined && activity.data.totalPages > 1 && (
+        <div className="mt-3 flex w-full justify-center p-2">
+          <PaginationBar
+            totalPageCount={activity.data.totalPages}
+            currentPage={currentPage}
+            onClick={(page) => {
+              setCurrentPage(page);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DashboardActivity;
@@ -0,0 +1,106 @@
+import { useEffect } from "react";
+import { ErrorMessage } from "@hookform/error-message";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button, Input, Modal } from "react-daisyui";
+import { toast } from "react-toastify";
+import { api } from "src/utils/api";
+import {
+  cloneRevisionSchema,
+  type IProjectCloneRevision,
+} from "src/validation/projects.frontend";
+
+interface CloneRevisionModalProps {
+  revision?: { tuid: string; name: string };
+  onClose: () => void;
+  onCloned?: () => void;
+}
+
+/**
+ * CloneRevisionModal
+ * Asks for the name of the new revision, then clones the given revision
+ * into it on the same schedule
+ */
+const CloneRevisionModal = ({
+  revision,
+  onClose,
+  onCloned,
+}: CloneRevisionModalProps) => {
+  const cloneMutation = api.projects.cloneRevision.useMutation();
+
+  const { reset, ...cloneForm } = useForm<IProjectCloneRevision>({
+    mode: "onBlur",
+    resolver: zodResolver(cloneRevisionSchema),
+  });
+
+  //Reset the form each time a new revision is going to be cloned
+  useEffect(() => {
+    if (revision != undefined) {
+      reset({ tuid: revision.tuid, name: `${revision.name} Copy` });
+    }
+  }, [revision, reset]);
+
+  const onCloneSubmit = async (data: IProjectCloneRevision) => {
+    const result = await cloneMutation.mutateAsync(data);
+    if (result.success) {
+      toast.success(`Created '${data.name}'`, {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+      if (onCloned != undefined) onCloned();
+      onClose();
+    } else {
+      toast.error("Failed to clone revision", {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+    }
+  };
+
+  return (
+    <Modal open={revision != undefined} onClickBackdrop={onClose}>
+      <Button
+        size="sm"
+        shape="circle"
+        className="absolute right-2 top-2"
+        onClick={onClose}
+      >
+        ✕
+      </Button>
+      <Modal.Header className="font-bold">Clone Revision</Modal.Header>
+      <Modal.Body>
+        <form
+          onSubmit={cloneForm.handleSubmit(onCloneSubmit)}
+          className="flex flex-col"
+        >
+          <div>
+            <p>Name</p>
+            <Input
+              type="text"
+              className="mt-2 w-full"
+              placeholder="Revision Name"
+              {...cloneForm.register("name")}
+            />
+            <ErrorMessage
+              errors={cloneForm.formState.errors}
+              name="name"
+              render={({ message }) => (
+                <p className="font-semibold text-red-600">{message}</p>
+              )}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              color="success"
+              type="submit"
+              className="mt-2"
+              disabled={cloneMutation.isLoading}
+            >
+              Clone
+            </Button>
+          </div>
+        </form>
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default CloneRevisionModal;
@@ -0,0 +1,87 @@
+import { capitalize } from "lodash";
+import React from "react";
+import { Button } from "react-daisyui";
+import { toast } from "react-toastify";
+import { api } from "src/utils/api";
+import { Check, X } from "tabler-icons-react";
+
+interface ProjectsInvitesProps {
+  onAccept?: () => void;
+}
+
+/**
+ * ProjectsInvites
+ * Lists the pending schedule invites for the current user, so they can
+ * accept or decline them
+ */
+const ProjectsInvites = ({ onAccept }: ProjectsInvitesProps) => {
+  const invites = api.schedules.getMyInvites.useQuery();
+
+  const acceptMutation = api.schedules.acceptInvite.useMutation();
+  const declineMutation = api.schedules.declineInvite.useMutation();
+
+  //Accept the invite, and let the parent know so the projects can be refetched
+  const acceptInvite = async (tuid: string, name: string) => {
+    const result = await acceptMutation.mutateAsync({ tuid });
+    if (result) {
+      toast.success(`Joined '${name}'`, {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+      if (onAccept != undefined) onAccept();
+    } else {
+      toast.error("Failed to accept invite", {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+    }
+    invites.refetch();
+  };
+
+  const declineInvite = async (tuid: string) => {
+    await declineMutation.mutateAsync({ tuid });
+    invites.refetch();
+  };
+
+  //Nothing to show if we have no invites
+  if (invites.data == undefined || invites.data.length == 0) {
+    return <></>;
+  }
+
+  return (
+    <div className="container mx-auto mb-4 flex flex-col gap-2">
+      <p className="text-xl font-bold">Pending Invites:</p>
+      {invites.data.map((invite) => {
+        return (
+          <div
+            key={invite.tuid}
+            className="flex items-center justify-between rounded-lg border-2 bg-white p-2 pl-4"
+          >
+            <span>
+              <span className="font-semibold">{invite.name}</span>
+              <span className="ml-2 text-slate-400">
+                as {capitalize(invite.role)}
+              </span>
+            </span>
+            <div className="flex gap-2">
+              <Button
+                color="success"
+                size="sm"
+                onClick={() => acceptInvite(invite.tuid, invite.name)}
+              >
+                <Check size={18} /> Accept
+              </Button>
+              <Button
+                color="error"
+                size="sm"
+                onClick={() => declineInvite(invite.tuid)}
+              >
+                <X size={18} /> Decline
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProjectsInvites;
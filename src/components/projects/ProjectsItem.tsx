@@ -3,8 +3,18 @@ import React, { useState } from "react";
 import { Button } from "react-daisyui";
 import { toast } from "react-toastify";
 import { api } from "src/utils/api";
-import { Book2, CaretDown, CaretUp, Trash } from "tabler-icons-react";
+import {
+  Book2,
+  CalendarPlus,
+  CaretDown,
+  CaretUp,
+  Copy,
+  Share,
+  Trash,
+} from "tabler-icons-react";
+import { ScheduleRole } from "@prisma/client";
 import ConfirmDeleteModal from "../ConfirmDeleteModal";
+import ShareScheduleModal from "./ShareScheduleModal";
 const goToProject = (id: string) => {
   const urlProject: string = "/dashboard/" + id + "/home";
   router.push(urlProject);
@@ -22,6 +32,11 @@ interface ProjectItemProps {
   hasRevision: boolean;
   strTimesAgo?: string;
   id: string;
+  //The schedule the revisions are on, and the role the user has on it
+  scheduleId?: string;
+  role?: ScheduleRole;
+  onClone?: () => void;
+  onRollForward?: () => void;
 }
 
 const ProjectItem = ({
@@ -31,9 +46,17 @@ const ProjectItem = ({
   onDelete,
   hasRevision,
   id,
+  scheduleId,
+  role,
+  onClone,
+  onRollForward,
 }: ProjectItemProps) => {
   const [isCaretDown, setCaret] = useState(true);
   const [confirmation, setConfirmation] = useState(false);
+  const [shareModal, setShareModal] = useState(false);
+
+  //Only owners can share or delete the schedule
+  const isOwner = role == undefined || role == ScheduleRole.OWNER;
 
   //api call for remove the current revision uploaded
   const removeRevision = api.projects.deleteScheduleRevision.useMutation();
@@ -91,15 +114,46 @@ const ProjectItem = ({
           >
             {isCaretDown ? <CaretDown /> : <CaretUp />}
           </Button>
-          <Button
-            onClick={() => {
-              setConfirmation(true);
-            }}
-            color="error"
-            className="m-5 ml-0"
-          >
-            <Trash />
-          </Button>
+          {onClone != undefined && role != ScheduleRole.VIEWER && (
+            <Button
+              onClick={onClone}
+              variant="outline"
+              className="m-5 ml-0 mr-1"
+            >
+              <Copy />
+            </Button>
+          )}
+          {onRollForward != undefined && role != ScheduleRole.VIEWER && (
+            <Button
+              onClick={onRollForward}
+              variant="outline"
+              className="m-5 ml-0 mr-1"
+            >
+              <CalendarPlus />
+            </Button>
+          )}
+          {isOwner && scheduleId != undefined && (
+            <Button
+              onClick={() => {
+                setShareModal(true);
+              }}
+              variant="outline"
+              className="m-5 ml-0 mr-1"
+            >
+              <Share />
+            </Button>
+          )}
+          {isOwner && (
+            <Button
+              onClick={() => {
+                setConfirmation(true);
+              }}
+              color="error"
+              className="m-5 ml-0"
+            >
+              <Trash />
+            </Button>
+          )}
         </div>
       </div>
       {isCaretDown ? (
@@ -123,6 +177,16 @@ const ProjectItem = ({
           setConfirmation(false);
         }}
       />
+      {scheduleId != undefined && (
+        <ShareScheduleModal
+          scheduleId={scheduleId}
+          title={strTitle}
+          open={shareModal}
+          onClose={() => {
+            setShareModal(false);
+          }}
+        />
+      )}
     </div>
   );
 };
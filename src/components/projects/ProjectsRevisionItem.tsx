@@ -3,7 +3,7 @@ import React, { Dispatch, SetStateAction, useState } from "react";
 import { Button } from "react-daisyui";
 import { toast } from "react-toastify";
 import { api } from "src/utils/api";
-import { Trash } from "tabler-icons-react";
+import { Copy, Trash } from "tabler-icons-react";
 import ConfirmDeleteModal from "../ConfirmDeleteModal";
 
 interface ProjectRevisionItemProps {
@@ -13,6 +13,8 @@ interface ProjectRevisionItemProps {
   setConfirmation?: Dispatch<SetStateAction<boolean>>;
   id: string;
   timesAgo?: string;
+  canDelete?: boolean;
+  onClone?: () => void;
 }
 const goToProject = (id: string) => {
   const urlProject: string = "/dashboard/" + id + "/home";
@@ -30,6 +32,8 @@ const ProjectRevisionItem = ({
   setID,
   setConfirmation,
   timesAgo,
+  canDelete = true,
+  onClone,
 }: ProjectRevisionItemProps) => {
   return (
     <>
@@ -49,17 +53,29 @@ const ProjectRevisionItem = ({
         </div>
         <div className="mr-4 flex h-full w-1/2 items-center justify-end text-slate-400">
           {timesAgo}
-          <Button
-            onClick={() => {
-              if (setID != undefined) setID(id);
-              if (setConfirmation != undefined) setConfirmation(true);
-            }}
-            color="error"
-            className="m-5 ml-5"
-            size="xs"
-          >
-            <Trash size={15} />
-          </Button>
+          {onClone != undefined && (
+            <Button
+              onClick={onClone}
+              variant="outline"
+              className="ml-5"
+              size="xs"
+            >
+              <Copy size={15} />
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              onClick={() => {
+                if (setID != undefined) setID(id);
+                if (setConfirmation != undefined) setConfirmation(true);
+              }}
+              color="error"
+              className="m-5 ml-5"
+              size="xs"
+            >
+              <Trash size={15} />
+            </Button>
+          )}
         </div>
       </div>
     </>
@@ -0,0 +1,204 @@
+import { useEffect } from "react";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import { ErrorMessage } from "@hookform/error-message";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { capitalize } from "lodash";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
+import { Button, Checkbox, Input, Modal } from "react-daisyui";
+import { toast } from "react-toastify";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+import { api } from "src/utils/api";
+import {
+  type IProjectRollForwardRevision,
+  rollForwardRevisionSchema,
+} from "src/validation/projects.frontend";
+
+interface RollForwardModalProps {
+  revision?: { tuid: string; name: string };
+  onClose: () => void;
+  onRolledForward?: () => void;
+}
+
+/**
+ * Moves a date forward by a year, which is the default for the next term
+ */
+const nextYear = (date: Date) => {
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + 1);
+  return result;
+};
+
+/**
+ * RollForwardModal
+ * Creates a new revision for the next term from an existing revision,
+ * with the dates of each semester it has moved into a new window
+ */
+const RollForwardModal = ({
+  revision,
+  onClose,
+  onRolledForward,
+}: RollForwardModalProps) => {
+  //Grab the current term and windows so we can fill in the defaults
+  const defaults = api.projects.getRollForwardWindows.useQuery(
+    { tuid: revision?.tuid ?? "" },
+    { enabled: revision != undefined }
+  );
+  const rollForwardMutation = api.projects.rollForwardRevision.useMutation();
+
+  const { reset, ...rollForwardForm } = useForm<IProjectRollForwardRevision>({
+    mode: "onBlur",
+    resolver: zodResolver(rollForwardRevisionSchema),
+  });
+  const windows = useFieldArray({
+    control: rollForwardForm.control,
+    name: "windows",
+  });
+
+  //Reset the form each time a new revision is going to be rolled forward
+  useEffect(() => {
+    if (revision != undefined && defaults.data != undefined) {
+      reset({
+        tuid: revision.tuid,
+        name: `${revision.name} ${defaults.data.term + 1}`,
+        term: defaults.data.term + 1,
+        drop_removed: true,
+        windows: defaults.data.windows.map((window) => {
+          return {
+            semester: window.semester,
+            start_date: nextYear(window.start_date),
+            end_date: nextYear(window.end_date),
+          };
+        }),
+      });
+    }
+  }, [revision, defaults.data, reset]);
+
+  const onRollForwardSubmit = async (data: IProjectRollForwardRevision) => {
+    const result = await rollForwardMutation.mutateAsync(data);
+    if (result.success) {
+      toast.success(`Created '${data.name}'`, {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+      if (onRolledForward != undefined) onRolledForward();
+      onClose();
+    } else {
+      toast.error(result.errors[0] ?? "Failed to roll forward revision", {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+    }
+  };
+
+  return (
+    <Modal open={revision != undefined} onClickBackdrop={onClose}>
+      <Button
+        size="sm"
+        shape="circle"
+        className="absolute right-2 top-2"
+        onClick={onClose}
+      >
+        ✕
+      </Button>
+      <Modal.Header className="font-bold">Roll Forward</Modal.Header>
+      <Modal.Body>
+        {defaults.isLoading ? (
+          <div className="flex justify-center">
+            <AnimatedSpinner />
+          </div>
+        ) : (
+          <form
+            onSubmit={rollForwardForm.handleSubmit(onRollForwardSubmit)}
+            className="flex flex-col gap-2"
+          >
+            <div>
+              <p>Name</p>
+              <Input
+                type="text"
+                className="mt-2 w-full"
+                placeholder="Revision Name"
+                {...rollForwardForm.register("name")}
+              />
+              <ErrorMessage
+                errors={rollForwardForm.formState.errors}
+                name="name"
+                render={({ message }) => (
+                  <p className="font-semibold text-red-600">{message}</p>
+                )}
+              />
+            </div>
+            <div>
+              <p>Term</p>
+              <Input
+                type="number"
+                className="mt-2 w-full"
+                {...rollForwardForm.register("term", { valueAsNumber: true })}
+              />
+              <ErrorMessage
+                errors={rollForwardForm.formState.errors}
+                name="term"
+                render={({ message }) => (
+                  <p className="font-semibold text-red-600">{message}</p>
+                )}
+              />
+            </div>
+            {windows.fields.map((field, index) => {
+              return (
+                <div key={field.id}>
+                  <p>{capitalize(field.semester)}</p>
+                  <div className="mt-2 flex flex-row items-center gap-2">
+                    <Controller
+                      name={`windows.${index}.start_date`}
+                      control={rollForwardForm.control}
+                      render={({ field: { onChange, value } }) => (
+                        <DatePicker
+                          selected={value}
+                          onChange={onChange}
+                          className="rounded-lg border-[1px] border-gray-300 p-1"
+                        />
+                      )}
+                    />
+                    <span>to</span>
+                    <Controller
+                      name={`windows.${index}.end_date`}
+                      control={rollForwardForm.control}
+                      render={({ field: { onChange, value } }) => (
+                        <DatePicker
+                          selected={value}
+                          onChange={onChange}
+                          className="rounded-lg border-[1px] border-gray-300 p-1"
+                        />
+                      )}
+                    />
+                  </div>
+                  <ErrorMessage
+                    errors={rollForwardForm.formState.errors}
+                    name={`windows.${index}.end_date`}
+                    render={({ message }) => (
+                      <p className="font-semibold text-red-600">{message}</p>
+                    )}
+                  />
+                </div>
+              );
+            })}
+            <label className="flex cursor-pointer items-center gap-2">
+              <Checkbox {...rollForwardForm.register("drop_removed")} />
+              <span>Drop removed courses</span>
+            </label>
+            <div className="flex justify-end">
+              <Button
+                color="success"
+                type="submit"
+                className="mt-2"
+                disabled={rollForwardMutation.isLoading}
+              >
+                Roll Forward
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default RollForwardModal;
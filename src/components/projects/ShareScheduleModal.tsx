@@ -0,0 +1,234 @@
+import { ScheduleRole } from "@prisma/client";
+import { ErrorMessage } from "@hookform/error-message";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { capitalize } from "lodash";
+import { useSession } from "next-auth/react";
+import { useForm } from "react-hook-form";
+import { Button, Input, Modal, Select, Table } from "react-daisyui";
+import { toast } from "react-toastify";
+import { Trash } from "tabler-icons-react";
+import { api } from "src/utils/api";
+import {
+  type IInviteScheduleUser,
+  inviteScheduleUserSchema,
+} from "src/validation/schedules";
+
+interface ShareScheduleModalProps {
+  scheduleId: string;
+  title?: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * ShareScheduleModal
+ * Lets the owner of a schedule invite other users by email, and see
+ * (or remove, or change the role of) who already has access to the schedule
+ */
+const ShareScheduleModal = ({
+  scheduleId,
+  title,
+  open,
+  onClose,
+}: ShareScheduleModalProps) => {
+  const { data: session } = useSession();
+
+  //Only grab the members when the modal is open
+  const members = api.schedules.getMembers.useQuery(
+    { schedule_tuid: scheduleId },
+    { enabled: open }
+  );
+
+  const inviteMutation = api.schedules.inviteUser.useMutation();
+  const revokeInviteMutation = api.schedules.revokeInvite.useMutation();
+  const removeMemberMutation = api.schedules.removeMember.useMutation();
+  const updateMemberRoleMutation = api.schedules.updateMemberRole.useMutation();
+
+  //Only owners can change the role of anyone
+  const isOwner =
+    members.data?.members.some(
+      (member) =>
+        member.user_tuid == session?.user?.id &&
+        member.role == ScheduleRole.OWNER
+    ) ?? false;
+
+  const { reset, ...inviteForm } = useForm<IInviteScheduleUser>({
+    mode: "onBlur",
+    resolver: zodResolver(inviteScheduleUserSchema),
+    defaultValues: {
+      schedule_tuid: scheduleId,
+      email: "",
+      role: ScheduleRole.VIEWER,
+    },
+  });
+
+  //Invite the user, and show the error if the user could not be invited
+  const onInviteSubmit = async (data: IInviteScheduleUser) => {
+    const result = await inviteMutation.mutateAsync(data);
+    if (result.success) {
+      toast.success(`Invited '${data.email}'`, {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+      reset({ schedule_tuid: scheduleId, email: "", role: data.role });
+    } else {
+      toast.error(result.errors[0] ?? "Failed to invite user", {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+    }
+    members.refetch();
+  };
+
+  const revokeInvite = async (tuid: string) => {
+    const result = await revokeInviteMutation.mutateAsync({ tuid });
+    if (!result) {
+      toast.error("Failed to revoke invite", {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+    }
+    members.refetch();
+  };
+
+  const removeMember = async (user_tuid: string) => {
+    const result = await removeMemberMutation.mutateAsync({
+      schedule_tuid: scheduleId,
+      user_tuid,
+    });
+    if (!result) {
+      toast.error("Failed to remove user, a schedule must have an owner", {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+    }
+    members.refetch();
+  };
+
+  const updateMemberRole = async (user_tuid: string, role: ScheduleRole) => {
+    const result = await updateMemberRoleMutation.mutateAsync({
+      schedule_tuid: scheduleId,
+      user_tuid,
+      role,
+    });
+    if (!result) {
+      toast.error("Failed to change role, a schedule must have an owner", {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+    }
+    members.refetch();
+  };
+
+  return (
+    <Modal open={open} onClickBackdrop={onClose} className="w-11/12 max-w-2xl">
+      <Button
+        size="sm"
+        shape="circle"
+        className="absolute right-2 top-2"
+        onClick={onClose}
+      >
+        ✕
+      </Button>
+      <Modal.Header className="font-bold">
+        Share {title ?? "Schedule"}
+      </Modal.Header>
+      <Modal.Body>
+        <form
+          onSubmit={inviteForm.handleSubmit(onInviteSubmit)}
+          className="flex flex-col"
+        >
+          <div className="flex flex-row gap-2">
+            <Input
+              type="email"
+              className="flex-grow"
+              placeholder="Email"
+              {...inviteForm.register("email")}
+            />
+            <Select {...inviteForm.register("role")}>
+              <Select.Option value={ScheduleRole.VIEWER}>Viewer</Select.Option>
+              <Select.Option value={ScheduleRole.EDITOR}>Editor</Select.Option>
+              <Select.Option value={ScheduleRole.OWNER}>Owner</Select.Option>
+            </Select>
+            <Button color="success" type="submit">
+              Invite
+            </Button>
+          </div>
+          <ErrorMessage
+            errors={inviteForm.formState.errors}
+            name="email"
+            render={({ message }) => (
+              <p className="font-semibold text-red-600">{message}</p>
+            )}
+          />
+        </form>
+
+        <Table className="mt-4 w-full" compact>
+          <Table.Head>
+            <span>User</span>
+            <span>Role</span>
+            <span />
+          </Table.Head>
+          <Table.Body>
+            {members.data?.members.map((member) => {
+              return (
+                <Table.Row key={member.user_tuid}>
+                  <span>
+                    {member.user.username}
+                    <span className="ml-2 text-slate-400">
+                      {member.user.email}
+                    </span>
+                  </span>
+                  <Select
+                    size="xs"
+                    value={member.role}
+                    disabled={!isOwner}
+                    onChange={(event) =>
+                      updateMemberRole(
+                        member.user_tuid,
+                        event.target.value as ScheduleRole
+                      )
+                    }
+                  >
+                    <Select.Option value={ScheduleRole.VIEWER}>
+                      Viewer
+                    </Select.Option>
+                    <Select.Option value={ScheduleRole.EDITOR}>
+                      Editor
+                    </Select.Option>
+                    <Select.Option value={ScheduleRole.OWNER}>
+                      Owner
+                    </Select.Option>
+                  </Select>
+                  <Button
+                    color="error"
+                    size="xs"
+                    onClick={() => removeMember(member.user_tuid)}
+                    disabled={member.user_tuid == session?.user?.id}
+                  >
+                    <Trash size={15} />
+                  </Button>
+                </Table.Row>
+              );
+            })}
+            {members.data?.invites.map((invite) => {
+              return (
+                <Table.Row key={invite.tuid}>
+                  <span className="italic">
+                    {invite.email}
+                    <span className="ml-2 text-slate-400">(Pending)</span>
+                  </span>
+                  <span>{capitalize(invite.role)}</span>
+                  <Button
+                    color="error"
+                    size="xs"
+                    onClick={() => revokeInvite(invite.tuid)}
+                  >
+                    <Trash size={15} />
+                  </Button>
+                </Table.Row>
+              );
+            })}
+          </Table.Body>
+        </Table>
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default ShareScheduleModal;
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import { Button, Input } from "react-daisyui";
+import Select from "react-select";
+import { toast } from "react-toastify";
+import { Trash } from "tabler-icons-react";
+
+import { api } from "src/utils/api";
+import {
+  applyColumnTemplate,
+  templateFromColumns,
+  type IColumnTemplateHeaders,
+} from "src/utils/columns";
+import { columnLookupTable } from "./ProjectDataTableEdit";
+
+const NOTIFICATION_POSITION = toast.POSITION.BOTTOM_LEFT;
+
+interface ProjectColumnTemplatesProps {
+  headers: Array<string | number | null | undefined>; //The header row of the uploaded sheet
+  columns: Record<string, number | null>; //The current organized columns
+  onApply: (columns: Record<string, number>) => void; //When columns are organized by a template
+}
+
+/**
+ * ProjectColumnTemplates
+ * Saves how the columns are organized as a named template, which organizes the
+ * columns of later uploads by their headers. A template whose headers are all in
+ * the upload is applied on its own, otherwise any columns left are organized by
+ * the headers which match their names.
+ */
+const ProjectColumnTemplates = ({
+  headers,
+  columns,
+  onApply,
+}: ProjectColumnTemplatesProps) => {
+  const templates = api.projects.getColumnTemplates.useQuery();
+  const saveMutation = api.projects.saveColumnTemplate.useMutation();
+  const deleteMutation = api.projects.deleteColumnTemplate.useMutation();
+
+  const [selected, setSelected] = useState<{ tuid: string; name: string }>();
+  const [name, setName] = useState("");
+
+  //The upload is only organized on its own once, so it can be changed afterwards
+  const detected = useRef(false);
+
+  //How many of the headers of each template are in the upload
+  const options = (templates.data ?? []).map((template) => {
+    const { matched, total } = applyColumnTemplate(headers, template.headers);
+    return {
+      value: template.tuid,
+      label: `${template.name} (${matched}/${total} headers)`,
+      template,
+      matched,
+      total,
+    };
+  });
+
+  /**
+   * apply
+   * Organizes the columns by the headers of a template
+   */
+  const apply = (template: {
+    tuid: string;
+    name: string;
+    headers: IColumnTemplateHeaders;
+  }) => {
+    onApply(applyColumnTemplate(headers, template.headers).columns);
+    setSelected(template);
+    setName(template.name);
+  };
+
+  useEffect(() => {
+    if (templates.data == undefined || detected.current) {
+      return;
+    }
+    detected.current = true;
+
+    //The template with the most headers, which are all in the upload
+    const match = options
+      .filter((option) => option.total > 0 && option.matched == option.total)
+      .sort((a, b) => b.total - a.total)[0];
+    if (match != undefined) {
+      apply(match.template);
+      toast.info(
+        `Organized the columns with the template '${match.template.name}'`,
+        {
+          position: NOTIFICATION_POSITION,
+        }
+      );
+      return;
+    }
+
+    //Otherwise the columns left are organized by the headers matching their names
+    const organized = Object.entries(columns).filter(
+      ([, index]) => index != null && index >= 0
+    );
+    const { columns: found, matched } = applyColumnTemplate(
+      headers,
+      Object.fromEntries(
+        columnLookupTable
+          .filter((column) => !organized.some(([key]) => key == column.value))
+          .map((column) => [column.value, column.label])
+      ),
+      organized.map(([, index]) => index as number)
+    );
+    if (matched > 0) {
+      onApply({
+        ...Object.fromEntries(organized as Array<[string, number]>),
+        ...Object.fromEntries(
+          Object.entries(found).filter(([, index]) => index != -1)
+        ),
+      });
+    }
+  }, [templates.data]);
+
+  const onSave = async () => {
+    const result = await saveMutation.mutateAsync({
+      name,
+      headers: templateFromColumns(headers, columns),
+    });
+    if (result) {
+      toast.success(`Saved the template '${name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+      templates.refetch();
+    } else {
+      toast.error(`Failed to save the template '${name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+  };
+
+  const onDelete = async () => {
+    if (selected == undefined) {
+      return;
+    }
+    const result = await deleteMutation.mutateAsync({ tuid: selected.tuid });
+    if (result) {
+      toast.success(`Deleted the template '${selected.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+      setSelected(undefined);
+      templates.refetch();
+    } else {
+      toast.error(`Failed to delete the template '${selected.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+  };
+
+  return (
+    <div className="mb-2 flex flex-row flex-wrap items-center gap-2">
+      <div className="w-72">
+        <Select
+          options={options}
+          placeholder="Apply a template..."
+          classNamePrefix="selection"
+          value={
+            options.find((option) => option.value == selected?.tuid) ?? null
+          }
+          onChange={(option) => {
+            if (option != null) {
+              apply(option.template);
+            }
+          }}
+        />
+      </div>
+      <Button
+        size="sm"
+        color="error"
+        disabled={selected == undefined}
+        onClick={onDelete}
+      >
+        <Trash size={16} />
+      </Button>
+      <Input
+        size="sm"
+        placeholder="Template name"
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+      />
+      <Button
+        size="sm"
+        disabled={name.trim() == ""}
+        loading={saveMutation.isLoading}
+        onClick={onSave}
+      >
+        Save Template
+      </Button>
+    </div>
+  );
+};
+
+export default ProjectColumnTemplates;
@@ -3,6 +3,7 @@ import React, { useState } from "react";
 import { Table } from "react-daisyui";
 import Select from "react-select";
 import { AlertTriangle, NoteOff } from "tabler-icons-react";
+import { type IProjectImportError } from "src/validation/projects";
 /**
  * ProjectDataTableEditProps
  * Generates a table when upload an Excel sheet
@@ -12,6 +13,8 @@ interface ProjectDataTableEditProps {
   uploaded: Array<Array<string>> | undefined;
   columns: Record<string, number | null>;
   onUpdateOrganizedColumns: (value: { [x: string]: number | null }) => void;
+  errors?: IProjectImportError[]; //The cells which could not be imported
+  onUpdateCell?: (row: number, column: number, value: string) => void; //When a cell with an error is corrected
 }
 interface IColumnLookupTable {
   value: string;
@@ -77,6 +80,8 @@ const ProjectDataTableEdit = ({
   uploaded,
   columns,
   onUpdateOrganizedColumns,
+  errors = [],
+  onUpdateCell,
 }: ProjectDataTableEditProps) => {
   //This is technically no longer needed, but will be kept just in case
   // const tableBody: Array<Array<string> | undefined> = [];
@@ -123,6 +128,19 @@ const ProjectDataTableEdit = ({
     return key;
   };
 
+  /**
+   * getCellErrors - Gets the messages of the errors in a cell of the sheet
+   * @param row the row of the sheet, the header being 0
+   * @param column the column of the sheet
+   */
+  const getCellErrors = (row: number, column: number) => {
+    return errors
+      .filter(
+        (error) => error.excelRow == row && columns[error.column] == column
+      )
+      .map((error) => error.message);
+  };
+
   /**
    * onSelect - When a dropdown of a column is selected, we want to preform said event
    * @param event
@@ -182,19 +200,39 @@ const ProjectDataTableEdit = ({
           </thead>
           <tbody>
             {/* This removes the first row with a simple slice, instead of making a new array */}
-            {uploaded.slice(1).map((item, index) => {
+            {uploaded.slice(1).map((item, rowIndex) => {
               return (
-                <tr key={index}>
+                <tr key={rowIndex}>
                   <span />
                   {item?.map((value, index) => {
+                    //The header was sliced off, so the row of the sheet is one more
+                    const cellErrors = getCellErrors(rowIndex + 1, index);
                     return (
                       <td
-                        className=" w-1/3 border border-slate-600 p-1"
+                        className={`w-1/3 border border-slate-600 p-1 ${
+                          cellErrors.length > 0 ? "bg-red-200" : ""
+                        }`}
                         key={index}
+                        title={cellErrors.join("\n")}
                       >
-                        {/* if the item in the block has a new line, put a <br> tag to have a new line */}
-                        {value != undefined &&
-                        value.toString().includes("\n") ? (
+                        {/* cells with errors can be corrected, keeping the new lines of the cell */}
+                        {cellErrors.length > 0 && onUpdateCell != undefined ? (
+                          <>
+                            <AlertTriangle size={16} className="text-red-600" />
+                            <textarea
+                              className="textarea-xs textarea-bordered textarea w-full"
+                              value={value != undefined ? `${value}` : ""}
+                              onChange={(event) =>
+                                onUpdateCell(
+                                  rowIndex + 1,
+                                  index,
+                                  event.target.value
+                                )
+                              }
+                            />
+                          </>
+                        ) : value != undefined &&
+                          value.toString().includes("\n") ? (
                           <>
                             {value.split("\n").map((val) => {
                               return (
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { Button, Checkbox, Input, Select } from "react-daisyui";
+import { Controller, useForm } from "react-hook-form";
+import { ErrorMessage } from "@hookform/error-message";
+import { zodResolver } from "@hookform/resolvers/zod";
+import AsyncSelect from "react-select/async";
+import { toast } from "react-toastify";
+
+import { api } from "src/utils/api";
+import {
+  createFacultySchema,
+  type ICreateFaculty,
+} from "src/validation/faculty";
+import { createBuildingSchema } from "src/validation/buildings";
+import { type z } from "zod";
+
+const NOTIFICATION_POSITION = toast.POSITION.BOTTOM_LEFT;
+
+//An option of the selects, ex: a faculty member, building or campus
+type ISelectOption = { label: string; value: string };
+
+interface ProjectImportMappingProps {
+  faculty: string[]; //The faculty names of the sheet which were not found
+  buildings: string[]; //The building prefixes of the sheet which were not found
+  onMapped: () => void; //When a name or prefix is mapped or created, so the import can be checked again
+}
+
+/**
+ * ProjectImportMapping
+ * Lists the faculty and buildings of the sheet which could not be found, so each
+ * one can be mapped to an existing one (which is remembered for future imports)
+ * or created
+ */
+const ProjectImportMapping = ({
+  faculty,
+  buildings,
+  onMapped,
+}: ProjectImportMappingProps) => {
+  const facultyMutation = api.faculty.getRevisionCourseFaculty.useMutation();
+  const buildingsMutation = api.buildings.getBuildingsList.useMutation();
+  const mapFacultyMutation = api.projects.mapImportFaculty.useMutation();
+  const mapBuildingMutation = api.projects.mapImportBuilding.useMutation();
+
+  //The name or prefix which is being created, if any
+  const [creating, setCreating] = useState<string>();
+
+  /**
+   * onMap
+   * Saves the mapping of a name or prefix, then checks the import again
+   */
+  const onMap = async (label: string, mapping: Promise<boolean>) => {
+    try {
+      await mapping;
+      toast.success(`Mapped '${label}'`, { position: NOTIFICATION_POSITION });
+      onMapped();
+    } catch {
+      toast.error(`Failed to map '${label}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {faculty.length > 0 && (
+        <strong className="text-red-600">Unknown Faculty</strong>
+      )}
+      {faculty.map((name) => (
+        <div key={name} className="flex flex-col gap-1">
+          <span>{name}</span>
+          <AsyncSelect
+            cacheOptions
+            defaultOptions
+            placeholder="Map to faculty..."
+            menuPlacement="auto"
+            loadOptions={(search): Promise<ISelectOption[]> =>
+              facultyMutation.mutateAsync({ search, department: null })
+            }
+            onChange={(value: ISelectOption | null) => {
+              if (value != null) {
+                onMap(
+                  name,
+                  mapFacultyMutation.mutateAsync({
+                    name,
+                    faculty_tuid: value.value,
+                  })
+                );
+              }
+            }}
+          />
+          {creating == name ? (
+            <CreateFacultyForm
+              name={name}
+              onCreated={onMapped}
+              onCancel={() => setCreating(undefined)}
+            />
+          ) : (
+            <Button size="xs" onClick={() => setCreating(name)}>
+              Create Faculty
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {buildings.length > 0 && (
+        <strong className="text-red-600">Unknown Buildings</strong>
+      )}
+      {buildings.map((prefix) => (
+        <div key={prefix} className="flex flex-col gap-1">
+          <span>{prefix}</span>
+          <AsyncSelect
+            cacheOptions
+            defaultOptions
+            placeholder="Map to building..."
+            menuPlacement="auto"
+            loadOptions={(search): Promise<ISelectOption[]> =>
+              buildingsMutation.mutateAsync({ search })
+            }
+            onChange={(value: ISelectOption | null) => {
+              if (value != null) {
+                onMap(
+                  prefix,
+                  mapBuildingMutation.mutateAsync({
+                    prefix,
+                    building_tuid: value.value,
+                  })
+                );
+              }
+            }}
+          />
+          {creating == prefix ? (
+            <CreateBuildingForm
+              prefix={prefix}
+              onCreated={onMapped}
+              onCancel={() => setCreating(undefined)}
+            />
+          ) : (
+            <Button size="xs" onClick={() => setCreating(prefix)}>
+              Create Building
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface CreateFacultyFormProps {
+  name: string; //The faculty name from the sheet
+  onCreated: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * CreateFacultyForm
+ * Adds a faculty member with the name from the sheet, which can be edited. When
+ * it is, the name from the sheet is mapped to the new faculty member.
+ */
+const CreateFacultyForm = ({
+  name,
+  onCreated,
+  onCancel,
+}: CreateFacultyFormProps) => {
+  const addMutation = api.faculty.addFaculty.useMutation();
+  const mapMutation = api.projects.mapImportFaculty.useMutation();
+  const departments = api.department.getAllDepartmentsSelect.useQuery();
+
+  const facultyForm = useForm<ICreateFaculty>({
+    mode: "onBlur",
+    resolver: zodResolver(createFacultySchema),
+    defaultValues: {
+      name,
+      suffix: "",
+      email: "",
+      is_adjunct: false,
+      department: "",
+    },
+  });
+
+  const onSubmit = async (data: ICreateFaculty) => {
+    try {
+      const { result } = await addMutation.mutateAsync(data);
+      //The name from the sheet is only found by the name it was created with
+      if (data.name.trim().toLowerCase() != name.trim().toLowerCase()) {
+        await mapMutation.mutateAsync({ name, faculty_tuid: result.tuid });
+      }
+      toast.success(`Added new faculty '${data.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+      onCreated();
+    } catch {
+      toast.error(`Failed to add faculty '${data.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 rounded-lg border-2 p-2">
+      <Input size="sm" placeholder="Name" {...facultyForm.register("name")} />
+      <Input size="sm" placeholder="Email" {...facultyForm.register("email")} />
+      <Select size="sm" {...facultyForm.register("department")}>
+        <Select.Option value="">Select a department</Select.Option>
+        <>
+          {departments.data?.result.map((department, i) => (
+            <Select.Option key={i} value={department.name}>
+              {department.name}
+            </Select.Option>
+          ))}
+        </>
+      </Select>
+      <label className="flex items-center gap-1 text-sm">
+        <Checkbox size="sm" {...facultyForm.register("is_adjunct")} />
+        Adjunct
+      </label>
+      {(["name", "email"] as const).map((field) => (
+        <ErrorMessage
+          key={field}
+          errors={facultyForm.formState.errors}
+          name={field}
+          render={({ message }) => (
+            <p className="font-semibold text-red-600">{message}</p>
+          )}
+        />
+      ))}
+      <div className="flex gap-1">
+        <Button
+          size="xs"
+          color="success"
+          loading={addMutation.isLoading || mapMutation.isLoading}
+          onClick={facultyForm.handleSubmit(onSubmit)}
+        >
+          Create
+        </Button>
+        <Button size="xs" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+type ICreateBuilding = z.infer<typeof createBuildingSchema>;
+
+interface CreateBuildingFormProps {
+  prefix: string; //The building prefix from the sheet
+  onCreated: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * CreateBuildingForm
+ * Adds a building with the prefix from the sheet
+ */
+const CreateBuildingForm = ({
+  prefix,
+  onCreated,
+  onCancel,
+}: CreateBuildingFormProps) => {
+  const addMutation = api.buildings.addBuilding.useMutation();
+  const campusMutation = api.buildings.getCampusList.useMutation();
+
+  const buildingForm = useForm<ICreateBuilding>({
+    mode: "onBlur",
+    resolver: zodResolver(createBuildingSchema),
+    defaultValues: {
+      prefix,
+      name: "",
+      classrooms: "",
+      campus_tuid: "",
+    },
+  });
+
+  const onSubmit = async (data: ICreateBuilding) => {
+    try {
+      await addMutation.mutateAsync(data);
+      toast.success(`Added new building '${data.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+      onCreated();
+    } catch {
+      toast.error(`Failed to add building '${data.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 rounded-lg border-2 p-2">
+      <Controller
+        name="campus_tuid"
+        control={buildingForm.control}
+        render={({ field: { onChange } }) => (
+          <AsyncSelect
+            defaultOptions
+            placeholder="Campus"
+            menuPlacement="auto"
+            loadOptions={(search): Promise<ISelectOption[]> =>
+              campusMutation.mutateAsync({ search })
+            }
+            onChange={(value: ISelectOption | null) =>
+              onChange(value?.value ?? "")
+            }
+          />
+        )}
+      />
+      <Input size="sm" placeholder="Name" {...buildingForm.register("name")} />
+      <Input
+        size="sm"
+        placeholder="Classrooms (ex: 1,10,30a-40c)"
+        {...buildingForm.register("classrooms")}
+      />
+      {(["campus_tuid", "name", "prefix", "classrooms"] as const).map(
+        (field) => (
+          <ErrorMessage
+            key={field}
+            errors={buildingForm.formState.errors}
+            name={field}
+            render={({ message }) => (
+              <p className="font-semibold text-red-600">{message}</p>
+            )}
+          />
+        )
+      )}
+      <div className="flex gap-1">
+        <Button
+          size="xs"
+          color="success"
+          loading={addMutation.isLoading}
+          onClick={buildingForm.handleSubmit(onSubmit)}
+        >
+          Create
+        </Button>
+        <Button size="xs" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectImportMapping;
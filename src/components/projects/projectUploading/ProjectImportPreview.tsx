@@ -0,0 +1,55 @@
+import { Badge } from "react-daisyui";
+import { type IProjectImportPreview } from "src/validation/projects";
+import ProjectImportMapping from "./ProjectImportMapping";
+
+interface ProjectImportPreviewProps {
+  preview: IProjectImportPreview;
+  onMapped: () => void; //When an unknown faculty member or building is mapped or created
+}
+
+/**
+ * Lists the rows of the sheet (which are shown starting at 1 with the header)
+ */
+const rowsToString = (rows: number[]) => rows.map((row) => row + 1).join(", ");
+
+/**
+ * ProjectImportPreview
+ * Summarizes what would be created by importing the sheet, so it can be reviewed
+ * before the revision is finalized
+ */
+const ProjectImportPreview = ({
+  preview,
+  onMapped,
+}: ProjectImportPreviewProps) => {
+  return (
+    <div className="mr-5 flex max-h-96 min-w-[200px] max-w-xs flex-col gap-2 overflow-y-auto">
+      <strong className="sticky top-0 block bg-white">Import Preview</strong>
+      <span>{preview.total} courses would be created</span>
+      <div className="flex flex-wrap gap-1">
+        <Badge>Fall: {preview.semesters.FA}</Badge>
+        <Badge>Winter: {preview.semesters.WI}</Badge>
+        <Badge>Spring: {preview.semesters.SP}</Badge>
+        <Badge>Summer: {preview.semesters.SU}</Badge>
+      </div>
+      <ProjectImportMapping
+        faculty={preview.unknown_faculty}
+        buildings={preview.unknown_buildings}
+        onMapped={onMapped}
+      />
+      {preview.online_rows.length > 0 && (
+        <div>
+          <strong>Online Rows</strong>
+          <p className="text-sm">{rowsToString(preview.online_rows)}</p>
+        </div>
+      )}
+      {preview.zero_time_rows.length > 0 && (
+        <div>
+          <strong className="text-yellow-600">Rows Without a Time</strong>
+          <p className="text-sm">{rowsToString(preview.zero_time_rows)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectImportPreview;
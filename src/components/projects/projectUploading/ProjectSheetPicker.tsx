@@ -0,0 +1,53 @@
+import { useState } from "react";
+import Select from "react-select";
+
+import { mergeSheets } from "src/utils/columns";
+
+interface ProjectSheetPickerProps {
+  sheets: Array<{ name: string; table: Array<Array<string>> }>; //Every sheet of the uploaded workbook
+  onChange: (table: Array<Array<string>>, names: string[]) => void; //When the sheets being imported change
+}
+
+/**
+ * ProjectSheetPicker
+ * Picks which sheet of a workbook is imported, where picking several sheets
+ * (ex: one per semester) merges them into one revision
+ */
+const ProjectSheetPicker = ({ sheets, onChange }: ProjectSheetPickerProps) => {
+  const options = sheets.map((sheet, index) => ({
+    value: index,
+    label: sheet.name,
+  }));
+
+  //The first sheet is imported until others are picked
+  const [selected, setSelected] = useState(options.slice(0, 1));
+
+  return (
+    <div className="mb-2 flex flex-row items-center gap-2">
+      <span className="font-semibold">Sheets</span>
+      <div className="w-full max-w-xl">
+        <Select
+          isMulti
+          options={options}
+          value={selected}
+          classNamePrefix="selection"
+          onChange={(value) => {
+            //At least one sheet has to be imported
+            if (value.length == 0) {
+              return;
+            }
+            setSelected([...value]);
+            onChange(
+              mergeSheets(
+                value.map((option) => sheets[option.value]?.table ?? [])
+              ),
+              value.map((option) => option.label)
+            );
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProjectSheetPicker;
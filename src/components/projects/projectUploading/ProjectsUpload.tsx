@@ -21,6 +21,7 @@ interface ProjectsUploadProps {
 interface IOnboarding {
   tuid: string;
   table: Array<Array<string>>;
+  sheets?: Array<{ name: string; table: Array<Array<string>> }>;
 }
 /**
  * ProjectsUpload
@@ -86,7 +87,7 @@ const ProjectsUpload = ({
     <div className="flex flex-col justify-between justify-items-center">
       {!error && uploading && <span>uploading...</span>}
       <FileInput
-        accept=".xlsx,.xls"
+        accept=".xlsx,.xls,.csv"
         max-size="1024"
         disabled={progress === 100 ? true : false}
         onChange={onFileChange}
@@ -18,7 +18,9 @@ export const serverSchema = z.object({
     (str) => process.env.VERCEL_URL ?? str,
     // VERCEL_URL doesn't include `https` so it cant be validated as a URL
     process.env.VERCEL ? z.string() : z.string().url(),
-  )
+  ),
+  //The account which is made the first admin, so permissions can be granted to everyone else
+  ADMIN_EMAIL: z.string().email().optional(),
 });
 
 /**
@@ -0,0 +1,103 @@
+import { useCallback, useEffect } from "react";
+import { toast } from "react-toastify";
+import { TRPCClientError } from "@trpc/client";
+import { api } from "src/utils/api";
+
+/**
+ * Undo/Redo Hook
+ *
+ * This hook provides the server backed undo and redo of course changes for the
+ * current user on a revision. Ctrl+Z undoes, and Ctrl+Shift+Z (or Ctrl+Y) redoes,
+ * while the user is not typing in a field. Nothing is offered to users who can
+ * only view the revision.
+ *
+ * @param revision the tuid of the revision
+ * @param enabled should the keyboard shortcuts be active (ie, no modal is open)
+ * @returns undo and redo functions, and if either can be done
+ */
+const useUndoRedo = (revision: string, enabled = true) => {
+  const utils = api.useContext();
+
+  const stack = api.audit.getUndoStack.useQuery({ tuid: revision });
+  //Viewers can't make changes, so they can't undo or redo them either
+  const canEdit = api.calendar.canEditRevision.useQuery({ tuid: revision });
+  const undoMutation = api.audit.undo.useMutation();
+  const redoMutation = api.audit.redo.useMutation();
+  const isLoading = undoMutation.isLoading || redoMutation.isLoading;
+
+  //Run either an undo or a redo, then refresh the calendars
+  const apply = useCallback(
+    async (redo: boolean) => {
+      if (isLoading || !canEdit.data) return;
+      const mutation = redo ? redoMutation : undoMutation;
+      try {
+        const result = await mutation.mutateAsync({ tuid: revision });
+        if (result.success) {
+          toast.info(`${redo ? "Redid" : "Undid"} change to ${result.course}`, {
+            position: toast.POSITION.BOTTOM_LEFT,
+          });
+        } else {
+          toast.error(`Nothing to ${redo ? "redo" : "undo"}`, {
+            position: toast.POSITION.BOTTOM_LEFT,
+          });
+        }
+      } catch (error) {
+        //Show why it was refused, such as the course being changed since
+        toast.error(
+          error instanceof TRPCClientError
+            ? error.message
+            : `Failed to ${redo ? "redo" : "undo"} the change`,
+          { position: toast.POSITION.BOTTOM_LEFT }
+        );
+      }
+      await utils.calendar.invalidate();
+      await utils.audit.invalidate();
+    },
+    [isLoading, canEdit.data, redoMutation, undoMutation, revision, utils]
+  );
+
+  //Refresh the stack once the course modal closes, as it may have changed a course
+  useEffect(() => {
+    if (enabled) stack.refetch();
+  }, [enabled]);
+
+  //Listen for the keyboard shortcuts, only if the user can edit the revision
+  useEffect(() => {
+    if (!enabled || !canEdit.data) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      //Let the browser undo text while typing
+      const target = event.target as HTMLElement | null;
+      if (
+        target != null &&
+        (target.tagName == "INPUT" ||
+          target.tagName == "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key == "z") {
+        event.preventDefault();
+        apply(event.shiftKey);
+      } else if (key == "y") {
+        event.preventDefault();
+        apply(true);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled, canEdit.data, apply]);
+
+  return {
+    undo: () => apply(false),
+    redo: () => apply(true),
+    canUndo: canEdit.data == true && (stack.data?.undo ?? 0) > 0 && !isLoading,
+    canRedo: canEdit.data == true && (stack.data?.redo ?? 0) > 0 && !isLoading,
+  };
+};
+
+//Export the function so other files can use it
+export default useUndoRedo;
@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Input,
+  Modal,
+  Select,
+  Table,
+} from "react-daisyui";
+import { useForm } from "react-hook-form";
+import { ErrorMessage } from "@hookform/error-message";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Pencil, Plus, Trash } from "tabler-icons-react";
+import { type GuidelineRoom } from "@prisma/client";
+import { toast } from "react-toastify";
+
+import { api } from "src/utils/api";
+import { createRoomSchema, type ICreateRoom } from "src/validation/buildings";
+
+import ConfirmDeleteModal from "src/components/ConfirmDeleteModal";
+import PaginationBar from "src/components/Pagination";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+
+const NOTIFICATION_POSITION = toast.POSITION.BOTTOM_LEFT;
+
+/**
+ * RoomsTab
+ * Lists the rooms of a building, with how many seats and features each
+ * room has, and allows for adding, editing and deleting them
+ */
+const RoomsTab = () => {
+  /**
+   * Buildings
+   * The list of buildings to pick from, and the building the rooms are shown for
+   */
+  const buildingsMutation = api.buildings.getBuildingsList.useMutation();
+  const [buildings, setBuildings] = useState<
+    Array<{ label: string; value: string }>
+  >([]);
+  const [buildingTuid, setBuildingTuid] = useState<string>("");
+
+  useEffect(() => {
+    const getBuildings = async () => {
+      const result = await buildingsMutation.mutateAsync({ search: "" });
+      setBuildings(result);
+      //Show the first building by default
+      if (result[0] != undefined) {
+        setBuildingTuid(result[0].value);
+      }
+    };
+    getBuildings();
+  }, []);
+
+  /**
+   * Data
+   */
+  const [roomPage, setRoomPage] = useState(1);
+
+  const rooms = api.buildings.getRooms.useQuery(
+    {
+      building_tuid: buildingTuid,
+      page: roomPage,
+    },
+    { enabled: buildingTuid != "" }
+  );
+
+  /**
+   * Modals
+   *
+   * Show and confirm users for the adding,editing,and deleting
+   */
+  const [roomModifyModal, setRoomModifyModal] = useState<boolean>(false);
+  const [roomEditing, setRoomEditing] = useState<GuidelineRoom>();
+
+  const [roomDeleteModal, setRoomDeleteModal] = useState<boolean>(false);
+  const [roomDeleteValue, setRoomDeleteValue] = useState<GuidelineRoom>();
+
+  /**
+   * useForm
+   * This creates a new form using the react-form-hooks.
+   */
+  const { reset, ...roomForm } = useForm<ICreateRoom>({
+    mode: "onBlur",
+    resolver: zodResolver(createRoomSchema),
+  });
+
+  const toggleRoomModifyModal = (room?: GuidelineRoom) => {
+    //Reset the form so we can add (or edit a room)
+    reset(
+      room ?? {
+        building_tuid: buildingTuid,
+        room: "",
+        capacity: 30,
+        has_lab: false,
+        has_projector: false,
+        is_accessible: false,
+      }
+    );
+    setRoomEditing(room);
+    setRoomModifyModal(!roomModifyModal);
+  };
+
+  //Grab the mutations from the backend for adding, updating, and deleting
+  const roomAddMutation = api.buildings.addRoom.useMutation();
+  const roomUpdateMutation = api.buildings.updateRoom.useMutation();
+  const roomDeleteMutation = api.buildings.deleteRoom.useMutation();
+
+  /**
+   * onRoomModifySubmit
+   * Adds or updates the room in the form
+   */
+  const onRoomModifySubmit = async (data: ICreateRoom) => {
+    const result =
+      roomEditing != undefined
+        ? await roomUpdateMutation.mutateAsync({
+            tuid: roomEditing.tuid,
+            ...data,
+          })
+        : await roomAddMutation.mutateAsync(data);
+
+    if (result) {
+      toast.success(
+        `${roomEditing != undefined ? "Updated" : "Added"} room '${data.room}'`,
+        {
+          position: NOTIFICATION_POSITION,
+        }
+      );
+      setRoomModifyModal(false);
+    } else {
+      toast.error(
+        `Room '${data.room}' already exists, or is not one of the classrooms of this building`,
+        {
+          position: NOTIFICATION_POSITION,
+        }
+      );
+    }
+    rooms.refetch();
+  };
+
+  /**
+   * deleteRoom
+   * Delete a room based on tuid that is in the roomDeleteValue
+   */
+  const deleteRoom = async () => {
+    if (roomDeleteValue != undefined) {
+      const response = await roomDeleteMutation.mutateAsync({
+        tuid: roomDeleteValue.tuid,
+      });
+      if (response) {
+        toast.success(`Succesfully deleted '${roomDeleteValue.room}'`, {
+          position: NOTIFICATION_POSITION,
+        });
+      } else {
+        toast.error(`Failed to delete '${roomDeleteValue.room}'`, {
+          position: NOTIFICATION_POSITION,
+        });
+      }
+    }
+    rooms.refetch();
+    setRoomDeleteModal(false);
+  };
+
+  return (
+    <>
+      <div className="m-2 flex justify-between ">
+        <div>
+          <Select
+            value={buildingTuid}
+            onChange={(e) => {
+              setBuildingTuid(e.target.value);
+              setRoomPage(1);
+            }}
+          >
+            <Select.Option value="" disabled>
+              Select a building
+            </Select.Option>
+            <>
+              {buildings.map((building) => {
+                return (
+                  <Select.Option key={building.value} value={building.value}>
+                    {building.label}
+                  </Select.Option>
+                );
+              })}
+            </>
+          </Select>
+        </div>
+        <div>
+          <Button
+            disabled={buildingTuid == ""}
+            onClick={() => {
+              toggleRoomModifyModal();
+            }}
+          >
+            <Plus />
+            Add Room
+          </Button>
+        </div>
+      </div>
+      <div className="h-ful m-2 overflow-x-hidden">
+        <Table className="w-full shadow-lg" zebra={true}>
+          <Table.Head>
+            <span />
+            <div className="grow">Room</div>
+            <div className="grow">Seats</div>
+            <div className="grow">Features</div>
+            <div>Edit</div>
+            <div>Delete</div>
+          </Table.Head>
+
+          <Table.Body>
+            {rooms.data?.result.map((room, i) => {
+              return (
+                <Table.Row key={room.tuid}>
+                  <span>{i + 1}</span>
+                  <span>{room.room}</span>
+                  <span>{room.capacity}</span>
+                  <div className="flex gap-1">
+                    {room.has_lab && <Badge color="info">Lab</Badge>}
+                    {room.has_projector && (
+                      <Badge color="info">Projector</Badge>
+                    )}
+                    {room.is_accessible && (
+                      <Badge color="info">Accessible</Badge>
+                    )}
+                  </div>
+                  <div className="hover:cursor-pointer">
+                    <Button
+                      color="warning"
+                      onClick={() => {
+                        toggleRoomModifyModal(room);
+                      }}
+                    >
+                      <Pencil />
+                    </Button>
+                  </div>
+                  <div className="hover:cursor-pointer">
+                    <Button
+                      onClick={() => {
+                        setRoomDeleteValue(room);
+                        setRoomDeleteModal(true);
+                      }}
+                      color="error"
+                    >
+                      <Trash />
+                    </Button>
+                  </div>
+                </Table.Row>
+              );
+            })}
+          </Table.Body>
+        </Table>
+        {rooms.data?.result.length == 0 && (
+          <div className="flex h-[200px] w-full flex-col items-center justify-center">
+            No rooms found!
+          </div>
+        )}
+        {rooms.isFetching && (
+          <div className="flex h-[200px] w-full flex-col items-center justify-center">
+            <AnimatedSpinner />
+          </div>
+        )}
+        <div className="flex w-full justify-center p-2">
+          {rooms.data != undefined && (
+            <PaginationBar
+              totalPageCount={rooms.data.totalPages}
+              currentPage={rooms.data.page}
+              onClick={(page) => {
+                setRoomPage(page);
+              }}
+            />
+          )}
+        </div>
+      </div>
+      {/* This dialog used for adding or editing a room */}
+      <Modal
+        open={roomModifyModal}
+        onClickBackdrop={() => setRoomModifyModal(false)}
+        className="w-[300px]"
+      >
+        <Button
+          size="sm"
+          shape="circle"
+          className="absolute right-2 top-2"
+          onClick={() => setRoomModifyModal(false)}
+        >
+          ✕
+        </Button>
+        <Modal.Header className="font-bold">
+          {roomEditing != undefined ? "Edit" : "Add"} Room
+        </Modal.Header>
+
+        <Modal.Body>
+          <form
+            onSubmit={roomForm.handleSubmit(onRoomModifySubmit)}
+            className="flex flex-col"
+          >
+            <div>
+              <p>Room</p>
+              <Input
+                type="text"
+                className="mt-2"
+                placeholder="Room Number"
+                {...roomForm.register("room")}
+              />
+              <ErrorMessage
+                errors={roomForm.formState.errors}
+                name="room"
+                render={({ message }) => (
+                  <p className="font-semibold text-red-600">{message}</p>
+                )}
+              />
+              <p>Seats</p>
+              <Input
+                type="number"
+                className="mt-2"
+                placeholder="Seats"
+                {...roomForm.register("capacity", { valueAsNumber: true })}
+              />
+              <ErrorMessage
+                errors={roomForm.formState.errors}
+                name="capacity"
+                render={({ message }) => (
+                  <p className="font-semibold text-red-600">{message}</p>
+                )}
+              />
+              <label className="mt-2 flex cursor-pointer items-center gap-2">
+                <Checkbox {...roomForm.register("has_lab")} />
+                <span>Lab</span>
+              </label>
+              <label className="mt-2 flex cursor-pointer items-center gap-2">
+                <Checkbox {...roomForm.register("has_projector")} />
+                <span>Projector</span>
+              </label>
+              <label className="mt-2 flex cursor-pointer items-center gap-2">
+                <Checkbox {...roomForm.register("is_accessible")} />
+                <span>Accessible</span>
+              </label>
+            </div>
+            <div className="flex justify-end">
+              <Button color="success" type="submit" className="mt-2">
+                {roomEditing != undefined ? "Save" : "Add"}
+              </Button>
+            </div>
+          </form>
+        </Modal.Body>
+      </Modal>
+      {/* This dialog for deleting a room */}
+      <ConfirmDeleteModal
+        open={roomDeleteModal}
+        title="Delete Room?"
+        message={
+          roomDeleteValue
+            ? `Are you sure you want to delete '${roomDeleteValue.room}'?`
+            : "Error"
+        }
+        onClose={() => {
+          setRoomDeleteModal(false);
+        }}
+        onConfirm={deleteRoom}
+      />
+    </>
+  );
+};
+
+export default RoomsTab;
@@ -1,7 +1,8 @@
 import type { NextPage } from "next";
 import { useSession } from "next-auth/react";
 import { Tabs } from "react-daisyui";
-import { routeNeedsAuthSession } from "src/server/auth";
+import { Permissions } from "@prisma/client";
+import { routeNeedsPermission } from "src/server/auth";
 import { useState } from "react";
 
 import CampusTab from "./CampusTab";
@@ -11,6 +12,7 @@ import DashboardContentHeader from "src/components/dashboard/DashboardContentHea
 import DashboardLayout from "src/components/dashboard/DashboardLayout";
 import DashboardSidebar from "src/components/dashboard/DashboardSidebar";
 import BuildingsTab from "./BuildingsTab";
+import RoomsTab from "./RoomsTab";
 import AdminDashboardSidebar from "src/components/dashboard/AdminDashboardSidebar";
 import Head from "next/head";
 
@@ -46,11 +48,14 @@ const Buildings: NextPage = () => {
         >
           <Tabs.Tab value={0}>Buildings</Tabs.Tab>
           <Tabs.Tab value={1}>Campus</Tabs.Tab>
+          <Tabs.Tab value={2}>Rooms</Tabs.Tab>
         </Tabs>
         {/* Load the <BuildingTab /> Component */}
         {tabValue == 0 && <BuildingsTab />}
         {/*Load the <CampusTab /> Component */}
         {tabValue == 1 && <CampusTab />}
+        {/*Load the <RoomsTab /> Component */}
+        {tabValue == 2 && <RoomsTab />}
         {/* This is the dialog for creating a campus */}
       </DashboardContent>
     </DashboardLayout>
@@ -66,9 +71,9 @@ export default Buildings;
  * you can check on the backend, this allows for us to check if the user is
  * authenticated for example.
  *
- * So with this code we wrap the "routeNeedsAuthSession" so the user needs to
- * be signed in for this page to be shown, if its not that function will redirect the
- * user back to the "/" home sign-up page.
+ * So with this code we wrap the "routeNeedsPermission" so the user needs to
+ * be signed in and have the right permission for this page to be shown, if its not
+ * that function will redirect the user back to the "/projects" page.
  *
  * Also the perk of server props is that it occurs at page load time.
  * Meaning any data we pass into the "props" return object, will be provided
@@ -77,9 +82,12 @@ export default Buildings;
  *
  */
 
-export const getServerSideProps = routeNeedsAuthSession(async () => {
-  //NOTE: Passing the entire session to the NextPage will error,
-  //which is likely due to undefined values.
-  //Ideally just hook with "useSession" in the page
-  return { props: {} };
-});
+export const getServerSideProps = routeNeedsPermission(
+  [Permissions.ADMIN],
+  async () => {
+    //NOTE: Passing the entire session to the NextPage will error,
+    //which is likely due to undefined values.
+    //Ideally just hook with "useSession" in the page
+    return { props: {} };
+  }
+);
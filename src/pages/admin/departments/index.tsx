@@ -1,7 +1,8 @@
 import type { NextPage } from "next";
 import { useSession } from "next-auth/react";
 import { Tabs } from "react-daisyui";
-import { routeNeedsAuthSession } from "src/server/auth";
+import { Permissions } from "@prisma/client";
+import { routeNeedsPermission } from "src/server/auth";
 import { useState } from "react";
 
 import DepartmentTab from "./DepartmentsTab";
@@ -67,9 +68,9 @@ export default Departments;
  * you can check on the backend, this allows for us to check if the user is
  * authenticated for example.
  *
- * So with this code we wrap the "routeNeedsAuthSession" so the user needs to
- * be signed in for this page to be shown, if its not that function will redirect the
- * user back to the "/" home sign-up page.
+ * So with this code we wrap the "routeNeedsPermission" so the user needs to
+ * be signed in and have the right permission for this page to be shown, if its not
+ * that function will redirect the user back to the "/projects" page.
  *
  * Also the perk of server props is that it occurs at page load time.
  * Meaning any data we pass into the "props" return object, will be provided
@@ -78,9 +79,12 @@ export default Departments;
  *
  */
 
-export const getServerSideProps = routeNeedsAuthSession(async () => {
-  //NOTE: Passing the entire session to the NextPage will error,
-  //which is likely due to undefined values.
-  //Ideally just hook with "useSession" in the page
-  return { props: {} };
-});
+export const getServerSideProps = routeNeedsPermission(
+  [Permissions.ADMIN],
+  async () => {
+    //NOTE: Passing the entire session to the NextPage will error,
+    //which is likely due to undefined values.
+    //Ideally just hook with "useSession" in the page
+    return { props: {} };
+  }
+);
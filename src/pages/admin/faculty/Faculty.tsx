@@ -4,7 +4,7 @@ import { Button, Checkbox, Input, Modal, Select, Table } from "react-daisyui";
 import { toast } from "react-toastify";
 
 //Import icons
-import { Check, Pencil, Plus, Trash, X } from "tabler-icons-react";
+import { Check, Clock, Pencil, Plus, Trash, X } from "tabler-icons-react";
 
 //Import form information
 import { useForm } from "react-hook-form";
@@ -22,6 +22,7 @@ import { type GuidelinesFaculty } from "@prisma/client";
 //Import local components
 import ConfirmDeleteModal from "src/components/ConfirmDeleteModal";
 import PaginationBar from "src/components/Pagination";
+import FacultyPreferencesModal from "./FacultyPreferencesModal";
 
 //Import backend api
 import { api } from "src/utils/api";
@@ -240,6 +241,10 @@ const Faculty = () => {
     openFacultyDeleteModal(false);
   };
 
+  //PREFERENCES MODAL
+  const [facultyPreferencesValue, setFacultyPreferencesValue] =
+    useState<GuidelinesFaculty>();
+
   /**
    * Editing a entry
    *
@@ -312,6 +317,7 @@ const Faculty = () => {
             <div className="grow">Email</div>
             <div>Department</div>
             <div>Is Adjunct?</div>
+            <div>Preferences</div>
             <div>Edit</div>
             <div>Delete</div>
           </Table.Head>
@@ -332,6 +338,16 @@ const Faculty = () => {
                       <X className="text-red-400" size={40} />
                     )}
                   </span>
+                  <div className="hover:cursor-pointer">
+                    <Button
+                      color="info"
+                      onClick={() => {
+                        setFacultyPreferencesValue(faculty);
+                      }}
+                    >
+                      <Clock />
+                    </Button>
+                  </div>
                   <div className="hover:cursor-pointer">
                     <Button
                       color="warning"
@@ -527,6 +543,15 @@ const Faculty = () => {
           </form>
         </Modal.Body>
       </Modal>
+      {/* This dialog for the times, campuses and courses of a faculty */}
+      {facultyPreferencesValue != undefined && (
+        <FacultyPreferencesModal
+          faculty={facultyPreferencesValue}
+          onClose={() => {
+            setFacultyPreferencesValue(undefined);
+          }}
+        />
+      )}
       {/* This dialog for deleting a faculty */}
       <ConfirmDeleteModal
         open={isFacultyDeleteModalOpen}
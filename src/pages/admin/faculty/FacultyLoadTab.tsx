@@ -0,0 +1,128 @@
+import { useEffect } from "react";
+import { Button, Input } from "react-daisyui";
+import { useForm } from "react-hook-form";
+import { ErrorMessage } from "@hookform/error-message";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "react-toastify";
+
+import { api } from "src/utils/api";
+import { facultyLoadSchema, type IFacultyLoad } from "src/validation/faculty";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+
+const NOTIFICATION_POSITION = toast.POSITION.BOTTOM_LEFT;
+
+/**
+ * FacultyLoadTab
+ * Sets how many credits full time and adjunct faculty should teach
+ * in a semester and in an academic year
+ */
+const FacultyLoadTab = () => {
+  const limits = api.faculty.getFacultyLoadLimits.useQuery();
+
+  if (limits.data == undefined) {
+    return (
+      <div className="flex justify-center p-4">
+        <AnimatedSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-row flex-wrap gap-4 p-4">
+      <FacultyLoadForm
+        title="Full Time"
+        load={{ is_adjunct: false, ...limits.data.full_time }}
+      />
+      <FacultyLoadForm
+        title="Adjunct"
+        load={{ is_adjunct: true, ...limits.data.adjunct }}
+      />
+    </div>
+  );
+};
+
+interface FacultyLoadFormProps {
+  title: string;
+  load: IFacultyLoad; //The current limits of the type of faculty
+}
+
+//The limits of a faculty load, and how they are labeled
+const LIMIT_FIELDS = [
+  { name: "semester_min", label: "Minimum credits per semester" },
+  { name: "semester_max", label: "Maximum credits per semester" },
+  { name: "year_min", label: "Minimum credits per academic year" },
+  { name: "year_max", label: "Maximum credits per academic year" },
+] as const;
+
+/**
+ * FacultyLoadForm
+ * The credit limits of one type of faculty, an empty limit is not checked
+ */
+const FacultyLoadForm = ({ title, load }: FacultyLoadFormProps) => {
+  const utils = api.useContext();
+  const updateMutation = api.faculty.updateFacultyLoadLimits.useMutation();
+
+  const { reset, ...loadForm } = useForm<IFacultyLoad>({
+    mode: "onChange",
+    resolver: zodResolver(facultyLoadSchema),
+    defaultValues: load,
+  });
+
+  //Show the limits again once they are saved
+  useEffect(() => {
+    reset(load);
+  }, [load.semester_min, load.semester_max, load.year_min, load.year_max]);
+
+  const onSubmit = async (data: IFacultyLoad) => {
+    const result = await updateMutation.mutateAsync(data);
+    if (result) {
+      toast.success(`Saved the ${title.toLowerCase()} faculty limits`, {
+        position: NOTIFICATION_POSITION,
+      });
+      utils.faculty.getFacultyLoadLimits.invalidate();
+    } else {
+      toast.error(`Failed to save the ${title.toLowerCase()} faculty limits`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+  };
+
+  return (
+    <form
+      className="flex w-80 flex-col gap-2 rounded-lg border-2 bg-white p-4"
+      onSubmit={loadForm.handleSubmit(onSubmit)}
+    >
+      <h3 className="font-bold">{title} Faculty</h3>
+      {LIMIT_FIELDS.map((field) => (
+        <div key={field.name} className="flex flex-col">
+          <label className="text-sm">{field.label}</label>
+          <Input
+            type="number"
+            placeholder="No limit"
+            {...loadForm.register(field.name, {
+              setValueAs: (value) =>
+                value === "" || value == null ? null : Number(value),
+            })}
+          />
+          <ErrorMessage
+            errors={loadForm.formState.errors}
+            name={field.name}
+            render={({ message }) => (
+              <p className="font-semibold text-red-600">{message}</p>
+            )}
+          />
+        </div>
+      ))}
+      <Button
+        type="submit"
+        color="success"
+        loading={updateMutation.isLoading}
+        disabled={!loadForm.formState.isValid}
+      >
+        Save
+      </Button>
+    </form>
+  );
+};
+
+export default FacultyLoadTab;
@@ -0,0 +1,303 @@
+import { useEffect, useState } from "react";
+import { Button, Checkbox, Input, Modal, Select } from "react-daisyui";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
+import { ErrorMessage } from "@hookform/error-message";
+import { zodResolver } from "@hookform/resolvers/zod";
+import AsyncSelect from "react-select/async";
+import { toast } from "react-toastify";
+import { Plus, Trash } from "tabler-icons-react";
+import { FacultyTimeType } from "@prisma/client";
+
+import { api } from "src/utils/api";
+import { LOCATION_DAYS } from "src/utils/calendar";
+import {
+  facultyPreferencesSchema,
+  type IFacultyPreferences,
+} from "src/validation/faculty";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+
+const NOTIFICATION_POSITION = toast.POSITION.BOTTOM_LEFT;
+
+//Short names of each day, in calendar order
+const DAY_NAMES = ["M", "T", "W", "TH", "F", "Sat", "Sun"];
+
+/**
+ * Converts military time (ex: 1430) to the value of a time input (ex: 14:30)
+ */
+const militaryToInput = (time: number) =>
+  `${Math.floor(time / 100)
+    .toString()
+    .padStart(2, "0")}:${(time % 100).toString().padStart(2, "0")}`;
+
+/**
+ * Converts the value of a time input (ex: 14:30) to military time (ex: 1430)
+ */
+const inputToMilitary = (value: string) => {
+  const [hour, minute] = value.split(":");
+  return Number(hour ?? 0) * 100 + Number(minute ?? 0);
+};
+
+interface FacultyPreferencesModalProps {
+  faculty: { tuid: string; name: string }; //The faculty member being edited
+  onClose: () => void;
+}
+
+/**
+ * FacultyPreferencesModal
+ * Edits when a faculty member is unavailable or would rather teach, the campuses
+ * they would rather teach at, and the courses they are qualified to teach
+ */
+const FacultyPreferencesModal = ({
+  faculty,
+  onClose,
+}: FacultyPreferencesModalProps) => {
+  const preferences = api.faculty.getFacultyPreferences.useQuery({
+    tuid: faculty.tuid,
+  });
+  const updateMutation = api.faculty.updateFacultyPreferences.useMutation();
+  const campusMutation = api.buildings.getCampusList.useMutation();
+
+  //The preferred campuses, with their names for the select
+  const [campuses, setCampuses] = useState<
+    Array<{ label: string; value: string }>
+  >([]);
+
+  const { reset, ...preferencesForm } = useForm<IFacultyPreferences>({
+    mode: "onChange",
+    resolver: zodResolver(facultyPreferencesSchema),
+    defaultValues: {
+      tuid: faculty.tuid,
+      times: [],
+      campus_tuids: [],
+      qualifications: [],
+    },
+  });
+  const times = useFieldArray({
+    control: preferencesForm.control,
+    name: "times",
+  });
+  const qualifications = useFieldArray({
+    control: preferencesForm.control,
+    name: "qualifications",
+  });
+
+  //Load the current preferences into the form
+  useEffect(() => {
+    if (preferences.data) {
+      reset({
+        tuid: faculty.tuid,
+        times: preferences.data.times,
+        campus_tuids: preferences.data.campuses.map((campus) => campus.value),
+        qualifications: preferences.data.qualifications,
+      });
+      setCampuses(preferences.data.campuses);
+    }
+  }, [preferences.data]);
+
+  const onSubmit = async (data: IFacultyPreferences) => {
+    const result = await updateMutation.mutateAsync({
+      ...data,
+      campus_tuids: campuses.map((campus) => campus.value),
+    });
+    if (result) {
+      toast.success(`Saved the preferences of '${faculty.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+      onClose();
+    } else {
+      toast.error(`Failed to save the preferences of '${faculty.name}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+  };
+
+  return (
+    <Modal open={true} onClickBackdrop={onClose} className="w-11/12 max-w-3xl">
+      <Button
+        size="sm"
+        shape="circle"
+        className="absolute right-2 top-2"
+        onClick={onClose}
+      >
+        ✕
+      </Button>
+      <Modal.Header className="font-bold">
+        Preferences of {faculty.name}
+      </Modal.Header>
+
+      <Modal.Body>
+        {preferences.isLoading && (
+          <div className="flex justify-center">
+            <AnimatedSpinner />
+          </div>
+        )}
+        {preferences.data != undefined && (
+          <form
+            className="flex flex-col gap-2"
+            onSubmit={preferencesForm.handleSubmit(onSubmit)}
+          >
+            <div className="flex items-center justify-between">
+              <p className="font-semibold">Times</p>
+              <Button
+                type="button"
+                size="sm"
+                onClick={() =>
+                  times.append({
+                    type: FacultyTimeType.UNAVAILABLE,
+                    day_monday: false,
+                    day_tuesday: false,
+                    day_wednesday: false,
+                    day_thursday: false,
+                    day_friday: false,
+                    day_saturday: false,
+                    day_sunday: false,
+                    start_time: 800,
+                    end_time: 1700,
+                  })
+                }
+              >
+                <Plus />
+                Add Time
+              </Button>
+            </div>
+            {times.fields.length == 0 && (
+              <p className="text-sm italic">Available at any time</p>
+            )}
+            {times.fields.map((field, index) => (
+              <div key={field.id} className="flex flex-col">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select {...preferencesForm.register(`times.${index}.type`)}>
+                    <Select.Option value={FacultyTimeType.UNAVAILABLE}>
+                      Unavailable
+                    </Select.Option>
+                    <Select.Option value={FacultyTimeType.PREFERRED}>
+                      Preferred
+                    </Select.Option>
+                  </Select>
+                  {LOCATION_DAYS.map((day, dayIndex) => (
+                    <label key={day} className="flex items-center gap-1">
+                      <Checkbox
+                        size="sm"
+                        {...preferencesForm.register(`times.${index}.${day}`)}
+                      />
+                      {DAY_NAMES[dayIndex]}
+                    </label>
+                  ))}
+                  {(["start_time", "end_time"] as const).map((name) => (
+                    <Controller
+                      key={name}
+                      name={`times.${index}.${name}`}
+                      control={preferencesForm.control}
+                      render={({ field: { value, onChange } }) => (
+                        <Input
+                          type="time"
+                          value={militaryToInput(value)}
+                          onChange={(event) =>
+                            onChange(inputToMilitary(event.target.value))
+                          }
+                        />
+                      )}
+                    />
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    color="error"
+                    onClick={() => times.remove(index)}
+                  >
+                    <Trash />
+                  </Button>
+                </div>
+                {(["day_monday", "end_time"] as const).map((name) => (
+                  <ErrorMessage
+                    key={name}
+                    errors={preferencesForm.formState.errors}
+                    name={`times.${index}.${name}`}
+                    render={({ message }) => (
+                      <p className="font-semibold text-red-600">{message}</p>
+                    )}
+                  />
+                ))}
+              </div>
+            ))}
+
+            <p className="font-semibold">Preferred Campuses</p>
+            <AsyncSelect
+              isMulti
+              defaultOptions
+              placeholder="Any campus"
+              value={campuses}
+              onChange={(value) => setCampuses([...value])}
+              loadOptions={(search) => campusMutation.mutateAsync({ search })}
+            />
+
+            <div className="flex items-center justify-between">
+              <p className="font-semibold">Qualified Courses</p>
+              <Button
+                type="button"
+                size="sm"
+                onClick={() =>
+                  qualifications.append({ subject: "", course_number: "" })
+                }
+              >
+                <Plus />
+                Add Course
+              </Button>
+            </div>
+            {qualifications.fields.length == 0 && (
+              <p className="text-sm italic">Qualified to teach any course</p>
+            )}
+            {qualifications.fields.map((field, index) => (
+              <div key={field.id} className="flex flex-col">
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="Subject (ex: CS)"
+                    {...preferencesForm.register(
+                      `qualifications.${index}.subject`
+                    )}
+                  />
+                  <Input
+                    placeholder="Number (ex: 120)"
+                    {...preferencesForm.register(
+                      `qualifications.${index}.course_number`
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    color="error"
+                    onClick={() => qualifications.remove(index)}
+                  >
+                    <Trash />
+                  </Button>
+                </div>
+                {(["subject", "course_number"] as const).map((name) => (
+                  <ErrorMessage
+                    key={name}
+                    errors={preferencesForm.formState.errors}
+                    name={`qualifications.${index}.${name}`}
+                    render={({ message }) => (
+                      <p className="font-semibold text-red-600">{message}</p>
+                    )}
+                  />
+                ))}
+              </div>
+            ))}
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                color="success"
+                loading={updateMutation.isLoading}
+              >
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default FacultyPreferencesModal;
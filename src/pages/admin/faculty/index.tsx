@@ -1,14 +1,24 @@
 import type { NextPage } from "next";
-import { routeNeedsAuthSession } from "src/server/auth";
+import { Tabs } from "react-daisyui";
+import { Permissions } from "@prisma/client";
+import { useState } from "react";
+import { routeNeedsPermission } from "src/server/auth";
 
 import DashboardContent from "src/components/dashboard/DashboardContent";
 import DashboardContentHeader from "src/components/dashboard/DashboardContentHeader";
 import DashboardLayout from "src/components/dashboard/DashboardLayout";
 import Faculty from "./Faculty";
+import FacultyLoadTab from "./FacultyLoadTab";
 import AdminDashboardSidebar from "src/components/dashboard/AdminDashboardSidebar";
 import Head from "next/head";
 
 const Buildings: NextPage = () => {
+  /**
+   * Tabs
+   * Keep the state of the current tab
+   */
+  const [tabValue, setTabValue] = useState(0);
+
   /**
    * JSX
    *
@@ -24,9 +34,22 @@ const Buildings: NextPage = () => {
       <AdminDashboardSidebar />
       <DashboardContent>
         <DashboardContentHeader title="Faculty" />
-        <div className="container mx-auto px-4">
-          <Faculty />
-        </div>
+        <Tabs
+          variant="lifted"
+          value={tabValue}
+          onChange={setTabValue}
+          className="mt-2"
+        >
+          <Tabs.Tab value={0}>Faculty</Tabs.Tab>
+          <Tabs.Tab value={1}>Load Limits</Tabs.Tab>
+        </Tabs>
+        {tabValue == 0 && (
+          <div className="container mx-auto px-4">
+            <Faculty />
+          </div>
+        )}
+        {/* Load the <FacultyLoadTab /> Component */}
+        {tabValue == 1 && <FacultyLoadTab />}
       </DashboardContent>
     </DashboardLayout>
   );
@@ -41,9 +64,9 @@ export default Buildings;
  * you can check on the backend, this allows for us to check if the user is
  * authenticated for example.
  *
- * So with this code we wrap the "routeNeedsAuthSession" so the user needs to
- * be signed in for this page to be shown, if its not that function will redirect the
- * user back to the "/" home sign-up page.
+ * So with this code we wrap the "routeNeedsPermission" so the user needs to
+ * be signed in and have the right permission for this page to be shown, if its not
+ * that function will redirect the user back to the "/projects" page.
  *
  * Also the perk of server props is that it occurs at page load time.
  * Meaning any data we pass into the "props" return object, will be provided
@@ -52,9 +75,12 @@ export default Buildings;
  *
  */
 
-export const getServerSideProps = routeNeedsAuthSession(async () => {
-  //NOTE: Passing the entire session to the NextPage will error,
-  //which is likely due to undefined values.
-  //Ideally just hook with "useSession" in the page
-  return { props: {} };
-});
+export const getServerSideProps = routeNeedsPermission(
+  [Permissions.ADMIN, Permissions.DEPARTMENT_CHAIR],
+  async () => {
+    //NOTE: Passing the entire session to the NextPage will error,
+    //which is likely due to undefined values.
+    //Ideally just hook with "useSession" in the page
+    return { props: {} };
+  }
+);
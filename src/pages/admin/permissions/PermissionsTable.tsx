@@ -0,0 +1,180 @@
+//Import component libraries and react
+import { useCallback, useEffect, useState } from "react";
+import { Checkbox, Input, Table } from "react-daisyui";
+import { toast } from "react-toastify";
+import { debounce } from "lodash";
+
+//Import types
+import { Permissions } from "@prisma/client";
+import { type UserWithPermissions } from "src/server/api/routers/permissions";
+
+//Import local components
+import PaginationBar from "src/components/Pagination";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+
+//Import backend api
+import { api } from "src/utils/api";
+
+//Constant for the position of the toast notifications
+const NOTIFICATION_POSITION = toast.POSITION.BOTTOM_LEFT;
+
+/**
+ * PermissionsTable
+ * A table of every user, where an admin can grant and revoke
+ * the admin and department chair permissions
+ */
+const PermissionsTable = () => {
+  /**
+   * Search Value
+   * The value which will be searching that is set by the debouncing below
+   */
+  const [searchValue, setSearchValue] = useState<string>("");
+
+  /**
+   * Pagination
+   * Set the current page of the the data shown
+   */
+  const [currentPage, setCurrentPage] = useState(1);
+
+  //Query all of the users based on the search value
+  const users = api.permissions.getAllUsers.useQuery({
+    page: currentPage,
+    search: searchValue,
+  });
+
+  useEffect(() => {
+    //Check if we have any user data
+    if (users.data) {
+      //Check if we are past the current total pages and we are not fetching
+      if (currentPage > users.data!.totalPages && !users.isFetching) {
+        const page = users.data!.totalPages > 0 ? users.data!.totalPages : 1;
+        setCurrentPage(page); //Go to the max page
+      }
+    }
+  }, [users.data]);
+
+  //Create a callback to hold a single instance of a debounce
+  const waitForSearch = useCallback(
+    debounce((value: string) => {
+      //Now we actually update the search so we don't keep fetching the server
+      setSearchValue(value);
+      //Also reset the page the user is on
+      setCurrentPage(1);
+    }, 500),
+    []
+  );
+
+  //Grab the mutations from the backend for granting and revoking
+  const grantMutation = api.permissions.grantPermission.useMutation();
+  const revokeMutation = api.permissions.revokePermission.useMutation();
+
+  /**
+   * hasPermission
+   * Check if the user has said permission
+   */
+  const hasPermission = (user: UserWithPermissions, permission: Permissions) =>
+    user.permissions.some((value) => value.id == permission);
+
+  /**
+   * togglePermission
+   * Grant or revoke a permission for a user, depending if they already have it
+   */
+  const togglePermission = async (
+    user: UserWithPermissions,
+    permission: Permissions
+  ) => {
+    const revoke = hasPermission(user, permission);
+    const mutation = revoke ? revokeMutation : grantMutation;
+    const result = await mutation.mutateAsync({
+      user_tuid: user.id,
+      permission,
+    });
+
+    if (result) {
+      toast.success(
+        `${revoke ? "Revoked" : "Granted"} ${permission} for '${
+          user.username
+        }'`,
+        { position: NOTIFICATION_POSITION }
+      );
+    } else {
+      toast.error(`Failed to update permissions for '${user.username}'`, {
+        position: NOTIFICATION_POSITION,
+      });
+    }
+    //Update the list after the change
+    users.refetch();
+  };
+
+  return (
+    <>
+      <div className="m-2 flex justify-between ">
+        <Input
+          onChange={(e) => waitForSearch(e.currentTarget.value)}
+          placeholder="Search"
+          className="h-[39px] w-[200px]"
+        />
+      </div>
+      <div className="h-ful m-2 overflow-x-hidden">
+        <Table className="w-full shadow-lg" zebra={true}>
+          <Table.Head>
+            <span />
+            <div className="grow">Username</div>
+            <div className="grow">Email</div>
+            <div>Department</div>
+            <div>Admin</div>
+            <div>Department Chair</div>
+          </Table.Head>
+
+          <Table.Body>
+            {users.data?.result.map((user, i) => {
+              return (
+                <Table.Row key={i}>
+                  <span>{i + 1}</span>
+                  <span>{user.username}</span>
+                  <span>{user.email}</span>
+                  <span>{user.department}</span>
+                  <Checkbox
+                    color="primary"
+                    checked={hasPermission(user, Permissions.ADMIN)}
+                    onChange={() => togglePermission(user, Permissions.ADMIN)}
+                  />
+                  <Checkbox
+                    color="primary"
+                    checked={hasPermission(user, Permissions.DEPARTMENT_CHAIR)}
+                    onChange={() =>
+                      togglePermission(user, Permissions.DEPARTMENT_CHAIR)
+                    }
+                  />
+                </Table.Row>
+              );
+            })}
+          </Table.Body>
+        </Table>
+        {users.data?.result.length == 0 && (
+          <div className="flex h-[200px] w-full flex-col items-center justify-center">
+            No users found!
+          </div>
+        )}
+        {users.isFetching && (
+          <div className="flex h-[200px] w-full flex-col items-center justify-center">
+            <AnimatedSpinner />
+          </div>
+        )}
+      </div>
+      <div className="flex w-full justify-center p-2">
+        {users.data != undefined && (
+          <PaginationBar
+            totalPageCount={users.data?.totalPages}
+            currentPage={users.data?.page}
+            onClick={(page) => {
+              setCurrentPage(page);
+            }}
+          />
+        )}
+      </div>
+    </>
+  );
+};
+
+export default PermissionsTable;
@@ -11,6 +11,7 @@ import { compare } from "bcryptjs";
 import { env } from "src/env/server.mjs";
 import { prisma } from "src/server/db";
 import { signInSchema } from "src/validation/auth";
+import { grantFirstAdmin } from "src/server/admin";
 
 /**
  * NextAuth Options
@@ -103,6 +104,9 @@ export const authOptions: NextAuthOptions = {
           return null;
         }
 
+        //The configured account becomes the first admin, for accounts made before it was set
+        await grantFirstAdmin(user.id, user.email);
+
         //But if everything does pass, return some information!
         return {
           id: user.id,
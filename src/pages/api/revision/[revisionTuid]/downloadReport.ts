@@ -2,6 +2,7 @@ import { NextConfig, type NextApiRequest, type NextApiResponse } from "next";
 import { unstable_getServerSession } from "next-auth/next";
 import { authOptions } from "../../auth/[...nextauth]";
 import { prisma } from "src/server/db";
+import { revisionAccessWhere } from "src/server/access";
 import xlsx from "node-xlsx";
 import multiparty from "multiparty";
 import fs from "fs";
@@ -30,9 +31,10 @@ const UploadExcelFile = async (req: NextApiRequest, res: NextApiResponse) => {
     const revisionTuid = req.query.revisionTuid as string;
 
     //Query the revision
-    const revision = await prisma.scheduleRevision.findUnique({
+    const revision = await prisma.scheduleRevision.findFirst({
       where: {
         tuid: revisionTuid,
+        ...revisionAccessWhere(id),
       },
       select: {
         name: true,
@@ -0,0 +1,69 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { unstable_getServerSession } from "next-auth/next";
+import { authOptions } from "../../auth/[...nextauth]";
+import { hasRevisionAccess, VIEW_ROLES } from "src/server/access";
+import {
+  complianceToCsv,
+  complianceToXlsx,
+  getGuidelineCompliance,
+} from "src/server/compliance";
+import { guidelineComplianceSchema } from "src/validation/report";
+
+/**
+ * DownloadGuidelineCompliance
+ *
+ * Downloads the guideline compliance report of a revision as an excel or CSV file
+ *
+ * <HOST>/api/revision/<id>/guidelineCompliance?semester=FA&format=xlsx
+ * @param req
+ * @param res
+ */
+const DownloadGuidelineCompliance = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+) => {
+  const session = await unstable_getServerSession(req, res, authOptions);
+  const revisionTuid = req.query.revisionTuid as string;
+  if (
+    !session?.user ||
+    !(await hasRevisionAccess(session.user.id, revisionTuid, VIEW_ROLES))
+  ) {
+    return res.status(401).end();
+  }
+
+  //Use the same filters as the report page
+  const parsed = guidelineComplianceSchema.safeParse({
+    tuid: revisionTuid,
+    semester_fall: req.query.semester == "FA",
+    semester_winter: req.query.semester == "WI",
+    semester_spring: req.query.semester == "SP",
+    semester_summer: req.query.semester == "SU",
+    faculty_tuid: req.query.faculty || undefined,
+    building_tuid: req.query.building || undefined,
+  });
+  if (!parsed.success) {
+    return res.status(400).json({ error: "error", message: "Invalid filters" });
+  }
+
+  const report = await getGuidelineCompliance(parsed.data);
+  const filename = `Guideline Compliance ${req.query.semester ?? ""}`.trim();
+  if (req.query.format == "csv") {
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${filename}.csv"`
+    );
+    res.setHeader("Content-Type", "text/csv");
+    return res.send(complianceToCsv(report));
+  }
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${filename}.xlsx"`
+  );
+  res.setHeader(
+    "Content-Type",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  );
+  return res.send(complianceToXlsx(report));
+};
+
+export default DownloadGuidelineCompliance;
@@ -9,6 +9,14 @@ import { number } from "zod";
 
 //make interface for data
 type ExcelDataColumns = Array<Array<string | undefined>>;
+
+//The content types of an excel workbook or a csv export which can be uploaded
+const UPLOAD_CONTENT_TYPES = [
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "text/csv",
+  "application/csv",
+];
 /**
  * UploadExcelFile
  *
@@ -25,10 +33,10 @@ const UploadExcelFile = async (req: NextApiRequest, res: NextApiResponse) => {
 
     const [fields, files] = await promisifyUpload(req);
 
+    //Some browsers do not give a csv its content type, so the extension is also checked
     if (
-      files.file[0].headers["content-type"] ==
-        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-      files.file[0].headers["content-type"] == "application/vnd.ms-excel"
+      UPLOAD_CONTENT_TYPES.includes(files.file[0].headers["content-type"]) ||
+      `${files.file[0].originalFilename}`.toLowerCase().endsWith(".csv")
     ) {
       const result = xlsx.parse(fs.readFileSync(files.file[0].path));
       if (result.length >= 1) {
@@ -64,6 +72,11 @@ const UploadExcelFile = async (req: NextApiRequest, res: NextApiResponse) => {
           res.json({
             tuid: revision.tuid,
             table: result[0]?.data,
+            //Every sheet of the workbook, so another sheet can be picked or several merged
+            sheets: result.map((sheet) => ({
+              name: sheet.name,
+              table: sheet.data,
+            })),
           });
         }
       }
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Badge, Button, Select } from "react-daisyui";
+import AsyncSelect from "react-select/async";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+import { api } from "src/utils/api";
+
+interface GuidelineComplianceProps {
+  tuid: string; //The revision to check the course guidelines for
+}
+
+//Each semester the report can be made for, an empty value is every semester
+const SEMESTERS = [
+  { value: "", label: "All Semesters" },
+  { value: "FA", label: "Fall" },
+  { value: "WI", label: "Winter" },
+  { value: "SP", label: "Spring" },
+  { value: "SU", label: "Summer" },
+];
+
+/**
+ * Gets the color of a percentage of compliant sections
+ */
+const percentageColor = (percentage: number) =>
+  percentage >= 90 ? "success" : percentage >= 70 ? "warning" : "error";
+
+/**
+ * GuidelineCompliance
+ * Shows how many sections of each subject follow the course guidelines for a
+ * semester, and why each section outside of them does not
+ */
+const GuidelineCompliance = ({ tuid }: GuidelineComplianceProps) => {
+  //The filters of the report
+  const [semester, setSemester] = useState<string>("");
+  const [faculty, setFaculty] = useState<{
+    label: string;
+    value: string;
+  } | null>(null);
+  const [building, setBuilding] = useState<{
+    label: string;
+    value: string;
+  } | null>(null);
+
+  const report = api.report.getGuidelineCompliance.useQuery({
+    tuid,
+    semester_fall: semester == "FA",
+    semester_winter: semester == "WI",
+    semester_spring: semester == "SP",
+    semester_summer: semester == "SU",
+    faculty_tuid: faculty?.value,
+    building_tuid: building?.value,
+  });
+
+  //Used to search for the faculty and buildings to filter by
+  const facultyMutation = api.faculty.getRevisionCourseFaculty.useMutation();
+  const buildingsMutation = api.buildings.getBuildingsList.useMutation();
+
+  /**
+   * download
+   * Opens the export of the report with the current filters
+   */
+  const download = (format: "xlsx" | "csv") => {
+    const params = new URLSearchParams({
+      semester,
+      format,
+      faculty: faculty?.value ?? "",
+      building: building?.value ?? "",
+    });
+    window.open(`/api/revision/${tuid}/guidelineCompliance?${params}`);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex flex-row flex-wrap items-center gap-2">
+        <Select
+          value={semester}
+          onChange={(event) => setSemester(event.target.value)}
+        >
+          {SEMESTERS.map((item) => (
+            <Select.Option key={item.value} value={item.value}>
+              {item.label}
+            </Select.Option>
+          ))}
+        </Select>
+        <div className="w-64">
+          <AsyncSelect
+            isClearable
+            cacheOptions
+            defaultOptions
+            placeholder="Any faculty"
+            value={faculty}
+            onChange={(value) => setFaculty(value)}
+            loadOptions={(search) =>
+              facultyMutation.mutateAsync({ search, department: null })
+            }
+          />
+        </div>
+        <div className="w-64">
+          <AsyncSelect
+            isClearable
+            cacheOptions
+            defaultOptions
+            placeholder="Any building"
+            value={building}
+            onChange={(value) => setBuilding(value)}
+            loadOptions={(search) => buildingsMutation.mutateAsync({ search })}
+          />
+        </div>
+        <div className="ml-auto flex gap-2">
+          <Button onClick={() => download("xlsx")}>Export XLSX</Button>
+          <Button onClick={() => download("csv")}>Export CSV</Button>
+        </div>
+      </div>
+
+      {report.isLoading && (
+        <div className="flex justify-center">
+          <AnimatedSpinner />
+        </div>
+      )}
+
+      {report.data != undefined && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-xl font-bold">Overall</span>
+            <Badge size="lg" color={percentageColor(report.data.percentage)}>
+              {report.data.percentage}%
+            </Badge>
+            <span>
+              {report.data.compliant} of {report.data.total} sections within the
+              course guidelines
+            </span>
+          </div>
+
+          {report.data.subjects.length == 0 && (
+            <div className="flex justify-center italic">
+              No sections meet in person for these filters
+            </div>
+          )}
+
+          {report.data.subjects.map((group) => (
+            <div
+              key={`${group.department}*${group.subject}`}
+              className="rounded-lg border-2 bg-white"
+            >
+              <div className="flex items-center gap-2 border-b-2 p-2">
+                <Badge color={percentageColor(group.percentage)}>
+                  {group.percentage}%
+                </Badge>
+                <span className="font-bold">
+                  {group.department} {group.subject}
+                </span>
+                <span className="ml-auto text-sm">
+                  {group.compliant} of {group.total} sections
+                </span>
+              </div>
+              {group.courses.map((course) => (
+                <div
+                  key={course.tuid}
+                  className="flex flex-col border-t-[1px] p-2 text-sm"
+                >
+                  <span>
+                    <span className="font-semibold">{course.name}</span>{" "}
+                    {course.title}
+                  </span>
+                  <span>{course.faculty.join(", ") || "No Faculty"}</span>
+                  {course.locations.map((location, index) => (
+                    <span key={index}>{location}</span>
+                  ))}
+                  <ul className="list-inside list-disc text-error">
+                    {course.guideline.rules
+                      .filter((rule) => !rule.passed)
+                      .map((rule) => (
+                        <li key={rule.rule}>{rule.message}</li>
+                      ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GuidelineCompliance;
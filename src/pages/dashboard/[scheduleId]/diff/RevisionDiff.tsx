@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Badge, Select } from "react-daisyui";
+import classNames from "classnames";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+import { api, type RouterOutputs } from "src/utils/api";
+
+type ICourseDiff = RouterOutputs["projects"]["diffRevisions"][number];
+type ICourseSummary = NonNullable<ICourseDiff["before"]>;
+
+interface RevisionDiffProps {
+  tuid: string; //The current revision, which is compared against an older one
+}
+
+/**
+ * Colors for each status of a course in the diff
+ */
+const STATUS_COLORS = {
+  ADDED: "success",
+  REMOVED: "error",
+  CHANGED: "warning",
+} as const;
+
+/**
+ * RevisionDiff
+ * Shows what changed between another revision of the schedule and
+ * the current revision, side by side
+ */
+const RevisionDiff = ({ tuid }: RevisionDiffProps) => {
+  //The revision we are comparing against
+  const [compareTuid, setCompareTuid] = useState<string>("");
+
+  const revisions = api.dashboard.getScheduleRevisions.useQuery({
+    revision_tuid: tuid,
+  });
+
+  //Default to the most recent other revision
+  useEffect(() => {
+    const first = revisions.data?.[0];
+    if (compareTuid == "" && first != undefined) {
+      setCompareTuid(first.tuid);
+    }
+  }, [revisions.data, compareTuid]);
+
+  const diff = api.projects.diffRevisions.useQuery(
+    { a: compareTuid, b: tuid },
+    { enabled: compareTuid != "" }
+  );
+
+  if (revisions.data != undefined && revisions.data.length == 0) {
+    return (
+      <div className="flex h-full w-full flex-col items-center justify-center">
+        <strong className="text-2xl italic">NO OTHER REVISIONS</strong>
+        <span>Upload another revision to this project to compare them</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex flex-row items-center gap-2">
+        <span className="font-bold">Compare against</span>
+        <Select
+          value={compareTuid}
+          onChange={(event) => setCompareTuid(event.target.value)}
+        >
+          <Select.Option value="" disabled>
+            Select a revision
+          </Select.Option>
+          <>
+            {revisions.data?.map((revision) => {
+              return (
+                <Select.Option key={revision.tuid} value={revision.tuid}>
+                  {revision.name}
+                </Select.Option>
+              );
+            })}
+          </>
+        </Select>
+        {diff.data != undefined && (
+          <div className="ml-auto flex gap-2">
+            {(["ADDED", "REMOVED", "CHANGED"] as const).map((status) => {
+              return (
+                <Badge key={status} color={STATUS_COLORS[status]}>
+                  {diff.data.filter((item) => item.status == status).length}{" "}
+                  {status.toLowerCase()}
+                </Badge>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {diff.isLoading && compareTuid != "" && (
+        <div className="flex justify-center">
+          <AnimatedSpinner />
+        </div>
+      )}
+
+      {diff.data != undefined && diff.data.length == 0 && (
+        <div className="flex justify-center italic">
+          No changes between these revisions
+        </div>
+      )}
+
+      {diff.data?.map((item, index) => {
+        //Fields that changed so they can be highlighted
+        const changed = item.changes.map((change) => change.field);
+        return (
+          <div key={index} className="rounded-lg border-2 bg-white">
+            <div className="flex items-center gap-2 border-b-2 p-2">
+              <Badge color={STATUS_COLORS[item.status]}>
+                {item.status.toLowerCase()}
+              </Badge>
+              <span className="font-bold">{item.name}</span>
+            </div>
+            <div className="grid grid-cols-2 divide-x-2">
+              <CourseSummary course={item.before} changed={changed} />
+              <CourseSummary course={item.after} changed={changed} />
+            </div>
+            {item.changes.length > 0 && (
+              <table className="w-full text-sm">
+                <tbody>
+                  {item.changes.map((change) => {
+                    return (
+                      <tr key={change.field} className="border-t-[1px]">
+                        <td className="w-1/6 p-1 pl-2 font-semibold">
+                          {change.field}
+                        </td>
+                        <td className="w-5/12 bg-red-50 p-1 line-through">
+                          {change.before}
+                        </td>
+                        <td className="w-5/12 bg-green-50 p-1">
+                          {change.after}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+interface CourseSummaryProps {
+  course?: ICourseSummary;
+  changed: string[];
+}
+
+/**
+ * CourseSummary
+ * One side of a course in the diff, which is empty if the course does
+ * not exist on that revision
+ */
+const CourseSummary = ({ course, changed }: CourseSummaryProps) => {
+  if (course == undefined) {
+    return <div className="bg-base-200 p-2 italic text-slate-400">None</div>;
+  }
+  return (
+    <div className="flex flex-col p-2 text-sm">
+      <span
+        className={classNames({
+          "font-semibold": true,
+          "text-warning": changed.includes("Title"),
+        })}
+      >
+        {course.title}
+      </span>
+      <span
+        className={classNames({ "text-warning": changed.includes("Faculty") })}
+      >
+        {course.faculty.join(", ") || "No Faculty"}
+      </span>
+      {course.locations.map((location, index) => {
+        return (
+          <span
+            key={index}
+            className={classNames({
+              "text-warning": changed.includes("Locations"),
+            })}
+          >
+            {location}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RevisionDiff;
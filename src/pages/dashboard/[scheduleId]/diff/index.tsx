@@ -0,0 +1,93 @@
+import type { NextPage } from "next";
+
+import { prisma } from "src/server/db";
+import { hasRevisionAccess, revisionAccessWhere } from "src/server/access";
+
+import DashboardLayout from "src/components/dashboard/DashboardLayout";
+import DashboardSidebar, {
+  DashboardPages,
+} from "src/components/dashboard/DashboardSidebar";
+import DashboardContent from "src/components/dashboard/DashboardContent";
+import DashboardContentHeader from "src/components/dashboard/DashboardContentHeader";
+
+import { routeNeedsAuthSession } from "src/server/auth";
+import Head from "next/head";
+import useSidebar from "src/hooks/useSidebar";
+import RevisionDiff from "./RevisionDiff";
+
+interface DiffProps {
+  scheduleId: string;
+  name: string;
+}
+
+const Diff: NextPage<DiffProps> = ({ scheduleId, name }) => {
+  //Make a state to toggle the sidebar
+  const [showSidebar, toggleSidebar] = useSidebar();
+
+  return (
+    <DashboardLayout>
+      <Head>
+        <title>{name.substring(0, 30)} | SVSU Course Scheduler | Changes</title>
+      </Head>
+      {showSidebar && <DashboardSidebar page={DashboardPages.CHANGES} />}
+      <DashboardContent>
+        <DashboardContentHeader
+          onMenuClick={toggleSidebar}
+          title={`Changes | ${name}`}
+        ></DashboardContentHeader>
+        <RevisionDiff tuid={scheduleId} />
+      </DashboardContent>
+    </DashboardLayout>
+  );
+};
+
+export default Diff;
+
+/**
+ * Get Server Side Properties
+ *
+ * Makes sure the user has access to the revision before showing the changes
+ */
+export const getServerSideProps = routeNeedsAuthSession(
+  async ({ query }, session) => {
+    //Grab schedule id from query parameter
+    const scheduleId = query.scheduleId || "";
+
+    //Check to make sure its a string
+    if (typeof scheduleId === "string") {
+      //Make sure we have access to said revision, either by owning it or it being shared with us
+      const hasRevision = await hasRevisionAccess(
+        session?.user?.id ?? "",
+        scheduleId
+      );
+
+      //And if we DO NOT, redirect them back to the main page
+      if (!hasRevision) {
+        return {
+          redirect: {
+            destination: "/projects", //Path to the Login Screen
+            permanent: false,
+          },
+        };
+      }
+    }
+
+    //Now get the revision and get the name so we can use it in the title
+    const revision = await prisma.scheduleRevision.findFirst({
+      where: {
+        tuid: query.scheduleId as string,
+        ...revisionAccessWhere(session?.user?.id ?? ""),
+      },
+      select: {
+        name: true,
+      },
+    });
+
+    return {
+      props: {
+        scheduleId,
+        name: revision!.name,
+      },
+    };
+  }
+);
@@ -2,6 +2,7 @@ import type { NextPage } from "next";
 import { useSession } from "next-auth/react";
 
 import { prisma } from "src/server/db";
+import { hasRevisionAccess, revisionAccessWhere } from "src/server/access";
 
 import DashboardLayout from "src/components/dashboard/DashboardLayout";
 import DashboardSidebar, {
@@ -10,6 +11,7 @@ import DashboardSidebar, {
 import DashboardContent from "src/components/dashboard/DashboardContent";
 import DashboardContentHeader from "src/components/dashboard/DashboardContentHeader";
 import DashboardHomeTabs from "src/components/dashboard/home/DashboardHomeTabs";
+import DashboardActivity from "src/components/dashboard/home/DashboardActivity";
 
 import { routeNeedsAuthSession } from "src/server/auth";
 import Head from "next/head";
@@ -37,6 +39,7 @@ const Dashboard: NextPage<HomeProps> = ({ scheduleId, name }) => {
           title={`Home | ${name}`}
         ></DashboardContentHeader>
         <DashboardHomeTabs tuid={scheduleId} />
+        <DashboardActivity tuid={scheduleId} />
       </DashboardContent>
     </DashboardLayout>
   );
@@ -69,14 +72,11 @@ export const getServerSideProps = routeNeedsAuthSession(
 
     //Check to make sure its a string
     if (typeof scheduleId === "string") {
-      //Make sure we have owenrship of said revision
-      const hasRevision =
-        (await prisma.scheduleRevision.count({
-          where: {
-            tuid: query.scheduleId as string,
-            creator_tuid: session?.user?.id,
-          },
-        })) == 1;
+      //Make sure we have access to said revision, either by owning it or it being shared with us
+      const hasRevision = await hasRevisionAccess(
+        session?.user?.id ?? "",
+        scheduleId
+      );
 
       //And if we DO NOT, redirect them back to the main page
       if (!hasRevision) {
@@ -93,7 +93,7 @@ export const getServerSideProps = routeNeedsAuthSession(
     const revision = await prisma.scheduleRevision.findFirst({
       where: {
         tuid: query.scheduleId as string,
-        creator_tuid: session?.user?.id,
+        ...revisionAccessWhere(session?.user?.id ?? ""),
       },
       select: {
         name: true,
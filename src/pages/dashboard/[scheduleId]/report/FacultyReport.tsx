@@ -1,8 +1,9 @@
 import { useSession } from "next-auth/react";
 import React, { useEffect, useState } from "react";
-import { Button, ButtonGroup } from "react-daisyui";
+import { Badge, Button, ButtonGroup } from "react-daisyui";
 import { toast } from "react-toastify";
 import { api } from "src/utils/api";
+import { type IFacultyLoadFlag } from "src/server/workload";
 import militaryToTime from "src/utils/time";
 import { CaretDown, CaretUp, Mail } from "tabler-icons-react";
 
@@ -50,6 +51,7 @@ interface FacultyReportProps {
     name: string;
     email: string;
     totalCredits: number;
+    load: IFacultyLoadFlag[]; //Where the credits are over or under the limits
   };
 }
 /**
@@ -244,6 +246,17 @@ const FacultyReport = ({
           className="flex cursor-pointer"
           onClick={(isCaretDown) => setCaret((isCaretDown) => !isCaretDown)}
         >
+          {faculty?.load.map((flag) => (
+            <Badge
+              key={flag.period + flag.type}
+              color={flag.type == "OVERLOAD" ? "error" : "warning"}
+              className="mr-2"
+              title={flag.message}
+            >
+              {flag.type == "OVERLOAD" ? "Overload" : "Underload"} (
+              {flag.period == "SEMESTER" ? "semester" : "year"})
+            </Badge>
+          ))}
           <span className="mr-3 ">
             with <strong>{faculty?.totalCredits}</strong> credits teaching in
           </span>
@@ -12,6 +12,7 @@ import DashboardContentHeader from "src/components/dashboard/DashboardContentHea
 
 import { routeNeedsAuthSession } from "src/server/auth";
 import { prisma } from "src/server/db";
+import { hasRevisionAccess, revisionAccessWhere } from "src/server/access";
 import { api } from "src/utils/api";
 import FacultyReport from "./FacultyReport";
 import { Button, Card, Checkbox, Dropdown } from "react-daisyui";
@@ -297,14 +298,11 @@ export const getServerSideProps = routeNeedsAuthSession(
 
     //Check to make sure its a string
     if (typeof scheduleId === "string") {
-      //Make sure we have owenrship of said revision
-      const hasRevision =
-        (await prisma.scheduleRevision.count({
-          where: {
-            tuid: query.scheduleId as string,
-            creator_tuid: session?.user?.id,
-          },
-        })) == 1;
+      //Make sure we have access to said revision, either by owning it or it being shared with us
+      const hasRevision = await hasRevisionAccess(
+        session?.user?.id ?? "",
+        scheduleId
+      );
 
       //And if we DO NOT, redirect them back to the main page
       if (!hasRevision) {
@@ -321,7 +319,7 @@ export const getServerSideProps = routeNeedsAuthSession(
     const revision = await prisma.scheduleRevision.findFirst({
       where: {
         tuid: query.scheduleId as string,
-        creator_tuid: session?.user?.id,
+        ...revisionAccessWhere(session?.user?.id ?? ""),
       },
       select: {
         name: true,
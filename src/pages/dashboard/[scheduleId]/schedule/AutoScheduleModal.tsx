@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { Badge, Button, Checkbox, Modal } from "react-daisyui";
+import Select from "react-select";
+import { toast } from "react-toastify";
+import { TRPCClientError } from "@trpc/client";
+
+import { api, type RouterOutputs } from "src/utils/api";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+
+type IAutoScheduleProposal = RouterOutputs["calendar"]["proposeAutoSchedule"];
+
+interface AutoScheduleModalProps {
+  revisionTuid: string; //The revision the courses are placed on
+  onClose: () => void;
+}
+
+/**
+ * AutoScheduleModal
+ * Places the chosen courses (by default the ones without any days or times) at
+ * guideline days and times in rooms with enough seats. The placements are shown
+ * as a diff, and are only saved once they are accepted.
+ */
+const AutoScheduleModal = ({
+  revisionTuid,
+  onClose,
+}: AutoScheduleModalProps) => {
+  const utils = api.useContext();
+
+  /**
+   * Courses
+   * The courses which have not been scheduled, and which of them will be placed
+   */
+  const unscheduled = api.calendar.getUnscheduledCourses.useQuery({
+    tuid: revisionTuid,
+  });
+  const [selected, setSelected] = useState<string[]>([]);
+
+  //Place every unscheduled course by default
+  useEffect(() => {
+    if (unscheduled.data != undefined) {
+      setSelected(unscheduled.data.map((course) => course.tuid));
+    }
+  }, [unscheduled.data]);
+
+  /**
+   * Buildings
+   * The buildings to place the courses in first, in the order they are picked
+   */
+  const buildingsMutation = api.buildings.getBuildingsList.useMutation();
+  const [buildings, setBuildings] = useState<
+    Array<{ label: string; value: string }>
+  >([]);
+  const [preferred, setPreferred] = useState<
+    Array<{ label: string; value: string }>
+  >([]);
+
+  useEffect(() => {
+    const getBuildings = async () => {
+      setBuildings(await buildingsMutation.mutateAsync({ search: "" }));
+    };
+    getBuildings();
+  }, []);
+
+  /**
+   * Proposal
+   * The placements found for the courses, and which of them are accepted
+   */
+  const proposeMutation = api.calendar.proposeAutoSchedule.useMutation();
+  const applyMutation = api.calendar.applyAutoSchedule.useMutation();
+  const [proposal, setProposal] = useState<IAutoScheduleProposal | null>(null);
+  const [accepted, setAccepted] = useState<string[]>([]);
+
+  /**
+   * propose
+   * Finds the days, times and rooms for the selected courses
+   */
+  const propose = async () => {
+    try {
+      const result = await proposeMutation.mutateAsync({
+        tuid: revisionTuid,
+        course_tuids: selected,
+        building_tuids: preferred.map((building) => building.value),
+      });
+      setProposal(result);
+      setAccepted(result.placements.map((placement) => placement.course_tuid));
+    } catch (error) {
+      if (error instanceof TRPCClientError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
+  /**
+   * accept
+   * Saves the accepted placements to the revision
+   */
+  const accept = async () => {
+    if (proposal == null) {
+      return;
+    }
+    const result = await applyMutation.mutateAsync({
+      tuid: revisionTuid,
+      placements: proposal.placements.filter((placement) =>
+        accepted.includes(placement.course_tuid)
+      ),
+    });
+    if (result.applied > 0) {
+      toast.success(`Scheduled ${result.applied} course(s)`);
+    }
+    for (const error of result.errors) {
+      toast.error(error);
+    }
+    //Show the saved courses on the calendar, and allow for them to be undone
+    utils.calendar.invalidate();
+    utils.audit.invalidate();
+    onClose();
+  };
+
+  /**
+   * toggle
+   * Adds or removes a tuid from a list of tuids
+   */
+  const toggle = (list: string[], tuid: string) =>
+    list.includes(tuid)
+      ? list.filter((value) => value != tuid)
+      : [...list, tuid];
+
+  return (
+    <Modal open={true} onClickBackdrop={onClose} className="w-11/12 max-w-3xl">
+      <Button
+        size="sm"
+        shape="circle"
+        className="absolute right-2 top-2"
+        onClick={onClose}
+      >
+        ✕
+      </Button>
+      <Modal.Header className="font-bold">Auto Schedule</Modal.Header>
+
+      <Modal.Body>
+        {proposal == null && (
+          <div className="flex flex-col gap-2">
+            <p className="font-semibold">Courses</p>
+            {unscheduled.isLoading && (
+              <div className="flex justify-center">
+                <AnimatedSpinner />
+              </div>
+            )}
+            {unscheduled.data?.length == 0 && (
+              <p className="italic">Every course has days and times</p>
+            )}
+            <div className="max-h-[300px] overflow-y-auto">
+              {unscheduled.data?.map((course) => (
+                <label
+                  key={course.tuid}
+                  className="flex cursor-pointer items-center gap-2 p-1"
+                >
+                  <Checkbox
+                    size="sm"
+                    checked={selected.includes(course.tuid)}
+                    onChange={() => setSelected(toggle(selected, course.tuid))}
+                  />
+                  <span className="font-semibold">{course.name}</span>
+                  <span className="grow">{course.title}</span>
+                  <span className="text-sm">
+                    {course.credits} credits, {course.capacity} seats
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <p className="font-semibold">Preferred Buildings</p>
+            <Select
+              isMulti
+              options={buildings}
+              value={preferred}
+              placeholder="Any building"
+              onChange={(value) => setPreferred([...value])}
+            />
+
+            <div className="flex justify-end">
+              <Button
+                color="success"
+                disabled={selected.length == 0}
+                loading={proposeMutation.isLoading}
+                onClick={propose}
+              >
+                Find Times
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {proposal != null && (
+          <div className="flex flex-col gap-2">
+            {proposal.unplaced.length > 0 && (
+              <div className="rounded-md bg-yellow-100 p-2">
+                <p className="font-bold">Could not be placed</p>
+                {proposal.unplaced.map((item) => (
+                  <p className="text-sm" key={item.course_tuid}>
+                    {item.course}: {item.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="max-h-[400px] overflow-y-auto">
+              {proposal.diff.map((item) => {
+                const tuid = item.after?.tuid ?? "";
+                return (
+                  <div
+                    key={tuid}
+                    className="mb-2 rounded-lg border-2 bg-white text-sm"
+                  >
+                    <label className="flex cursor-pointer items-center gap-2 border-b-2 p-2">
+                      <Checkbox
+                        size="sm"
+                        checked={accepted.includes(tuid)}
+                        onChange={() => setAccepted(toggle(accepted, tuid))}
+                      />
+                      <Badge color="warning">changed</Badge>
+                      <span className="font-bold">{item.name}</span>
+                    </label>
+                    <table className="w-full">
+                      <tbody>
+                        {item.changes.map((change) => (
+                          <tr key={change.field} className="border-t-[1px]">
+                            <td className="w-1/6 p-1 pl-2 font-semibold">
+                              {change.field}
+                            </td>
+                            <td className="w-5/12 bg-red-50 p-1 line-through">
+                              {change.before}
+                            </td>
+                            <td className="w-5/12 bg-green-50 p-1">
+                              {change.after}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button color="error" onClick={() => setProposal(null)}>
+                Reject
+              </Button>
+              <Button
+                color="success"
+                disabled={accepted.length == 0}
+                loading={applyMutation.isLoading}
+                onClick={accept}
+              >
+                Accept {accepted.length} course(s)
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default AutoScheduleModal;
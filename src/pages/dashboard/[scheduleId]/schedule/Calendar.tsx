@@ -13,6 +13,7 @@ import {
   Trash,
 } from "tabler-icons-react";
 import CourseListing, {
+  type IDropPreview,
   IScheduleCourseWithTimes,
 } from "./calendar/CalendarCourseListing";
 import {
@@ -27,6 +28,15 @@ import CalendarWeekdayHeader from "./calendar/CalendarWeekdayHeader";
 import CalendarCourseOnline from "./calendar/CalenderCourseOnline";
 import { toast } from "react-toastify";
 import ConfirmDeleteModal from "src/components/ConfirmDeleteModal";
+import { TRPCClientError } from "@trpc/client";
+import { type ICourseSchemaWithMetadata } from "src/server/api/routers/calendar";
+import { calendarCourseSchema } from "src/validation/calendar";
+import {
+  type ILocationDay,
+  type ITimeSlot,
+  moveLocations,
+  snapToTimeSlot,
+} from "src/utils/calendar";
 
 /**
  * CalendarComponentProps
@@ -59,6 +69,34 @@ interface Days {
 
 const MENU_ID = "calendar-menu";
 
+/**
+ * IDraggedCourse
+ *
+ * The course being dragged on the calendar, with the form of said course
+ * which is saved once its dropped (loaded after the drag starts)
+ */
+interface IDraggedCourse {
+  course: IScheduleCourseWithTimes;
+  day: ILocationDay; //The day the course was dragged from
+  offset: number; //Minutes from the top of the course to the mouse
+  form?: ICourseSchemaWithMetadata;
+}
+
+/**
+ * Moves the form of a dragged course to a new day and time, and validates
+ * it so it can be checked and saved like any other course
+ */
+const moveDraggedCourse = (
+  dragged: IDraggedCourse,
+  form: ICourseSchemaWithMetadata,
+  day: ILocationDay,
+  slot: ITimeSlot
+) =>
+  calendarCourseSchema.safeParseAsync({
+    ...form,
+    locations: moveLocations(form.locations, dragged.day, day, slot),
+  });
+
 const ScheduleCalendar = ({
   semester,
   weekends = false,
@@ -79,6 +117,7 @@ const ScheduleCalendar = ({
   //this will call refetch on the query bekow
   useEffect(() => {
     result.refetch();
+    facultyConflicts.refetch();
   }, [update]);
 
   //The query if data based on the semester passed in
@@ -91,10 +130,26 @@ const ScheduleCalendar = ({
     semester_summer: semester == "SU",
     semester_spring: semester == "SP",
   });
+
+  //The query for any faculty that are double booked for said semester
+  const facultyConflicts = api.calendar.getFacultyConflicts.useQuery({
+    tuid: revision,
+    semester_fall: semester == "FA",
+    semester_winter: semester == "WI",
+    semester_summer: semester == "SU",
+    semester_spring: semester == "SP",
+  });
+
+  //Get the list of course tuids that have a faculty conflict
+  const coursesWithFacultyConflicts = (facultyConflicts.data ?? []).flatMap(
+    (conflict) => [conflict.course_tuid, conflict.conflicting_course_tuid]
+  ) as string[];
+
   //useState for deleteID course
   const [DeleteConfirmation, setConfirmation] = useState(false);
   const [DeleteID, setDeleteID] = useState("");
   const forceDeleteCourse = api.courses.forceDeleteCourse.useMutation();
+  const utils = api.useContext();
   //delete revision
   const DeleteACourse = async (DeletedTuid: string) => {
     try {
@@ -108,6 +163,8 @@ const ScheduleCalendar = ({
           position: toast.POSITION.TOP_RIGHT,
         });
         result.refetch();
+        //The delete can now be undone
+        utils.audit.getUndoStack.invalidate();
         //Else its an error
       } else {
         toast.error(`Failed to Remove Course`, {
@@ -123,6 +180,220 @@ const ScheduleCalendar = ({
     }
   };
 
+  /**
+   * Drag and Drop
+   *
+   * Courses can be dragged to another day and time, which snaps to the
+   * guideline times for the semester. While dragging the new time is checked
+   * against the guidelines and for conflicts, and dropping saves the course.
+   */
+  const [dragged, setDragged] = useState<IDraggedCourse | null>(null);
+  const [dropPreview, setDropPreview] = useState<IDropPreview | null>(null);
+
+  const guidelineTimes = api.calendar.getGuidelineTimes.useQuery(
+    {
+      semester_fall: semester == "FA",
+      semester_winter: semester == "WI",
+      semester_summer: semester == "SU",
+      semester_spring: semester == "SP",
+    },
+    { enabled: !locked }
+  );
+  //Only users who can edit the revision can drag courses
+  const canEdit = api.calendar.canEditRevision.useQuery({ tuid: revision });
+  const getCourseMutation = api.calendar.getCourse.useMutation();
+  const previewMoveMutation = api.calendar.previewCourseMove.useMutation();
+  const updateCourseMutation = api.calendar.updateRevisionCourse.useMutation();
+
+  const onCourseDragStart =
+    (day: ILocationDay) =>
+    (course: IScheduleCourseWithTimes, offset: number) => {
+      setDragged({ course, day, offset });
+      setDropPreview(null);
+
+      //Load the form of the course so it can be checked and saved
+      getCourseMutation
+        .mutateAsync({ tuid: course.tuid })
+        .then((form) => {
+          setDragged((current) =>
+            current != null && current.course.tuid == course.tuid
+              ? { ...current, form }
+              : current
+          );
+        })
+        .catch(() => {
+          //Stop dragging the course, unless another one is already being dragged
+          setDragged((current) =>
+            current != null && current.course.tuid == course.tuid
+              ? null
+              : current
+          );
+          setDropPreview(null);
+          toast.error(`Failed to load course, try again`, {
+            position: toast.POSITION.TOP_RIGHT,
+          });
+        });
+    };
+
+  const onCourseDragOver = (day: ILocationDay, minutes: number) => {
+    if (dragged == null) return;
+
+    //Snap to the guideline times for the credits of the course, or any if there are none
+    const times = guidelineTimes.data ?? [];
+    const creditTimes = times.filter(
+      (time) => time.credits == dragged.course.credits
+    );
+    const slot = snapToTimeSlot(
+      minutes - dragged.offset,
+      dragged.course.difference,
+      creditTimes.length > 0 ? creditTimes : times
+    );
+
+    //Only check the new time once it has changed
+    if (
+      dropPreview != null &&
+      dropPreview.day == day &&
+      dropPreview.slot.start_time == slot.start_time &&
+      dropPreview.slot.end_time == slot.end_time
+    ) {
+      return;
+    }
+    setDropPreview({ day, slot, status: "LOADING", messages: [] });
+  };
+
+  //Check the course at the previewed time once it and the form are loaded
+  useEffect(() => {
+    const form = dragged?.form;
+    if (dragged == null || form == undefined || dropPreview == null) return;
+    if (dropPreview.status != "LOADING") return;
+
+    let cancelled = false;
+    const checkPreview = async () => {
+      const parsed = await moveDraggedCourse(
+        dragged,
+        form,
+        dropPreview.day,
+        dropPreview.slot
+      );
+      if (!parsed.success) {
+        if (!cancelled) {
+          setDropPreview({
+            ...dropPreview,
+            status: "CONFLICT",
+            messages: parsed.error.issues.map((issue) => issue.message),
+          });
+        }
+        return;
+      }
+      try {
+        const result = await previewMoveMutation.mutateAsync({
+          tuid: revision,
+          course: parsed.data,
+        });
+        if (cancelled) return;
+        const messages = [
+          ...result.roomConflicts.map(
+            (conflict) => `Room taken by ${conflict.conflicting_course}`
+          ),
+          ...result.facultyConflicts.map(
+            (conflict) =>
+              `${conflict.faculty ?? "Faculty"} teaches ${
+                conflict.conflicting_course
+              }`
+          ),
+        ];
+        if (!result.withinGuideline) {
+          messages.push("Not within a guideline");
+        }
+        setDropPreview({
+          ...dropPreview,
+          status:
+            result.roomConflicts.length > 0 ||
+            result.facultyConflicts.length > 0
+              ? "CONFLICT"
+              : result.withinGuideline
+              ? "VALID"
+              : "GUIDELINE",
+          messages,
+        });
+      } catch (error) {
+        //Leave the preview as is, the course is still checked when its saved
+      }
+    };
+    checkPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [dragged, dropPreview]);
+
+  const onCourseDrop = async (day: ILocationDay) => {
+    const form = dragged?.form;
+    const preview = dropPreview;
+    setDragged(null);
+    setDropPreview(null);
+    if (dragged == null || preview == null || preview.day != day) return;
+
+    //The course may be dropped before it has loaded
+    if (form == undefined) {
+      toast.error(`Course is still loading, try again`, {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+      return;
+    }
+
+    const parsed = await moveDraggedCourse(dragged, form, day, preview.slot);
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? `Failed to move course`, {
+        position: toast.POSITION.TOP_RIGHT,
+      });
+      return;
+    }
+    try {
+      const response = await updateCourseMutation.mutateAsync({
+        ...parsed.data,
+        tuid: dragged.course.tuid,
+      });
+      if (response) {
+        toast.success(`Moved ${form.subject.name} ${form.course_number}`, {
+          position: toast.POSITION.TOP_RIGHT,
+        });
+      } else {
+        toast.error(`Failed to move course`, {
+          position: toast.POSITION.TOP_RIGHT,
+        });
+      }
+    } catch (error) {
+      //The backend rejects any course that double books a room, so show why
+      toast.error(
+        error instanceof TRPCClientError
+          ? error.message
+          : `Failed to move course`,
+        { position: toast.POSITION.TOP_RIGHT }
+      );
+    }
+    result.refetch();
+    facultyConflicts.refetch();
+    utils.audit.getUndoStack.invalidate();
+  };
+
+  const onCourseDragEnd = () => {
+    setDragged(null);
+    setDropPreview(null);
+  };
+
+  //The drag and drop properties for the course listing of a day
+  const dragProps = (day: ILocationDay) => {
+    return {
+      day,
+      draggable: !locked && canEdit.data == true,
+      dropPreview,
+      onCourseDragStart: onCourseDragStart(day),
+      onCourseDragOver,
+      onCourseDrop,
+      onCourseDragEnd,
+    };
+  };
+
   const [sections, setOpenSections] = useState<Days>({
     monday: true,
     tuesday: true,
@@ -438,6 +709,8 @@ const ScheduleCalendar = ({
                     handleContextMenu(e);
                   }}
                   courses={result.data.monday_courses}
+                  {...dragProps("day_monday")}
+                  conflicts={coursesWithFacultyConflicts}
                   setCourseHover={(course) => {
                     setCourseHover(course);
                     if (onCourseHover != undefined) onCourseHover(course!);
@@ -455,6 +728,8 @@ const ScheduleCalendar = ({
                     handleContextMenu(e);
                   }}
                   courses={result.data.tuesday_courses}
+                  {...dragProps("day_tuesday")}
+                  conflicts={coursesWithFacultyConflicts}
                   setCourseHover={(course) => {
                     setCourseHover(course);
                     if (onCourseHover != undefined) onCourseHover(course!);
@@ -472,6 +747,8 @@ const ScheduleCalendar = ({
                     handleContextMenu(e);
                   }}
                   courses={result.data.wednesday_courses}
+                  {...dragProps("day_wednesday")}
+                  conflicts={coursesWithFacultyConflicts}
                   setCourseHover={(course) => {
                     setCourseHover(course);
                     if (onCourseHover != undefined) onCourseHover(course!);
@@ -489,6 +766,8 @@ const ScheduleCalendar = ({
                     handleContextMenu(e);
                   }}
                   courses={result.data.thursday_courses}
+                  {...dragProps("day_thursday")}
+                  conflicts={coursesWithFacultyConflicts}
                   setCourseHover={(course) => {
                     setCourseHover(course);
                     if (onCourseHover != undefined) onCourseHover(course!);
@@ -506,6 +785,8 @@ const ScheduleCalendar = ({
                     handleContextMenu(e);
                   }}
                   courses={result.data.friday_courses}
+                  {...dragProps("day_friday")}
+                  conflicts={coursesWithFacultyConflicts}
                   setCourseHover={(course) => {
                     setCourseHover(course);
                     if (onCourseHover != undefined) onCourseHover(course!);
@@ -526,6 +807,8 @@ const ScheduleCalendar = ({
                         handleContextMenu(e);
                       }}
                       courses={result.data.saturday_courses}
+                      {...dragProps("day_saturday")}
+                      conflicts={coursesWithFacultyConflicts}
                       setCourseHover={(course) => {
                         setCourseHover(course);
                         if (onCourseHover != undefined) onCourseHover(course!);
@@ -543,6 +826,8 @@ const ScheduleCalendar = ({
                         handleContextMenu(e);
                       }}
                       courses={result.data.sunday_courses}
+                      {...dragProps("day_sunday")}
+                      conflicts={coursesWithFacultyConflicts}
                       setCourseHover={(course) => {
                         setCourseHover(course);
                         if (onCourseHover != undefined) onCourseHover(course!);
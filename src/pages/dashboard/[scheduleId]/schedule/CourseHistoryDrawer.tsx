@@ -0,0 +1,38 @@
+import React from "react";
+import { Button } from "react-daisyui";
+import { api } from "src/utils/api";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+import AuditList from "src/components/dashboard/AuditList";
+
+interface CourseHistoryDrawerProps {
+  tuid: string; //The course to show the history of
+  onClose: () => void;
+}
+
+/**
+ * CourseHistoryDrawer
+ * Slides over the side of the course modal to show every change made to a course
+ */
+const CourseHistoryDrawer = ({ tuid, onClose }: CourseHistoryDrawerProps) => {
+  const history = api.audit.getCourseHistory.useQuery({ tuid });
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-10 flex w-96 flex-col overflow-y-auto border-l-[1px] bg-base-100 p-4 shadow-xl">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="font-bold">History</h3>
+        <Button size="sm" shape="circle" onClick={onClose}>
+          ✕
+        </Button>
+      </div>
+      {history.isLoading ? (
+        <div className="flex justify-center">
+          <AnimatedSpinner />
+        </div>
+      ) : (
+        <AuditList audits={history.data ?? []} />
+      )}
+    </div>
+  );
+};
+
+export default CourseHistoryDrawer;
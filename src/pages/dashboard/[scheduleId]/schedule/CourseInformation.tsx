@@ -111,6 +111,29 @@ const CourseInformationSidebar = ({
                 );
               })}
             </ul>
+
+            {/* Rules of the course guideline the course is (or is closest to being) within */}
+            {course.guideline != undefined && (
+              <>
+                <div className="border-b-[1px] border-gray-400"></div>
+                <p className="font-bold">Guideline</p>
+                {course.guideline.closest == null && (
+                  <p>No course guidelines for this semester</p>
+                )}
+                {course.guideline.withinGuideline && (
+                  <p className="text-green-700">Within a course guideline</p>
+                )}
+                {course.guideline.rules
+                  .filter((rule) => !rule.passed)
+                  .map((rule) => {
+                    return (
+                      <p key={rule.rule} className="text-red-700">
+                        - {rule.message}
+                      </p>
+                    );
+                  })}
+              </>
+            )}
           </>
         )}
         {course == undefined && (
@@ -16,11 +16,17 @@ import {
   type ICalendarCourseSchema,
 } from "src/validation/calendar";
 import TimeInput from "./TimeInput";
-import { api } from "src/utils/api";
+import CourseHistoryDrawer from "./CourseHistoryDrawer";
+import SlotSuggestionsDrawer from "./SlotSuggestionsDrawer";
+import { api, type RouterInputs, type RouterOutputs } from "src/utils/api";
 import { toast } from "react-toastify";
-import { Trash } from "tabler-icons-react";
+import { TRPCClientError } from "@trpc/client";
+import { History, Trash } from "tabler-icons-react";
 import AnimatedSpinner from "src/components/AnimatedSpinner";
+import RoomSuggestions from "./RoomSuggestions";
+import { LOCATION_DAYS } from "src/utils/calendar";
 import { CourseState } from "@prisma/client";
+import { capitalize, debounce } from "lodash";
 import { type ICourseSchemaWithMetadata } from "src/server/api/routers/calendar";
 
 /**
@@ -42,6 +48,19 @@ interface CreateCourseModalProps {
 //Used for debugging
 const seen: any[] = [];
 
+/**
+ * Gets the label of a faculty option, which explains why the faculty member is
+ * ranked lower in the menu of the faculty select
+ */
+const facultyOptionLabel = (option: object, inMenu: boolean) => {
+  const faculty = option as Partial<
+    RouterOutputs["faculty"]["getRankedCourseFaculty"][number]
+  >;
+  return inMenu && faculty.warnings != undefined && faculty.warnings.length > 0
+    ? `${faculty.label} (${faculty.warnings.join(", ")})`
+    : faculty.label ?? "";
+};
+
 /**
  * Create Course Modal Component
  *
@@ -83,7 +102,7 @@ const CreateCourseModal = ({
   });
 
   //API to get all faculty lists from backend
-  const facultyMutation = api.faculty.getRevisionCourseFaculty.useMutation();
+  const facultyMutation = api.faculty.getRankedCourseFaculty.useMutation();
 
   /**
    * Department Mutation
@@ -138,6 +157,197 @@ const CreateCourseModal = ({
    */
   const getEditCourseMutation = api.calendar.getCourse.useMutation();
 
+  /**
+   * Faculty Conflicts Mutation
+   *
+   * Checks the current course in the form for any faculty that are
+   * double booked on the revision
+   */
+  const facultyConflictsMutation =
+    api.calendar.getCourseFacultyConflicts.useMutation();
+
+  //List of faculty conflicts for the current course
+  const [facultyConflicts, setFacultyConflicts] = useState<
+    RouterOutputs["calendar"]["getCourseFacultyConflicts"]
+  >([]);
+
+  /**
+   * Room Warnings Mutation
+   *
+   * Checks the rooms of the current course in the form have enough
+   * seats for the capacity of the course
+   */
+  const roomWarningsMutation = api.calendar.getCourseRoomWarnings.useMutation();
+
+  //List of rooms which do not have enough seats for the current course
+  const [roomWarnings, setRoomWarnings] = useState<
+    RouterOutputs["calendar"]["getCourseRoomWarnings"]
+  >([]);
+
+  /**
+   * Faculty Load Warnings Mutation
+   *
+   * Checks if assigning the current course in the form to its faculty
+   * would push them over their credit limits
+   */
+  const facultyLoadMutation =
+    api.calendar.getCourseFacultyLoadWarnings.useMutation();
+
+  //List of faculty which would be overloaded by the current course
+  const [facultyLoadWarnings, setFacultyLoadWarnings] = useState<
+    RouterOutputs["calendar"]["getCourseFacultyLoadWarnings"]
+  >([]);
+
+  /**
+   * Faculty Preference Warnings Mutation
+   *
+   * Checks the current course in the form against the qualified courses,
+   * times and campuses of its faculty
+   */
+  const facultyPreferenceMutation =
+    api.calendar.getCourseFacultyPreferenceWarnings.useMutation();
+
+  //List of faculty preferences the current course does not fit
+  const [facultyPreferenceWarnings, setFacultyPreferenceWarnings] = useState<
+    RouterOutputs["calendar"]["getCourseFacultyPreferenceWarnings"]
+  >([]);
+
+  /**
+   * Guideline Evaluation Mutation
+   *
+   * Checks the current course in the form against each rule of the
+   * course guidelines for its semester
+   */
+  const guidelineMutation =
+    api.calendar.getCourseGuidelineEvaluation.useMutation();
+
+  //Why the current course is not within a guideline, or null until its checked
+  const [guidelineEvaluation, setGuidelineEvaluation] = useState<
+    RouterOutputs["calendar"]["getCourseGuidelineEvaluation"] | null
+  >(null);
+
+  /**
+   * Available Rooms
+   *
+   * Used to suggest buildings and rooms which are free at the time of a location
+   */
+  const utils = api.useContext();
+
+  /**
+   * availableRoomsInput
+   * Gets what to find the free rooms of a location with, or null if the location
+   * is online or does not have any days yet
+   */
+  const availableRoomsInput = (
+    index: number
+  ): RouterInputs["buildings"]["findAvailableRooms"] | null => {
+    const location = courseAddForm.watch(`locations.${index}`);
+    const semester = courseAddForm.watch("semester");
+    if (
+      location == undefined ||
+      location.is_online ||
+      location.end_time <= location.start_time ||
+      !(
+        location.day_monday ||
+        location.day_tuesday ||
+        location.day_wednesday ||
+        location.day_thursday ||
+        location.day_friday ||
+        location.day_saturday ||
+        location.day_sunday
+      )
+    ) {
+      return null;
+    }
+    return {
+      revision_tuid: revisionTuid,
+      course_tuid: edit ?? undefined,
+      start_time: location.start_time,
+      end_time: location.end_time,
+      day_monday: location.day_monday,
+      day_tuesday: location.day_tuesday,
+      day_wednesday: location.day_wednesday,
+      day_thursday: location.day_thursday,
+      day_friday: location.day_friday,
+      day_saturday: location.day_saturday,
+      day_sunday: location.day_sunday,
+      semester_fall: semester == Semesters.FALL,
+      semester_winter: semester == Semesters.WINTER,
+      semester_spring: semester == Semesters.SPRING,
+      semester_summer: semester == Semesters.SUMMER,
+      building_tuid: location.rooms?.building?.buiding_tuid ?? undefined,
+    };
+  };
+
+  /**
+   * Faculty Conflict and Room Check (useEffect)
+   *
+   * Whenever the form changes, check the course for faculty conflicts, rooms without
+   * enough seats, faculty over their credit limits or outside of their preferences
+   * and the guidelines. This is
+   * debounced so the API is not called on every key press.
+   */
+  useEffect(() => {
+    const checkFacultyConflicts = debounce(async (values: unknown) => {
+      //Only check the course once its valid
+      const parsed = await calendarCourseSchema.safeParseAsync(values);
+      if (!parsed.success) {
+        return;
+      }
+      try {
+        const result = await facultyConflictsMutation.mutateAsync({
+          tuid: revisionTuid,
+          course: parsed.data,
+        });
+        setFacultyConflicts(result);
+      } catch (error) {
+        setFacultyConflicts([]);
+      }
+      try {
+        const result = await roomWarningsMutation.mutateAsync({
+          course: parsed.data,
+        });
+        setRoomWarnings(result);
+      } catch (error) {
+        setRoomWarnings([]);
+      }
+      try {
+        const result = await facultyLoadMutation.mutateAsync({
+          tuid: revisionTuid,
+          course: parsed.data,
+        });
+        setFacultyLoadWarnings(result);
+      } catch (error) {
+        setFacultyLoadWarnings([]);
+      }
+      try {
+        const result = await facultyPreferenceMutation.mutateAsync({
+          tuid: revisionTuid,
+          course: parsed.data,
+        });
+        setFacultyPreferenceWarnings(result);
+      } catch (error) {
+        setFacultyPreferenceWarnings([]);
+      }
+      try {
+        const result = await guidelineMutation.mutateAsync({
+          course: parsed.data,
+        });
+        setGuidelineEvaluation(result);
+      } catch (error) {
+        setGuidelineEvaluation(null);
+      }
+    }, 500);
+
+    const subscription = courseAddForm.watch((values) => {
+      checkFacultyConflicts(values);
+    });
+    return () => {
+      subscription.unsubscribe();
+      checkFacultyConflicts.cancel();
+    };
+  }, []);
+
   /**
    * On Mount Event (useEffect)
    *
@@ -192,29 +402,36 @@ const CreateCourseModal = ({
 
   //Logs our submitted course (Will be changed)
   const onCourseAddModifySubmit = async (course: ICalendarCourseSchema) => {
-    console.log("Hey we got here!");
-    console.log({ isCourseEditing });
-    if (isCourseEditing != undefined && isCourseEditing!.tuid) {
-      const result = await updateCourseMutation.mutateAsync({
-        tuid: isCourseEditing!.tuid,
-        ...course,
-      });
-      if (result) {
-        toast.info(`Updated Course Guideline`);
-        onSuccess();
+    try {
+      if (isCourseEditing != undefined && isCourseEditing!.tuid) {
+        const result = await updateCourseMutation.mutateAsync({
+          tuid: isCourseEditing!.tuid,
+          ...course,
+        });
+        if (result) {
+          toast.info(`Updated Course Guideline`);
+          onSuccess();
+        } else {
+          toast.error(`Failed to add Course Guideline`);
+        }
       } else {
-        toast.error(`Failed to add Course Guideline`);
+        const result = await addCourseMutation.mutateAsync({
+          course,
+          tuid: revisionTuid,
+        });
+        if (result == true) {
+          toast.success(`Added new course!`);
+          onSuccess();
+        } else {
+          toast.error(`Failed to add course guideline`);
+        }
       }
-    } else {
-      const result = await addCourseMutation.mutateAsync({
-        course,
-        tuid: revisionTuid,
-      });
-      if (result == true) {
-        toast.success(`Added new course!`);
-        onSuccess();
+    } catch (error) {
+      //The backend rejects any course that double books a room, so show why
+      if (error instanceof TRPCClientError) {
+        toast.error(error.message);
       } else {
-        toast.error(`Failed to add course guideline`);
+        toast.error(`Failed to save course`);
       }
     }
 
@@ -226,6 +443,98 @@ const CreateCourseModal = ({
   const [isCourseEditing, setCourseEditing] =
     useState<ICalendarCourseSchema | null>();
 
+  //Is the history drawer of the edited course open?
+  const [showHistory, setShowHistory] = useState(false);
+
+  //The course the suggested times drawer is open for, or null if closed
+  const [slotSuggestionsInput, setSlotSuggestionsInput] = useState<
+    RouterInputs["calendar"]["suggestCourseSlots"] | null
+  >(null);
+
+  /**
+   * openSlotSuggestions
+   * Opens the suggested times drawer for the credits, semester, dates,
+   * faculty and rooms currently in the form
+   */
+  const openSlotSuggestions = () => {
+    const values = courseAddForm.getValues();
+    if (
+      Number.isNaN(values.credits) ||
+      values.credits == undefined ||
+      values.start_date == undefined ||
+      values.end_date == undefined
+    ) {
+      toast.error("Enter the credits and dates to suggest times");
+      return;
+    }
+    setShowHistory(false);
+    setSlotSuggestionsInput({
+      tuid: revisionTuid,
+      course_tuid: edit ?? undefined,
+      credits: values.credits,
+      semester: values.semester,
+      start_date: values.start_date,
+      end_date: values.end_date,
+      faculty_tuid: values.faculty?.faculty_tuid,
+      rooms: values.locations.flatMap((location) =>
+        !location.is_online &&
+        location.rooms?.room &&
+        location.rooms.building?.buiding_tuid
+          ? [
+              {
+                building_tuid: location.rooms.building.buiding_tuid,
+                room: location.rooms.room.toString(),
+              },
+            ]
+          : []
+      ),
+    });
+  };
+
+  /**
+   * applySlotSuggestion
+   * Moves the first in person location to the days and time of a suggested slot,
+   * or adds a location for it if there are none
+   */
+  const applySlotSuggestion = (
+    slot: RouterOutputs["calendar"]["suggestCourseSlots"][number]
+  ) => {
+    const index = courseAddForm
+      .getValues("locations")
+      .findIndex((location) => !location.is_online);
+    if (index == -1) {
+      locationFields.append({
+        day_monday: slot.day_monday,
+        day_tuesday: slot.day_tuesday,
+        day_wednesday: slot.day_wednesday,
+        day_thursday: slot.day_thursday,
+        day_friday: slot.day_friday,
+        day_saturday: slot.day_saturday,
+        day_sunday: slot.day_sunday,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        is_online: false,
+        rooms: {
+          room: "",
+          building: null,
+        },
+      });
+    } else {
+      for (const day of LOCATION_DAYS) {
+        courseAddForm.setValue(`locations.${index}.${day}`, slot[day], {
+          shouldDirty: true,
+        });
+      }
+      courseAddForm.setValue(`locations.${index}.start_time`, slot.start_time, {
+        shouldDirty: true,
+      });
+      courseAddForm.setValue(`locations.${index}.end_time`, slot.end_time, {
+        shouldDirty: true,
+      });
+    }
+    setSlotSuggestionsInput(null);
+  };
+
   console.log(
     JSON.stringify(courseAddForm.formState.errors, function (key, val) {
       if (val != null && typeof val == "object") {
@@ -654,15 +963,26 @@ const CreateCourseModal = ({
                               new Promise<any>(async (resolve) => {
                                 //Now call the mutation to find any faculty by the search value
 
-                                console.log({
-                                  department:
-                                    courseAddForm.getValues("department.name"),
-                                });
-
+                                //The faculty qualified and available to teach the course are first
                                 const data = await facultyMutation.mutateAsync({
+                                  revision_tuid: revisionTuid,
                                   search: search.toLowerCase(),
                                   department:
                                     courseAddForm.getValues("department.name"),
+                                  course: {
+                                    tuid: edit ?? undefined,
+                                    subject:
+                                      courseAddForm.getValues("subject.name"),
+                                    course_number:
+                                      courseAddForm.getValues("course_number"),
+                                    locations: (
+                                      courseAddForm.getValues("locations") ?? []
+                                    ).map(({ rooms, ...location }) => ({
+                                      ...location,
+                                      building_tuid:
+                                        rooms?.building?.buiding_tuid,
+                                    })),
+                                  },
                                 });
 
                                 //If we do have data, set it to the callback,
@@ -677,6 +997,10 @@ const CreateCourseModal = ({
                                 }
                               });
                             }}
+                            //Explain why a faculty member is ranked lower in the menu
+                            formatOptionLabel={(option, { context }) =>
+                              facultyOptionLabel(option, context == "menu")
+                            }
                             //Manually pass in the props with values
                             value={value}
                             ref={ref}
@@ -755,6 +1079,17 @@ const CreateCourseModal = ({
                     <p className="font-bold">Time & Locations</p>
                   </div>
 
+                  {/* button to suggest times from the course guidelines */}
+                  <div className="mr-2" id="suggestTimesButton">
+                    <Button
+                      size="xs"
+                      type="button"
+                      onClick={openSlotSuggestions}
+                    >
+                      Suggest Times
+                    </Button>
+                  </div>
+
                   {/* button to add location, open up new location field */}
                   <div id="addLocationButton">
                     <Button
@@ -1064,13 +1399,42 @@ const CreateCourseModal = ({
                                           });
                                         console.log({ locationData: data });
                                         if (data != undefined) {
-                                          callback(
-                                            data.map((obj) => ({
-                                              label: obj.label,
+                                          //Count the free rooms of each building at the time of the location
+                                          const input =
+                                            availableRoomsInput(index);
+                                          const available =
+                                            input != null
+                                              ? await utils.buildings.findAvailableRooms
+                                                  .fetch({
+                                                    ...input,
+                                                    building_tuid: undefined,
+                                                  })
+                                                  .catch(() => null)
+                                              : null;
+                                          const options = data.map((obj) => {
+                                            const free =
+                                              available?.filter(
+                                                (room) =>
+                                                  room.building_tuid ==
+                                                  obj.building_tuid
+                                              ).length ?? null;
+                                            return {
+                                              label:
+                                                free != null
+                                                  ? `${obj.label} - ${free} free`
+                                                  : obj.label,
                                               value: obj.value,
                                               buiding_tuid: obj.building_tuid,
-                                            }))
-                                          );
+                                              free: free ?? 0,
+                                            };
+                                          });
+                                          //Suggest the buildings with the most free rooms first
+                                          if (available != null) {
+                                            options.sort(
+                                              (a, b) => b.free - a.free
+                                            );
+                                          }
+                                          callback(options);
                                         } else {
                                           callback([]);
                                         }
@@ -1091,9 +1455,10 @@ const CreateCourseModal = ({
                             <div>
                               {/* Room Number */}
                               <Input
-                                type="number"
+                                type="text"
                                 className="w-16"
                                 size="sm"
+                                list={`availableRooms${index}`}
                                 {...courseAddForm.register(
                                   `locations.${index}.rooms.room`
                                 )}
@@ -1101,6 +1466,11 @@ const CreateCourseModal = ({
                                   `locations.${index}.is_online`
                                 )}
                               />
+                              {/* Rooms which are free at the time of this location */}
+                              <RoomSuggestions
+                                id={`availableRooms${index}`}
+                                input={availableRoomsInput(index)}
+                              />
 
                               {/* Error message thrown when zod detects a problem */}
                             </div>
@@ -1117,6 +1487,88 @@ const CreateCourseModal = ({
                     )}
                   />
                 </div>
+
+                {/* List of faculty conflicts for the current course */}
+                {facultyConflicts.length > 0 && (
+                  <div
+                    className="mt-2 rounded-md bg-red-100 p-2"
+                    id="facultyConflicts"
+                  >
+                    <p className="font-bold">Faculty Conflicts</p>
+                    {facultyConflicts.map((conflict, index) => (
+                      <p className="text-sm" key={index}>
+                        {conflict.faculty} also teaches{" "}
+                        {conflict.conflicting_course} on{" "}
+                        {capitalize(conflict.day.replace("day_", ""))}
+                        {conflict.type == "OVERLAP"
+                          ? " at the same time"
+                          : ` with only ${conflict.gap} minutes between (${conflict.required_gap} needed)`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {guidelineEvaluation != null &&
+                  !guidelineEvaluation.withinGuideline && (
+                    <div
+                      className="mt-2 rounded-md bg-red-100 p-2"
+                      id="guidelineEvaluation"
+                    >
+                      <p className="font-bold">Outside of Course Guidelines</p>
+                      {guidelineEvaluation.closest == null && (
+                        <p className="text-sm">
+                          There are no course guidelines for this semester
+                        </p>
+                      )}
+                      {guidelineEvaluation.rules
+                        .filter((rule) => !rule.passed)
+                        .map((rule) => (
+                          <p className="text-sm" key={rule.rule}>
+                            {rule.message}
+                          </p>
+                        ))}
+                    </div>
+                  )}
+                {roomWarnings.length > 0 && (
+                  <div
+                    className="mt-2 rounded-md bg-yellow-100 p-2"
+                    id="roomWarnings"
+                  >
+                    <p className="font-bold">Room Capacity</p>
+                    {roomWarnings.map((warning, index) => (
+                      <p className="text-sm" key={index}>
+                        {warning.building} {warning.room} only has{" "}
+                        {warning.seats} seats for a capacity of{" "}
+                        {warning.capacity}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {facultyPreferenceWarnings.length > 0 && (
+                  <div
+                    className="mt-2 rounded-md bg-yellow-100 p-2"
+                    id="facultyPreferenceWarnings"
+                  >
+                    <p className="font-bold">Faculty Preferences</p>
+                    {facultyPreferenceWarnings.map((warning, index) => (
+                      <p className="text-sm" key={index}>
+                        {warning.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {facultyLoadWarnings.length > 0 && (
+                  <div
+                    className="mt-2 rounded-md bg-yellow-100 p-2"
+                    id="facultyLoadWarnings"
+                  >
+                    <p className="font-bold">Faculty Workload</p>
+                    {facultyLoadWarnings.map((warning, index) => (
+                      <p className="text-sm" key={index}>
+                        {warning.faculty}: {warning.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div
@@ -1148,6 +1600,19 @@ const CreateCourseModal = ({
             </div>
             {/* Submit button */}
             <div className="flex justify-end">
+              {isCourseEditing != undefined && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="mt-2 mr-auto"
+                  onClick={() => {
+                    setSlotSuggestionsInput(null);
+                    setShowHistory(!showHistory);
+                  }}
+                >
+                  <History className="mr-1" /> History
+                </Button>
+              )}
               {isCourseEditing != undefined && (
                 <Button
                   color={
@@ -1156,9 +1621,19 @@ const CreateCourseModal = ({
                       : "warning"
                   }
                   onClick={async () => {
-                    await removeCourseMutation.mutateAsync({
-                      tuid: isCourseEditing.tuid!,
-                    });
+                    try {
+                      await removeCourseMutation.mutateAsync({
+                        tuid: isCourseEditing.tuid!,
+                      });
+                    } catch (error) {
+                      //A course can not be restored into a room that is now booked
+                      toast.error(
+                        error instanceof TRPCClientError
+                          ? error.message
+                          : "Failed to change the course"
+                      );
+                      return;
+                    }
                     toast.info(
                       isCourseEditing.state != CourseState.REMOVED
                         ? "Course has been removed"
@@ -1190,6 +1665,23 @@ const CreateCourseModal = ({
           </form>
         )}
 
+        {/* Drawer with every change made to the course */}
+        {showHistory && isCourseEditing?.tuid != undefined && (
+          <CourseHistoryDrawer
+            tuid={isCourseEditing.tuid}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {/* Drawer with the suggested times for the course */}
+        {slotSuggestionsInput != null && (
+          <SlotSuggestionsDrawer
+            input={slotSuggestionsInput}
+            onSelect={applySlotSuggestion}
+            onClose={() => setSlotSuggestionsInput(null)}
+          />
+        )}
+
         {/* Show an animated spinner while the edited course is loading */}
         {!isCourseEditing && edit != null && (
           <div className="flex h-[200px] w-full flex-col items-center justify-center">
@@ -0,0 +1,36 @@
+import { api, type RouterInputs } from "src/utils/api";
+
+interface RoomSuggestionsProps {
+  id: string; //The id of the datalist, used by the list property of an input
+  input: RouterInputs["buildings"]["findAvailableRooms"] | null; //The time and building to find rooms for, or null when not known yet
+}
+
+/**
+ * RoomSuggestions
+ * A list of the rooms in a building that are not booked at the time of a
+ * location, which the room input of a location suggests from
+ */
+const RoomSuggestions = ({ id, input }: RoomSuggestionsProps) => {
+  const rooms = api.buildings.findAvailableRooms.useQuery(input!, {
+    enabled: input != null && input.building_tuid != undefined,
+    keepPreviousData: true,
+  });
+
+  return (
+    <datalist id={id}>
+      {input != null &&
+        rooms.data?.map((room) => (
+          <option key={`${room.building_tuid}/${room.room}`} value={room.room}>
+            {room.capacity != null
+              ? `${room.capacity} seats`
+              : "Seats not known"}
+            {room.has_lab ? ", Lab" : ""}
+            {room.has_projector ? ", Projector" : ""}
+            {room.is_accessible ? ", Accessible" : ""}
+          </option>
+        ))}
+    </datalist>
+  );
+};
+
+export default RoomSuggestions;
@@ -0,0 +1,91 @@
+import React from "react";
+import { Badge, Button } from "react-daisyui";
+import { api, type RouterInputs, type RouterOutputs } from "src/utils/api";
+import AnimatedSpinner from "src/components/AnimatedSpinner";
+import { LOCATION_DAYS } from "src/utils/calendar";
+import militaryToTime from "src/utils/time";
+
+type ISlotSuggestion = RouterOutputs["calendar"]["suggestCourseSlots"][number];
+
+interface SlotSuggestionsDrawerProps {
+  input: RouterInputs["calendar"]["suggestCourseSlots"]; //The course to suggest slots for
+  onSelect: (slot: ISlotSuggestion) => void; //Called when a slot is picked
+  onClose: () => void;
+}
+
+//Short names of each day, in calendar order
+const DAY_NAMES = ["M", "T", "W", "TH", "F", "Sat", "Sun"];
+
+/**
+ * Formats military time as a readable time, ex: 1430 is 2:30 PM
+ */
+const formatTime = (time: number) => {
+  const { anteMeridiemHour, minute, period } = militaryToTime(time);
+  return `${anteMeridiemHour}:${minute < 10 ? "0" + minute : minute} ${period}`;
+};
+
+/**
+ * SlotSuggestionsDrawer
+ * Slides over the side of the course modal to list every day and time from the
+ * course guidelines a course can meet at, with the least conflicting first
+ */
+const SlotSuggestionsDrawer = ({
+  input,
+  onSelect,
+  onClose,
+}: SlotSuggestionsDrawerProps) => {
+  const slots = api.calendar.suggestCourseSlots.useQuery(input);
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-10 flex w-96 flex-col overflow-y-auto border-l-[1px] bg-base-100 p-4 shadow-xl">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="font-bold">Suggested Times</h3>
+        <Button size="sm" shape="circle" onClick={onClose}>
+          ✕
+        </Button>
+      </div>
+      {slots.isLoading && (
+        <div className="flex justify-center">
+          <AnimatedSpinner />
+        </div>
+      )}
+      {slots.data?.length == 0 && (
+        <p className="text-sm">
+          No course guidelines for {input.credits} credits in the{" "}
+          {input.semester} semester.
+        </p>
+      )}
+      {slots.data?.map((slot, index) => (
+        <div
+          key={index}
+          className="mb-2 flex items-center justify-between rounded-md bg-gray-100 p-2"
+        >
+          <div>
+            <p className="font-semibold">
+              {LOCATION_DAYS.map((day, dayIndex) =>
+                slot[day] ? DAY_NAMES[dayIndex] : ""
+              ).join("")}{" "}
+              {formatTime(slot.start_time)} to {formatTime(slot.end_time)}
+            </p>
+            <div className="flex gap-1">
+              {slot.room_conflicts + slot.faculty_conflicts == 0 && (
+                <Badge color="success">No conflicts</Badge>
+              )}
+              {slot.room_conflicts > 0 && (
+                <Badge color="error">{slot.room_conflicts} room</Badge>
+              )}
+              {slot.faculty_conflicts > 0 && (
+                <Badge color="error">{slot.faculty_conflicts} faculty</Badge>
+              )}
+            </div>
+          </div>
+          <Button size="sm" type="button" onClick={() => onSelect(slot)}>
+            Use
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SlotSuggestionsDrawer;
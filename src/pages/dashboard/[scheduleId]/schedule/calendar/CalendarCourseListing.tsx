@@ -1,9 +1,32 @@
 import classNames from "classnames";
 
 import { type IScheduleCourse } from "src/server/api/routers/calendar";
-import { Lock } from "tabler-icons-react";
+import { type IGuidelineEvaluation } from "src/server/guidelines";
+import { Lock, UserExclamation } from "tabler-icons-react";
+import { Badge } from "react-daisyui";
 import CalendarCourseInfo from "./CalendarCourseInfo";
-import { MouseEvent } from "react";
+import { type DragEvent, MouseEvent } from "react";
+import {
+  CALENDAR_START_MINUTES,
+  type ILocationDay,
+  type ITimeSlot,
+  militaryToMinutes,
+} from "src/utils/calendar";
+import militaryToTime from "src/utils/time";
+
+/**
+ * IDropPreview
+ *
+ * Where a dragged course would be dropped, and if it would be within the
+ * guidelines or conflict with another course there
+ */
+export interface IDropPreview {
+  day: ILocationDay;
+  slot: ITimeSlot;
+  status: "LOADING" | "VALID" | "GUIDELINE" | "CONFLICT";
+  messages: string[];
+}
+
 interface CourseListingProps {
   show: boolean; //Do we show the courses
   locked?: boolean; //Do we tell the user this is in lcoked mode
@@ -13,8 +36,27 @@ interface CourseListingProps {
   onSelect: (value: string) => void; //Selection event
   onContext: (value: string, e: MouseEvent<HTMLDivElement>) => void;
   hover: IScheduleCourseWithTimes | null; //Hover data?
+  conflicts?: string[]; //List of course tuids with a faculty conflict
+  day?: ILocationDay; //The day of the week this listing is for
+  draggable?: boolean; //Can the courses be dragged to a new time
+  dropPreview?: IDropPreview | null; //Where the dragged course would be dropped
+  onCourseDragStart?: (
+    course: IScheduleCourseWithTimes,
+    offset: number
+  ) => void; //Offset is the minutes from the top of the course
+  onCourseDragOver?: (day: ILocationDay, minutes: number) => void; //Minutes since midnight under the mouse
+  onCourseDrop?: (day: ILocationDay) => void;
+  onCourseDragEnd?: () => void;
 }
 
+/**
+ * Formats military time for the drop preview (ie, 1030 is 10:30 AM)
+ */
+const formatTime = (time: number) => {
+  const { anteMeridiemHour, minute, period } = militaryToTime(time);
+  return `${anteMeridiemHour}:${minute.toString().padStart(2, "0")} ${period}`;
+};
+
 //TODO: Use the military to time in the utils
 const militaryToSplit = (time: number) => {
   //initializes hour variable to parse integer time numbers
@@ -51,6 +93,7 @@ export type IScheduleCourseWithTimes = IScheduleCourse & {
   difference: number;
   online?: boolean;
   withinGuideline: boolean;
+  guideline?: IGuidelineEvaluation; //Why the course is (or is not) within a guideline
   faculty: {
     faculty: {
       name: string;
@@ -287,6 +330,14 @@ const CourseListing = ({
   hover,
   onContext,
   onSelect,
+  conflicts = [],
+  day,
+  draggable = false,
+  dropPreview,
+  onCourseDragStart,
+  onCourseDragOver,
+  onCourseDrop,
+  onCourseDragEnd,
 }: CourseListingProps) => {
   //Get the mapped version of the calendar from the list of courses
   let mapped = [] as ICalendarMappingJustified[];
@@ -294,12 +345,37 @@ const CourseListing = ({
     mapped = calendarMapping(courses);
     //console.log({ courses, mapped });
   }
+
+  //Tell the calendar the time under the mouse while a course is dragged over this day
+  const onDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!draggable || day == undefined) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    const top = e.currentTarget.getBoundingClientRect().top;
+    if (onCourseDragOver != undefined)
+      onCourseDragOver(day, CALENDAR_START_MINUTES + (e.clientY - top));
+  };
+
+  const onDrop = (e: DragEvent<HTMLDivElement>) => {
+    if (!draggable || day == undefined) return;
+    e.preventDefault();
+    if (onCourseDrop != undefined) onCourseDrop(day);
+  };
+
+  //Only show the preview on the day it would be dropped on
+  const preview =
+    dropPreview != null && dropPreview.day == day ? dropPreview : null;
+
   return (
     <>
       {" "}
       {show && (
         <div className="wrap relative flex h-[1050px] grow border-r border-base-300">
-          <div className="relative w-full grow basis-0">
+          <div
+            className="relative w-full grow basis-0"
+            onDragOver={onDragOver}
+            onDrop={onDrop}
+          >
             {mapped.splice(0).map((block, index) => {
               return (
                 <div
@@ -319,6 +395,18 @@ const CourseListing = ({
                           onMouseEnter={() => setCourseHover(course)}
                           onMouseLeave={() => setCourseHover(null)}
                           tabIndex={index}
+                          draggable={draggable && !course.online}
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData("text/plain", course.tuid);
+                            e.dataTransfer.effectAllowed = "move";
+                            const top =
+                              e.currentTarget.getBoundingClientRect().top;
+                            if (onCourseDragStart != undefined)
+                              onCourseDragStart(course, e.clientY - top);
+                          }}
+                          onDragEnd={() => {
+                            if (onCourseDragEnd != undefined) onCourseDragEnd();
+                          }}
                           onClick={() => {
                             onSelect(course.tuid);
                           }}
@@ -327,7 +415,7 @@ const CourseListing = ({
                             onContext(course.tuid, e);
                           }}
                           className={classNames(
-                            "z-[100] flex w-32 cursor-pointer overflow-hidden text-ellipsis rounded-lg border border-base-100 bg-base-200 transition-all duration-150 hover:z-[500] hover:shadow-lg",
+                            "relative z-[100] flex w-32 cursor-pointer overflow-hidden text-ellipsis rounded-lg border border-base-100 bg-base-200 transition-all duration-150 hover:z-[500] hover:shadow-lg",
                             {
                               "-ml-10": index > 0 && overlap,
                               "shadow-lg":
@@ -351,6 +439,17 @@ const CourseListing = ({
                           )}
                         >
                           <CalendarCourseInfo locked={locked} course={course} />
+                          {/* Badge for when the faculty is double booked */}
+                          {conflicts.includes(course.tuid) && (
+                            <Badge
+                              color="error"
+                              size="sm"
+                              className="absolute bottom-1 right-1"
+                              title="Faculty has a conflicting course"
+                            >
+                              <UserExclamation width={12} height={12} />
+                            </Badge>
+                          )}
                         </div>
                       );
                     })}
@@ -358,6 +457,39 @@ const CourseListing = ({
                 </div>
               );
             })}
+            {/* Preview of where the dragged course would be dropped */}
+            {preview != null && (
+              <div
+                className={classNames(
+                  "pointer-events-none absolute z-[600] w-32 overflow-hidden rounded-lg border-2 border-dashed p-1 text-xs",
+                  {
+                    "border-base-300 bg-base-200": preview.status == "LOADING",
+                    "border-green-400 bg-green-100": preview.status == "VALID",
+                    "border-yellow-400 bg-yellow-100":
+                      preview.status == "GUIDELINE",
+                    "border-red-400 bg-red-100": preview.status == "CONFLICT",
+                  }
+                )}
+                style={{
+                  top:
+                    militaryToMinutes(preview.slot.start_time) -
+                    CALENDAR_START_MINUTES +
+                    1,
+                  height:
+                    militaryToMinutes(preview.slot.end_time) -
+                    militaryToMinutes(preview.slot.start_time),
+                  left: 4,
+                }}
+              >
+                <p className="font-bold">
+                  {formatTime(preview.slot.start_time)} -{" "}
+                  {formatTime(preview.slot.end_time)}
+                </p>
+                {preview.messages.map((message, index) => (
+                  <p key={index}>{message}</p>
+                ))}
+              </div>
+            )}
             {/* Create the lines for the current day */}
             {Array(15)
               .fill(0)
@@ -7,6 +7,7 @@ import Select from "react-select";
 import { useReactToPrint } from "react-to-print";
 //Database and authentiation
 import { prisma } from "src/server/db";
+import { hasRevisionAccess, revisionAccessWhere } from "src/server/access";
 import { routeNeedsAuthSession } from "src/server/auth";
 import { api } from "src/utils/api";
 
@@ -27,6 +28,7 @@ import {
   type ITab,
 } from "src/server/api/routers/calendar";
 import CreateCourseModal from "./CourseModifyModal";
+import AutoScheduleModal from "./AutoScheduleModal";
 import CourseInformationSidebar from "./CourseInformation";
 import { toast } from "react-toastify";
 import { type IScheduleCourseWithTimes } from "./calendar/CalendarCourseListing";
@@ -34,15 +36,19 @@ import { type IScheduleCourseWithTimes } from "./calendar/CalendarCourseListing"
 import Head from "next/head";
 
 import {
+  ArrowBackUp,
   ArrowDown,
+  ArrowForwardUp,
   ArrowUp,
   Check,
   FileExport,
   PencilPlus,
   Printer,
+  Wand,
   X,
 } from "tabler-icons-react";
 import useSidebar from "src/hooks/useSidebar";
+import useUndoRedo from "src/hooks/useUndoRedo";
 
 //Type that defines the current NextJS page for use
 interface ScheduleCalendar {
@@ -161,6 +167,9 @@ const Scheduler: NextPage<ScheduleCalendar> = ({ scheduleId, name }) => {
     currentRevisionSemesters.refetch();
   }, [openModifyCourseModal]);
 
+  //Is the auto schedule modal open?
+  const [openAutoScheduleModal, setAutoScheduleModal] = useState(false);
+
   //The course tuid that will be currently edited
   const [courseToEdit, setCourseToEdit] = useState<string | null>(null);
   const [courseToCopy, setCourseToCopy] = useState<string | null>(null);
@@ -194,6 +203,12 @@ const Scheduler: NextPage<ScheduleCalendar> = ({ scheduleId, name }) => {
   //Add sidebar toggle
   const [showSidebar, toggleSidebar] = useSidebar();
 
+  //Undo and redo course changes, the shortcuts are off while a modal is open
+  const { undo, redo, canUndo, canRedo } = useUndoRedo(
+    scheduleId,
+    !openModifyCourseModal && !openAutoScheduleModal
+  );
+
   return (
     <DashboardLayout>
       <Head>
@@ -247,6 +262,28 @@ const Scheduler: NextPage<ScheduleCalendar> = ({ scheduleId, name }) => {
                   <PencilPlus className="mr-2" />
                   Add Course
                 </Button>
+                <Button size="sm" onClick={() => setAutoScheduleModal(true)}>
+                  <Wand className="mr-2" />
+                  Auto Schedule
+                </Button>
+                <ButtonGroup>
+                  <Button
+                    size="sm"
+                    onClick={undo}
+                    disabled={!canUndo}
+                    title="Undo (Ctrl+Z)"
+                  >
+                    <ArrowBackUp />
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={redo}
+                    disabled={!canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    <ArrowForwardUp />
+                  </Button>
+                </ButtonGroup>
               </div>
               <div className="lg:ml-2 lg:border-l-2 lg:border-black lg:pl-2">
                 <ButtonGroup>
@@ -402,6 +439,14 @@ const Scheduler: NextPage<ScheduleCalendar> = ({ scheduleId, name }) => {
             }}
           />
         )}
+        {openAutoScheduleModal && (
+          <AutoScheduleModal
+            revisionTuid={scheduleId}
+            onClose={() => {
+              setAutoScheduleModal(false);
+            }}
+          />
+        )}
       </DashboardContent>
       {courseInformationSidebar && (
         <CourseInformationSidebar course={lastHovered} />
@@ -437,14 +482,11 @@ export const getServerSideProps = routeNeedsAuthSession(
 
     //Check to make sure its a string
     if (typeof scheduleId === "string") {
-      //Make sure we have owenrship of said revision
-      const hasRevision =
-        (await prisma.scheduleRevision.count({
-          where: {
-            tuid: query.scheduleId as string,
-            creator_tuid: session?.user?.id,
-          },
-        })) == 1;
+      //Make sure we have access to said revision, either by owning it or it being shared with us
+      const hasRevision = await hasRevisionAccess(
+        session?.user?.id ?? "",
+        scheduleId
+      );
 
       //And if we DO NOT, redirect them back to the main page
       if (!hasRevision) {
@@ -461,7 +503,7 @@ export const getServerSideProps = routeNeedsAuthSession(
     const revision = await prisma.scheduleRevision.findFirst({
       where: {
         tuid: query.scheduleId as string,
-        creator_tuid: session?.user?.id,
+        ...revisionAccessWhere(session?.user?.id ?? ""),
       },
       select: {
         name: true,
@@ -13,7 +13,6 @@ import { toast } from "react-toastify";
 import { ErrorMessage } from "@hookform/error-message";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { type typeToFlattenedError } from "zod";
 
 //TRPC
 import { routeNeedsAuthSession } from "src/server/auth";
@@ -23,11 +22,17 @@ import { api } from "src/utils/api";
 import ProjectItem from "src/components/projects/ProjectsItem";
 import ProjectRevisionItem from "src/components/projects/ProjectsRevisionItem";
 import ProjectsLayout from "src/components/projects/ProjectsLayout";
+import ProjectsInvites from "src/components/projects/ProjectsInvites";
+import CloneRevisionModal from "src/components/projects/CloneRevisionModal";
+import RollForwardModal from "src/components/projects/RollForwardModal";
 import DashboardLayout from "src/components/dashboard/DashboardLayout";
 import ProjectsUpload from "src/components/projects/projectUploading/ProjectsUpload";
 import ProjectDataTableEdit, {
   columnLookupTable,
 } from "src/components/projects/projectUploading/ProjectDataTableEdit";
+import ProjectImportPreview from "src/components/projects/projectUploading/ProjectImportPreview";
+import ProjectColumnTemplates from "src/components/projects/projectUploading/ProjectColumnTemplates";
+import ProjectSheetPicker from "src/components/projects/projectUploading/ProjectSheetPicker";
 import ConfirmDeleteModal from "src/components/ConfirmDeleteModal";
 
 //Images
@@ -38,7 +43,12 @@ import {
   type IProjectOrganizedColumnRowNumerical,
   type IProjectFinalizeOnboarding,
 } from "src/validation/projects.frontend";
+import {
+  type IProjectImportError,
+  type IProjectImportPreview,
+} from "src/validation/projects";
 import classNames from "classnames";
+import { Permissions, ScheduleRole } from "@prisma/client";
 import Head from "next/head";
 
 //THE DEFAULT SCHEMA FOR THE ORGANIZED COLUMNS
@@ -94,6 +104,7 @@ const Projects: NextPage = () => {
   interface IOnboarding {
     tuid: string;
     table: Array<Array<string>>;
+    sheets?: Array<{ name: string; table: Array<Array<string>> }>; //Every sheet of the workbook
   }
 
   //The data being uploaded
@@ -106,6 +117,15 @@ const Projects: NextPage = () => {
   const [confirmationDelete, setComfirmationDelete] = useState<boolean>(false);
   const [DeleteID, setDeleteID] = useState("");
 
+  //The revision which is being cloned, if any
+  const [cloning, setCloning] = useState<{ tuid: string; name: string }>();
+
+  //The revision which is being rolled forward to the next term, if any
+  const [rollingForward, setRollingForward] = useState<{
+    tuid: string;
+    name: string;
+  }>();
+
   //Visibility of the modal
   const [modalVisible, setModalVisible] = useState<boolean>(false);
 
@@ -115,11 +135,19 @@ const Projects: NextPage = () => {
   //The current stage for the onboarding
   const [stage, setStage] = useState<number>(1);
 
-  //The current list of errors from zod
-  const [error, setError] = useState<
-    //TODO: Can this type be improved to remove anys?
-    typeToFlattenedError<any, any> | never[] | undefined
-  >(undefined);
+  //The current list of errors from importing each row of the sheet
+  const [error, setError] = useState<IProjectImportError[] | undefined>(
+    undefined
+  );
+
+  //If any of the cells of the sheet were corrected by the user, or other sheets were picked
+  const [edited, setEdited] = useState(false);
+
+  //The names of the sheets being imported, which organizes the columns again when changed
+  const [sheetNames, setSheetNames] = useState("");
+
+  //What would be created from the sheet, from a dry run of the import
+  const [preview, setPreview] = useState<IProjectImportPreview>();
 
   const toggleVisible = () => {
     //set visibility of the modal
@@ -189,6 +217,13 @@ const Projects: NextPage = () => {
 
   //api call for getting all the main schedule revision
   const listOfSchedule = api.projects.getMainSchedule.useQuery();
+
+  //api call for the permissions of the current user, which decides
+  //if (and where) the admin button goes to
+  const permissions = api.auth.getPermissions.useQuery();
+  const isAdmin = permissions.data?.includes(Permissions.ADMIN) ?? false;
+  const isChair =
+    permissions.data?.includes(Permissions.DEPARTMENT_CHAIR) ?? false;
   //The schedule which is selected for the tabs at the bottom
   const [selectedSchedule, setSelectSchedule] = useState<{
     value: string;
@@ -360,6 +395,8 @@ const Projects: NextPage = () => {
           tuid: uploadedData.tuid,
           name: value.name,
           schedule: selectedSchedule ? selectedSchedule!.value! : null, //force schedule id to null if doesn't have
+          //Only send the sheet back when it was corrected
+          table: edited ? uploadedData.table : undefined,
         });
         if (result.success) {
           //Alert the user it as created sucessfully
@@ -391,6 +428,35 @@ const Projects: NextPage = () => {
     }
   };
 
+  /**
+   * Handle Preview
+   *
+   * Does a dry run of creating the revision, which validates the sheet and summarizes
+   * what would be created without adding anything
+   */
+  const onHandlePreview = async () => {
+    try {
+      if (uploadedData?.tuid != undefined && organizedColumns != undefined) {
+        const result = await createRevisionMutation.mutateAsync({
+          columns: organizedColumns,
+          tuid: uploadedData.tuid,
+          name: onboardingForm.getValues("name") ?? "",
+          schedule: selectedSchedule?.value ?? null,
+          table: edited ? uploadedData.table : undefined,
+          dry_run: true,
+        });
+        setError(result.errors);
+        if ("preview" in result) {
+          setPreview(result.preview);
+        }
+      }
+    } catch (error) {
+      toast.error("Could not preview the import, try again", {
+        position: toast.POSITION.BOTTOM_LEFT,
+      });
+    }
+  };
+
   return (
     <DashboardLayout>
       <Head>
@@ -416,16 +482,19 @@ const Projects: NextPage = () => {
           </div>
 
           <div className="flex justify-end space-x-2">
-            <Button
-              className="justify-ends btn-active btn"
-              color="info"
-              onClick={() => {
-                router.push(`/admin/courses`);
-              }}
-            >
-              <User size={30} />
-              Admin
-            </Button>
+            {(isAdmin || isChair) && (
+              <Button
+                className="justify-ends btn-active btn"
+                color="info"
+                onClick={() => {
+                  //Department chairs can only manage faculty
+                  router.push(isAdmin ? `/admin/courses` : `/admin/faculty`);
+                }}
+              >
+                <User size={30} />
+                Admin
+              </Button>
+            )}
             <Button
               className="justify-ends btn-active btn"
               onClick={() => {
@@ -511,6 +580,9 @@ const Projects: NextPage = () => {
                     } else {
                       console.log({ data });
                       setData(data);
+                      setEdited(false);
+                      setPreview(undefined);
+                      setSheetNames("");
                       setStage(stage + 0.5);
                     }
                   }}
@@ -545,32 +617,88 @@ const Projects: NextPage = () => {
                         </ul>
                       </div>
                     )}
-                    {error !== undefined && (
-                      <div className="mr-5 max-h-96 min-w-[200px] overflow-y-auto">
-                        <strong className="sticky top-0 bg-white text-red-600">
-                          Errors Found!
+                    {preview != undefined && (
+                      <ProjectImportPreview
+                        preview={preview}
+                        onMapped={onHandlePreview}
+                      />
+                    )}
+                    {error !== undefined && error.length > 0 && (
+                      <div className="mr-5 max-h-96 min-w-[200px] max-w-xs overflow-y-auto">
+                        <strong className="sticky top-0 block bg-white text-red-600">
+                          {error.length} Errors Found!
                         </strong>
+                        <span className="text-sm italic text-gray-600">
+                          Correct the highlighted cells then finalize again
+                        </span>
                         <ul>
-                          {error &&
-                            "fieldErrors" in error &&
-                            error.fieldErrors &&
-                            Object.entries(error.fieldErrors).map(
-                              ([field, messages]) => (
-                                <li key={field}>
-                                  <strong>{field}: </strong> <br />
-                                  {messages}
-                                </li>
-                              )
-                            )}
+                          {error.map((value, index) => (
+                            <li key={index}>
+                              <strong>
+                                {value.excelRow != -1 &&
+                                  `Row ${value.excelRow + 1}, `}
+                                {columnLookupTable.find(
+                                  (column) => column.value == value.column
+                                )?.label ?? value.column}
+                                :{" "}
+                              </strong>
+                              <br />
+                              {value.message}
+                            </li>
+                          ))}
                         </ul>
                       </div>
                     )}
 
                     <div className="w-full overflow-x-auto">
-                      {" "}
+                      {uploadedData?.sheets != undefined &&
+                        uploadedData.sheets.length > 1 && (
+                          <ProjectSheetPicker
+                            sheets={uploadedData.sheets}
+                            onChange={(table, names) => {
+                              //The picked sheets are sent in place of the uploaded file
+                              setData({ ...uploadedData, table });
+                              setEdited(true);
+                              setError(undefined);
+                              setPreview(undefined);
+                              setSheetNames(names.join(","));
+                            }}
+                          />
+                        )}
+                      {uploadedData?.table[0] != undefined && (
+                        <ProjectColumnTemplates
+                          key={sheetNames}
+                          headers={uploadedData.table[0]}
+                          columns={organizedColumns}
+                          onApply={(value) => {
+                            //Any column not in the template is not organized
+                            const columns = {
+                              ...DEFAULT_ORGANIZED_COLUMNS,
+                              ...value,
+                            };
+                            setOrganizeColumns(columns);
+                            localStorage.setItem(
+                              "columns",
+                              JSON.stringify(columns)
+                            );
+                          }}
+                        />
+                      )}
                       <ProjectDataTableEdit
                         uploaded={uploadedData?.table}
                         columns={organizedColumns}
+                        errors={error}
+                        onUpdateCell={(row, column, value) => {
+                          if (uploadedData != undefined) {
+                            //Copy the row so the table updates with the corrected cell
+                            const table = [...uploadedData.table];
+                            const updatedRow = [...(table[row] ?? [])];
+                            updatedRow[column] = value;
+                            table[row] = updatedRow;
+                            setData({ ...uploadedData, table });
+                            setEdited(true);
+                          }
+                        }}
                         onUpdateOrganizedColumns={(value) => {
                           setOrganizeColumns(
                             value as IProjectOrganizedColumnRowNumerical
@@ -649,6 +777,15 @@ const Projects: NextPage = () => {
                       >
                         Finalize
                       </Button>
+                      <Button
+                        type="button"
+                        className="w-full"
+                        disabled={getMissingColumns().length > 0}
+                        loading={createRevisionMutation.isLoading}
+                        onClick={onHandlePreview}
+                      >
+                        Preview
+                      </Button>
                       <Button
                         color="error"
                         type="button"
@@ -698,6 +835,9 @@ const Projects: NextPage = () => {
             setStage(1);
             setResetFlag(true);
             setError(undefined);
+            setEdited(false);
+            setPreview(undefined);
+            setSheetNames("");
             setSelectSchedule(null);
           }}
         />
@@ -714,6 +854,24 @@ const Projects: NextPage = () => {
             setComfirmationDelete(false);
           }}
         />
+        <CloneRevisionModal
+          revision={cloning}
+          onClose={() => {
+            setCloning(undefined);
+          }}
+          onCloned={() => {
+            result.refetch();
+          }}
+        />
+        <RollForwardModal
+          revision={rollingForward}
+          onClose={() => {
+            setRollingForward(undefined);
+          }}
+          onRolledForward={() => {
+            result.refetch();
+          }}
+        />
         <div className="container mx-auto  flex justify-between p-4">
           <p className=" text-3xl font-bold">Recent Project: </p>
 
@@ -721,6 +879,12 @@ const Projects: NextPage = () => {
             <FilePlus size={30} /> Create New Project
           </Button>
         </div>
+        <ProjectsInvites
+          onAccept={() => {
+            result.refetch();
+            listOfSchedule.refetch();
+          }}
+        />
         <ProjectsLayout>
           {result.data != undefined && result.data.result.length > 0 ? (
             result.data?.result.map((data, index) => {
@@ -771,6 +935,22 @@ const Projects: NextPage = () => {
                   }}
                   hasRevision={data.revisions.length > 0}
                   id={data.main.tuid != undefined ? data.main.tuid : "#!"}
+                  scheduleId={data.tuid}
+                  role={data.role}
+                  onRollForward={() => {
+                    if (data.main.tuid != undefined)
+                      setRollingForward({
+                        tuid: data.main.tuid,
+                        name: data.main.name ?? "",
+                      });
+                  }}
+                  onClone={() => {
+                    if (data.main.tuid != undefined)
+                      setCloning({
+                        tuid: data.main.tuid,
+                        name: data.main.name ?? "",
+                      });
+                  }}
                 >
                   {data.revisions.length > 0 ? (
                     data.revisions.map((rev, index) => {
@@ -782,6 +962,13 @@ const Projects: NextPage = () => {
                           setID={setDeleteID}
                           setConfirmation={setComfirmationDelete}
                           id={rev.tuid}
+                          canDelete={data.role == ScheduleRole.OWNER}
+                          onClone={
+                            data.role != ScheduleRole.VIEWER
+                              ? () =>
+                                  setCloning({ tuid: rev.tuid, name: rev.name })
+                              : undefined
+                          }
                         />
                       );
                     })
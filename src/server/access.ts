@@ -0,0 +1,135 @@
+import { type Prisma, ScheduleRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+
+/**
+ * Roles which are allowed to read a schedule
+ */
+export const VIEW_ROLES = [
+  ScheduleRole.OWNER,
+  ScheduleRole.EDITOR,
+  ScheduleRole.VIEWER,
+];
+
+/**
+ * Roles which are allowed to modify a schedule
+ */
+export const EDIT_ROLES = [ScheduleRole.OWNER, ScheduleRole.EDITOR];
+
+/**
+ * Roles which are allowed to share and delete a schedule
+ */
+export const OWNER_ROLES = [ScheduleRole.OWNER];
+
+/**
+ * revisionAccessWhere
+ *
+ * Creates the where condition for any revision the user can access with
+ * one of the given roles. This is either by being on the schedule of the revision,
+ * or by being the creator of the revision (which is needed during onboarding, as
+ * the revision does not have a schedule yet)
+ */
+export const revisionAccessWhere = (
+  user_tuid: string,
+  roles: ScheduleRole[] = VIEW_ROLES
+): Prisma.ScheduleRevisionWhereInput => ({
+  OR: [
+    { creator_tuid: user_tuid, schedule_tuid: null },
+    {
+      schedule: {
+        users: {
+          some: {
+            user_tuid,
+            role: { in: roles },
+          },
+        },
+      },
+    },
+  ],
+});
+
+/**
+ * Gets the role a user has on a schedule, or null if they are not on said schedule
+ */
+export const getScheduleRole = async (
+  user_tuid: string,
+  schedule_tuid: string
+) => {
+  const membership = await prisma.schedulesOnUsers.findUnique({
+    where: {
+      user_tuid_schedule_tuid: {
+        user_tuid,
+        schedule_tuid,
+      },
+    },
+  });
+  return membership?.role ?? null;
+};
+
+/**
+ * Checks if a user can access a revision with one of the given roles
+ */
+export const hasRevisionAccess = async (
+  user_tuid: string,
+  revision_tuid: string,
+  roles: ScheduleRole[] = VIEW_ROLES
+) => {
+  const count = await prisma.scheduleRevision.count({
+    where: {
+      tuid: revision_tuid,
+      ...revisionAccessWhere(user_tuid, roles),
+    },
+  });
+  return count == 1;
+};
+
+/**
+ * Makes sure the user can access a revision with one of the given roles,
+ * if they can not a FORBIDDEN error is thrown
+ */
+export const assertRevisionAccess = async (
+  user_tuid: string,
+  revision_tuid: string,
+  roles: ScheduleRole[] = VIEW_ROLES
+) => {
+  if (!(await hasRevisionAccess(user_tuid, revision_tuid, roles))) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+};
+
+/**
+ * Makes sure the user can access the revision a course is on with one of
+ * the given roles, if they can not a FORBIDDEN error is thrown
+ */
+export const assertCourseAccess = async (
+  user_tuid: string,
+  course_tuid: string,
+  roles: ScheduleRole[] = VIEW_ROLES
+) => {
+  const count = await prisma.course.count({
+    where: {
+      tuid: course_tuid,
+      revision: revisionAccessWhere(user_tuid, roles),
+    },
+  });
+  if (count != 1) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+};
+
+/**
+ * Makes sure the user is on a schedule with one of the given roles, if
+ * they are not a FORBIDDEN error is thrown
+ */
+export const assertScheduleAccess = async (
+  user_tuid: string,
+  schedule_tuid: string,
+  roles: ScheduleRole[] = VIEW_ROLES
+) => {
+  const role = await getScheduleRole(user_tuid, schedule_tuid);
+  if (role == null || !roles.includes(role)) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+};
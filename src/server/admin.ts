@@ -0,0 +1,32 @@
+import { Permissions } from "@prisma/client";
+
+import { env } from "src/env/server.mjs";
+//Get instance of prisma
+import { prisma } from "src/server/db";
+
+/**
+ * grantFirstAdmin
+ * Makes the account with the configured admin email an admin, so someone can grant
+ * permissions to everyone else. This only happens while nobody is an admin, so
+ * the email can not be used to become an admin again once one exists.
+ */
+export const grantFirstAdmin = async (
+  user_tuid: string,
+  email: string | null
+) => {
+  if (
+    env.ADMIN_EMAIL == undefined ||
+    email == null ||
+    email.toLowerCase() != env.ADMIN_EMAIL.toLowerCase()
+  ) {
+    return;
+  }
+  const admins = await prisma.permission.count({
+    where: { id: Permissions.ADMIN },
+  });
+  if (admins == 0) {
+    await prisma.permission.create({
+      data: { user_tuid, id: Permissions.ADMIN },
+    });
+  }
+};
@@ -11,6 +11,9 @@ import { dashboardRouter } from "./routers/dashboard";
 import { reportRouter } from "./routers/report";
 import { subjectRouter } from "./routers/subjects";
 import { departmentRouter } from "./routers/departments";
+import { permissionsRouter } from "./routers/permissions";
+import { schedulesRouter } from "./routers/schedules";
+import { auditRouter } from "./routers/audit";
 /**
  * This is the primary router for your server.
  *
@@ -29,6 +32,9 @@ export const appRouter = createTRPCRouter({
   report: reportRouter,
   subjects: subjectRouter,
   department: departmentRouter,
+  permissions: permissionsRouter,
+  schedules: schedulesRouter,
+  audit: auditRouter,
 });
 
 // export type definition of API
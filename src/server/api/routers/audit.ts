@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+
+import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import {
+  assertRevisionAccess,
+  EDIT_ROLES,
+  VIEW_ROLES,
+} from "src/server/access";
+import {
+  auditChanges,
+  auditSummarySelect,
+  getUndoStack,
+  redoCourseChange,
+  undoCourseChange,
+} from "src/server/audit";
+
+const TOTAL_RESULTS_PER_PAGE = 15;
+
+//Router to view the history of changes made to courses
+export const auditRouter = createTRPCRouter({
+  /**
+   * getCourseHistory
+   * Gets every change made to a single course, newest first
+   */
+  getCourseHistory: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const audits = await ctx.prisma.courseAudit.findMany({
+        where: { course_tuid: input.tuid },
+        select: { ...auditSummarySelect, revision_tuid: true },
+        orderBy: { createdAt: "desc" },
+      });
+
+      //A course only ever belongs to one revision, so check the user can view it
+      const first = audits[0];
+      if (first == undefined) {
+        return [];
+      }
+      await assertRevisionAccess(
+        ctx.session.user.id,
+        first.revision_tuid,
+        VIEW_ROLES
+      );
+
+      return audits.map((audit) => {
+        return { ...audit, changes: auditChanges(audit.changes) };
+      });
+    }),
+
+  /**
+   * getRevisionActivity
+   * Gets the changes made to every course on a revision, newest first, with pagination
+   */
+  getRevisionActivity: protectedProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+        page: z.number().default(1),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      const [audits, auditCount] = await ctx.prisma.$transaction([
+        ctx.prisma.courseAudit.findMany({
+          take: TOTAL_RESULTS_PER_PAGE,
+          skip: (input.page - 1) * TOTAL_RESULTS_PER_PAGE,
+          where: { revision_tuid: input.tuid },
+          select: auditSummarySelect,
+          orderBy: { createdAt: "desc" },
+        }),
+        ctx.prisma.courseAudit.count({ where: { revision_tuid: input.tuid } }),
+      ]);
+
+      return {
+        result: audits.map((audit) => {
+          return {
+            ...audit,
+            changes: auditChanges(audit.changes),
+          };
+        }),
+        page: input.page,
+        totalPages: Math.ceil(auditCount / TOTAL_RESULTS_PER_PAGE),
+      };
+    }),
+
+  /**
+   * getUndoStack
+   * Gets how many changes the current user can undo and redo on a revision
+   */
+  getUndoStack: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+      return await getUndoStack(ctx.session.user.id, input.tuid);
+    }),
+
+  /**
+   * undo
+   * Reverts the latest course change the current user made on a revision
+   */
+  undo: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+      try {
+        const audit = await undoCourseChange(ctx.session.user.id, input.tuid);
+        return { success: audit != null, course: audit?.course };
+      } catch (error) {
+        //Let the user know why, such as the course being changed since
+        if (error instanceof TRPCError) throw error;
+        //The course can not be restored, such as the faculty no longer existing
+        return { success: false, course: undefined };
+      }
+    }),
+
+  /**
+   * redo
+   * Applies the latest course change the current user undid on a revision again
+   */
+  redo: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+      try {
+        const audit = await redoCourseChange(ctx.session.user.id, input.tuid);
+        return { success: audit != null, course: audit?.course };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        return { success: false, course: undefined };
+      }
+    }),
+});
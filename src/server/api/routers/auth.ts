@@ -2,6 +2,7 @@ import { signUpSchema } from "src/validation/auth";
 import { createTRPCRouter, protectedProcedure, publicProcedure } from "../trpc";
 
 import { hash } from "bcryptjs";
+import { grantFirstAdmin } from "src/server/admin";
 
 export const routerAuth = createTRPCRouter({
   signUp: publicProcedure
@@ -24,9 +25,17 @@ export const routerAuth = createTRPCRouter({
       const hashedPassword = await hash(password, 10);
 
       const result = await ctx.prisma.user.create({
-        data: { username, email, department, password: hashedPassword },
+        data: {
+          username,
+          email,
+          department,
+          password: hashedPassword,
+        },
       });
 
+      //The configured account becomes the first admin
+      await grantFirstAdmin(result.id, result.email);
+
       return {
         status: 201,
         message: "Account created successfully",
@@ -51,4 +60,17 @@ export const routerAuth = createTRPCRouter({
     }
     return null;
   }),
+
+  /**
+   * getPermissions
+   * Gets the list of permissions for the current user
+   */
+  getPermissions: protectedProcedure.query(async ({ ctx }) => {
+    const permissions = await ctx.prisma.permission.findMany({
+      where: {
+        user_tuid: ctx.session.user.id,
+      },
+    });
+    return permissions.map((permission) => permission.id);
+  }),
 });
@@ -1,16 +1,26 @@
 import { z } from "zod";
 
-import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "src/server/api/trpc";
 import { GuidelineCampus, GuidelineBuilding } from "@prisma/client";
 import {
   createCampusSchema,
   updateCampusSchema,
   createBuildingSchema,
   updateBuildingSchema,
+  createRoomSchema,
+  updateRoomSchema,
+  findAvailableRoomsSchema,
 } from "src/validation/buildings";
 import { Prisma } from "@prisma/client";
 import { prisma } from "src/server/db";
 import { orderBy } from "lodash";
+import { expandClassrooms, hasClassroom } from "src/utils/rooms";
+import { findAvailableRooms } from "src/server/rooms";
+import { assertRevisionAccess, VIEW_ROLES } from "src/server/access";
 
 const TOTAL_RESULTS_PER_PAGE = 10;
 
@@ -84,7 +94,7 @@ export const buildingsRouter = createTRPCRouter({
       };
     }),
 
-  addCampus: protectedProcedure
+  addCampus: adminProcedure
     .input(createCampusSchema)
     .mutation(async ({ ctx, input }) => {
       const campus = await ctx.prisma.guidelineCampus.create({
@@ -96,7 +106,7 @@ export const buildingsRouter = createTRPCRouter({
       return campus;
     }),
 
-  deleteCampus: protectedProcedure
+  deleteCampus: adminProcedure
     .input(
       z.object({
         tuid: z.string(),
@@ -135,7 +145,7 @@ export const buildingsRouter = createTRPCRouter({
       return false;
     }),
 
-  updateCampus: protectedProcedure
+  updateCampus: adminProcedure
     .input(updateCampusSchema)
     .mutation(async ({ ctx, input }) => {
       //Find if the campus exists
@@ -160,6 +170,28 @@ export const buildingsRouter = createTRPCRouter({
       return false;
     }),
 
+  //Get a list of campuses for a dropdown menu
+  getCampusList: protectedProcedure
+    .input(
+      z.object({
+        search: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const campuses = await ctx.prisma.guidelineCampus.findMany({
+        where: {
+          ...(input.search != "" ? { name: { contains: input.search } } : {}),
+        },
+        orderBy: {
+          name: "asc",
+        },
+      });
+      return campuses.map((campus) => ({
+        label: campus.name,
+        value: campus.tuid,
+      }));
+    }),
+
   getCampus: protectedProcedure
     .input(
       z.object({
@@ -294,7 +326,7 @@ export const buildingsRouter = createTRPCRouter({
       });
     }),
 
-  addBuilding: protectedProcedure
+  addBuilding: adminProcedure
     .input(createBuildingSchema)
     .mutation(async ({ ctx, input }) => {
       // Add a new building
@@ -314,7 +346,7 @@ export const buildingsRouter = createTRPCRouter({
       };
     }),
 
-  deleteBuilding: protectedProcedure
+  deleteBuilding: adminProcedure
     .input(
       z.object({
         tuid: z.string(),
@@ -354,7 +386,7 @@ export const buildingsRouter = createTRPCRouter({
       return false;
     }),
 
-  updateBuilding: protectedProcedure
+  updateBuilding: adminProcedure
     .input(updateBuildingSchema)
     .mutation(async ({ ctx, input }) => {
       // Find if the building exists
@@ -372,6 +404,7 @@ export const buildingsRouter = createTRPCRouter({
           data: {
             name: input.name,
             prefix: input.prefix,
+            classrooms: input.classrooms,
           },
         });
         return true;
@@ -397,4 +430,212 @@ export const buildingsRouter = createTRPCRouter({
         building,
       };
     }),
+
+  // Rooms ----------------------------------------------------------------------------------------
+
+  /**
+   * getRooms
+   * Gets the rooms of a building, with their seats and features, with pagination
+   */
+  getRooms: protectedProcedure
+    .input(
+      z.object({
+        building_tuid: z.string(),
+        page: z.number().default(1),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const [rooms, roomCount] = await ctx.prisma.$transaction([
+        ctx.prisma.guidelineRoom.findMany({
+          take: TOTAL_RESULTS_PER_PAGE,
+          skip: (input.page - 1) * TOTAL_RESULTS_PER_PAGE,
+          where: {
+            building_tuid: input.building_tuid,
+          },
+          orderBy: {
+            room: "asc",
+          },
+        }),
+        ctx.prisma.guidelineRoom.count({
+          where: {
+            building_tuid: input.building_tuid,
+          },
+        }),
+      ]);
+
+      return {
+        result: rooms,
+        page: input.page,
+        totalPages: Math.ceil(roomCount / TOTAL_RESULTS_PER_PAGE),
+      };
+    }),
+
+  /**
+   * getBuildingRooms
+   * Gets every room of a building from its classroom list, along with the seats
+   * and features of said room if they have been added. Any added room which is
+   * not in the classroom list is included, but flagged as not in range.
+   */
+  getBuildingRooms: protectedProcedure
+    .input(
+      z.object({
+        building_tuid: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const building = await ctx.prisma.guidelineBuilding.findUnique({
+        where: {
+          tuid: input.building_tuid,
+        },
+        include: {
+          classroom_list: true,
+        },
+      });
+      if (building == null) {
+        return [];
+      }
+
+      const rooms = expandClassrooms(building.classrooms).map((room) => {
+        const details = building.classroom_list.find(
+          (value) => value.room.toLowerCase() == room
+        );
+        return {
+          room,
+          capacity: details?.capacity ?? null,
+          has_lab: details?.has_lab ?? false,
+          has_projector: details?.has_projector ?? false,
+          is_accessible: details?.is_accessible ?? false,
+          in_range: true,
+        };
+      });
+
+      //Add the rooms that are no longer in the classroom list so they can be fixed
+      const outside = building.classroom_list
+        .filter((room) => !hasClassroom(building.classrooms, room.room))
+        .map((room) => {
+          return {
+            room: room.room,
+            capacity: room.capacity as number | null,
+            has_lab: room.has_lab,
+            has_projector: room.has_projector,
+            is_accessible: room.is_accessible,
+            in_range: false,
+          };
+        });
+
+      return [...rooms, ...outside];
+    }),
+
+  /**
+   * findAvailableRooms
+   * Gets every room that is not booked by another course on a revision at
+   * the given days and time, optionally filtered by campus, building, seats and features
+   */
+  findAvailableRooms: protectedProcedure
+    .input(findAvailableRoomsSchema)
+    .query(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(
+        ctx.session.user.id,
+        input.revision_tuid,
+        VIEW_ROLES
+      );
+      return await findAvailableRooms(input);
+    }),
+
+  addRoom: adminProcedure
+    .input(createRoomSchema)
+    .mutation(async ({ ctx, input }) => {
+      //A room can only be added once to a building, and must be one of its classrooms
+      const [hasRoom, building] = await ctx.prisma.$transaction([
+        ctx.prisma.guidelineRoom.count({
+          where: {
+            building_tuid: input.building_tuid,
+            room: input.room,
+          },
+        }),
+        ctx.prisma.guidelineBuilding.findUnique({
+          where: {
+            tuid: input.building_tuid,
+          },
+        }),
+      ]);
+      if (
+        hasRoom > 0 ||
+        building == null ||
+        !hasClassroom(building.classrooms, input.room)
+      ) {
+        return false;
+      }
+
+      await ctx.prisma.guidelineRoom.create({
+        data: input,
+      });
+      return true;
+    }),
+
+  updateRoom: adminProcedure
+    .input(updateRoomSchema)
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the room exists, its new number is not used by another room
+      //and is one of the classrooms of the building
+      const [hasRoom, hasDuplicate, building] = await ctx.prisma.$transaction([
+        ctx.prisma.guidelineRoom.count({
+          where: {
+            tuid: input.tuid,
+          },
+        }),
+        ctx.prisma.guidelineRoom.count({
+          where: {
+            building_tuid: input.building_tuid,
+            room: input.room,
+            NOT: { tuid: input.tuid },
+          },
+        }),
+        ctx.prisma.guidelineBuilding.findUnique({
+          where: {
+            tuid: input.building_tuid,
+          },
+        }),
+      ]);
+      if (
+        hasRoom == 1 &&
+        hasDuplicate == 0 &&
+        building != null &&
+        hasClassroom(building.classrooms, input.room)
+      ) {
+        const { tuid, ...data } = input;
+        await ctx.prisma.guidelineRoom.update({
+          where: {
+            tuid,
+          },
+          data,
+        });
+        return true;
+      }
+      return false;
+    }),
+
+  deleteRoom: adminProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const hasRoom = await ctx.prisma.guidelineRoom.count({
+        where: {
+          tuid: input.tuid,
+        },
+      });
+      if (hasRoom == 1) {
+        await ctx.prisma.guidelineRoom.delete({
+          where: {
+            tuid: input.tuid,
+          },
+        });
+        return true;
+      }
+      return false;
+    }),
 });
@@ -4,39 +4,64 @@ import {
   Prisma,
   type ScheduleRevision,
   CourseState,
+  CourseAuditAction,
 } from "@prisma/client";
 import { flatten } from "lodash";
+import { TRPCError } from "@trpc/server";
 
 //Get instance of prisma
 import { prisma } from "src/server/db";
 
 import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import {
+  assertCourseAccess,
+  assertRevisionAccess,
+  EDIT_ROLES,
+  hasRevisionAccess,
+  revisionAccessWhere,
+  VIEW_ROLES,
+} from "src/server/access";
 import { createCourseSchema } from "src/server/api/routers/projects";
 import {
   calendarCourseSchema,
   Semesters,
+  suggestCourseSlotsSchema,
+  proposeAutoScheduleSchema,
+  applyAutoScheduleSchema,
   type ICalendarCourseSchema,
 } from "src/validation/calendar";
 import { IScheduleCourseWithTimes } from "src/pages/dashboard/[scheduleId]/schedule/calendar/CalendarCourseListing";
+import {
+  findFacultyConflictsForCourse,
+  findRevisionFacultyConflicts,
+  findRevisionRoomConflicts,
+  findRoomConflictsForCourse,
+  roomConflictsToMessage,
+  type IConflictCandidate,
+} from "src/server/conflicts";
+import { type ILocationDay } from "src/utils/calendar";
+import { getCourseSnapshot, recordCourseAudit } from "src/server/audit";
+import {
+  assertRoomsInBuildings,
+  findRoomCapacityWarnings,
+} from "src/server/rooms";
+import { getGuidelineSlotPatterns, rankSlotPatterns } from "src/server/slots";
+import {
+  evaluateCourseGuidelines,
+  getSemesterGuidelines,
+  type IGuidelineEvaluation,
+} from "src/server/guidelines";
+import {
+  applyAutoSchedule,
+  getUnscheduledCourses,
+  proposeAutoSchedule,
+} from "src/server/autoSchedule";
+import { findFacultyLoadWarnings } from "src/server/workload";
+import { findFacultyPreferenceWarnings } from "src/server/availability";
+import { coursesOnDay, queryRevisionCourses } from "src/server/revisionCourses";
 
 // Validation -----------------------------------------------------------------------------------------------------
 
-// Essentially creates a new data tyoe built to store comprehensive queries for the calendar
-const revisionWithCourses = Prisma.validator<Prisma.ScheduleRevisionArgs>()({
-  include: {
-    courses: {
-      include: {
-        faculty: {
-          include: { faculty: true },
-        },
-        locations: {
-          include: { rooms: { include: { building: true } } },
-        },
-      },
-    },
-  },
-});
-
 /**
  * courseWithRelationships
  * Get a course schema types which includes the relationships
@@ -71,11 +96,6 @@ export type CourseWithLocationsFacultyAndNotes = Prisma.CourseGetPayload<
   typeof courseWithRelationships
 >;
 
-//Export type from Prisma
-export type RevisionWithCourses = Prisma.ScheduleRevisionGetPayload<
-  typeof revisionWithCourses
->;
-
 /**
  * ICourseSchemaWithMetadata
  *
@@ -122,6 +142,21 @@ export type IScheduleCourse = Prisma.CourseGetPayload<typeof courseType>;
 // Routers --------------------------------------------------------------------------------------------------------
 
 export const calendarRouter = createTRPCRouter({
+  /**
+   * canEditRevision
+   * Checks if the user can make changes to a revision, so the calendar only
+   * offers changes (ex: dragging courses, undo and redo) to those who can
+   */
+  canEditRevision: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return await hasRevisionAccess(
+        ctx.session.user.id,
+        input.tuid,
+        EDIT_ROLES
+      );
+    }),
+
   // This will grab one revision by tuid and return all courses attached to it, organized by days of the week
   getRevision: protectedProcedure
     .input(
@@ -162,201 +197,61 @@ export const calendarRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
-      // Running queries to find all courses on a specific revision that occur on a specific day. There is one of these queries
-      // for each day of the week (A course that is taught on both Monday and Wednesday will appear in both queries, and so on)
-
-      // Throw all of these into a transaction
-      const monday_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input, "day_monday");
-      const tuesday_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input, "day_tuesday");
-      const wednesday_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input, "day_wednesday");
-      const thursday_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input, "day_thursday");
-      const friday_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input, "day_friday");
-      const saturday_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input, "day_saturday");
-      const sunday_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input, "day_sunday");
-
-      const online_courses: RevisionWithCourses | null =
-        await queryCoursesByDay(input);
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      //Load every course of the revision once, and the guidelines of the semester once,
+      //then sort the courses into each day in memory
+      const [revision, guidelines] = await Promise.all([
+        queryRevisionCourses(input, ctx.prisma),
+        getSemesterGuidelines(input),
+      ]);
+      if (revision == null) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Revision not found",
+        });
+      }
 
       // Use the semester input booleans to return what specific semester we are looking for
       const semester = getSemester(input);
 
-      const coursesWithinAGuideline = async (
-        revision: RevisionWithCourses | null
-      ) => {
-        if (revision == null) {
-          //console.log(revision);
-        }
-        const out = await Promise.all(
-          revision!.courses.map(async (course) => {
-            //Check to make sure at least one location has a monday
-            const hasMonday = course.locations.some((location) => {
-              return location.day_monday === true;
-            });
-
-            //Check to make sure at least one location has a tuesday
-            const hasTuesday = course.locations.some((location) => {
-              return location.day_tuesday == true;
-            });
-            //Check to make sure at least one location has a wednesday
-            const hasWednesday = course.locations.some((location) => {
-              return location.day_wednesday == true;
-            });
-            //Check to make sure at least one location has a thursday
-            const hasThursday = course.locations.some((location) => {
-              return location.day_thursday == true;
-            });
-            //Check to make sure at least one location has a friday
-            const hasFriday = course.locations.some((location) => {
-              return location.day_friday == true;
-            });
-            //Check to make sure at least one location has a saturday
-            const hasSaturday = course.locations.some((location) => {
-              return location.day_saturday == true;
-            });
-            //Check to make sure at least one location has a sunday
-            const hasSunday = course.locations.some((location) => {
-              return location.day_sunday == true;
-            });
-
-            //check the semester variable for each semester to get a true
-            //or false value to be used in the guideline query below
-            const hasFall = semester === "FA";
-            const hasWinter = semester === "WI";
-            const hasSpring = semester === "SP";
-            const hasSummer = semester === "SU";
-
-            //Get the total amount of meetings that a course has by adding to a
-            //total sum if it occurs on a day of the week
-            const totalMeetings = course.locations
-              .map((location) => {
-                let total = 0;
-                if (location.day_monday === true) total++;
-                if (location.day_tuesday === true) total++;
-                if (location.day_wednesday === true) total++;
-                if (location.day_thursday === true) total++;
-                if (location.day_friday === true) total++;
-                if (location.day_saturday === true) total++;
-                if (location.day_sunday === true) total++;
-                return total;
-              })
-              .reduce((sum, value) => {
-                return sum + value;
-              }, 0);
-            //console.log({ totalMeetings });
-            //Query each course to the guidelines course model
-            const result = await ctx.prisma.guidelinesCourses.count({
-              where: {
-                AND: [
-                  {
-                    //Ensure that whichever semester is true for the
-                    //course is also true for a guideline, only one will be true
-                    OR: [
-                      hasFall ? { semester_fall: true } : {},
-                      hasWinter ? { semester_winter: true } : {},
-                      hasSpring ? { semester_spring: true } : {},
-                      hasSummer ? { semester_summer: true } : {},
-                    ],
-                  },
-                  {
-                    credits: course.credits,
-                    meeting_amount: totalMeetings,
-                  },
-                  {
-                    days: {
-                      some: {
-                        OR: [
-                          ...course.locations.map((location) => {
-                            const hasMonday = location.day_monday;
-                            const hasTuesday = location.day_tuesday;
-                            const hasWednesday = location.day_wednesday;
-                            const hasThursday = location.day_thursday;
-                            const hasFriday = location.day_friday;
-                            const hasSaturday = location.day_saturday;
-                            const hasSunday = location.day_sunday;
-                            return {
-                              //for every day in the course guideline,
-                              //compare the guideline for each day to true,
-                              //if the has'day' from above returns true
-                              ...(hasMonday ? { day_monday: true } : {}),
-                              ...(hasTuesday ? { day_tuesday: true } : {}),
-                              ...(hasWednesday ? { day_wednesday: true } : {}),
-                              ...(hasThursday ? { day_thursday: true } : {}),
-                              ...(hasFriday ? { day_friday: true } : {}),
-                              ...(hasSaturday ? { day_saturday: true } : {}),
-                              ...(hasSunday ? { day_sunday: true } : {}),
-                            };
-                          }),
-                        ],
-                      },
-                    },
-                  },
-                  {
-                    times: {
-                      some: {
-                        //Grabs the times from each location associated with the course
-                        //Uncomment once merged and database CourseLocation has times as Ints
-                        OR: [
-                          ...course.locations.map((location) => {
-                            return {
-                              start_time: location.start_time,
-                              end_time: location.end_time,
-                            };
-                          }),
-                        ],
-                        // start_time: course.start_time,
-                        // end_time: course.end_time,
-                      },
-                    },
-                  },
-                ],
-              },
-            });
-
-            //Get all course data but also add a new boolean value to
-            //make sure its within the course guideline
-            const output = {
-              withinGuideline: result > 0,
-              ...course,
-            } as IScheduleCourse & { withinGuideline: boolean }; //use Partial to get around the Promise
-
-            return output;
-          })
-        );
-
-        return out;
-      };
+      //Check each course against each rule of the guidelines only once, as a
+      //course which meets on more than one day is in more than one day list
+      const evaluations = new Map<string, IGuidelineEvaluation>();
+      const coursesWithinAGuideline = (day: ILocationDay) =>
+        coursesOnDay(revision, input.buildings, day).map((course) => {
+          const guideline =
+            evaluations.get(course.tuid) ??
+            evaluateCourseGuidelines(course, guidelines);
+          evaluations.set(course.tuid, guideline);
+
+          //Get all course data but also add a new boolean value to
+          //make sure its within the course guideline, and why its not
+          return {
+            withinGuideline: guideline.withinGuideline,
+            guideline,
+            ...course,
+          } as IScheduleCourse & {
+            withinGuideline: boolean;
+            guideline: IGuidelineEvaluation;
+          };
+        });
 
-      // const within = {
-      //   monday_courses: await coursesWithinAGuideline(monday_courses),
-      //   tuesday_courses: await coursesWithinAGuideline(tuesday_courses),
-      //   wednesday_courses: await coursesWithinAGuideline(wednesday_courses),
-      //   thursday_courses: await coursesWithinAGuideline(thursday_courses),
-      //   friday_courses: await coursesWithinAGuideline(friday_courses),
-      //   saturday_courses: await coursesWithinAGuideline(saturday_courses),
-      //   sunday_courses: await coursesWithinAGuideline(sunday_courses),
-      // };
-
-      // Send the client back the ame of the revision, the semester, and the results of each of the course-by-day queries
+      // Send the client back the name of the revision, the semester, and the courses of each day
       const out = {
-        revision_name: monday_courses?.name,
+        revision_name: revision.name,
         semesters: semester,
-        monday_courses: await coursesWithinAGuideline(monday_courses),
-        tuesday_courses: await coursesWithinAGuideline(tuesday_courses),
-        wednesday_courses: await coursesWithinAGuideline(wednesday_courses),
-        thursday_courses: await coursesWithinAGuideline(thursday_courses),
-        friday_courses: await coursesWithinAGuideline(friday_courses),
-        saturday_courses: await coursesWithinAGuideline(saturday_courses),
-        sunday_courses: await coursesWithinAGuideline(sunday_courses),
-        online: (online_courses?.courses as IScheduleCourseWithTimes[]).map(
-          (course) => ({ ...course, withinGuideline: false })
-        ),
+        monday_courses: coursesWithinAGuideline("day_monday"),
+        tuesday_courses: coursesWithinAGuideline("day_tuesday"),
+        wednesday_courses: coursesWithinAGuideline("day_wednesday"),
+        thursday_courses: coursesWithinAGuideline("day_thursday"),
+        friday_courses: coursesWithinAGuideline("day_friday"),
+        saturday_courses: coursesWithinAGuideline("day_saturday"),
+        sunday_courses: coursesWithinAGuideline("day_sunday"),
+        online: (
+          coursesOnDay(revision, input.buildings) as IScheduleCourseWithTimes[]
+        ).map((course) => ({ ...course, withinGuideline: false })),
       };
 
       //console.log(out);
@@ -374,12 +269,28 @@ export const calendarRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const course = await ctx.prisma.course.findUnique({
-        where: {
-          tuid: input.tuid,
-        },
-      });
+      //Make sure the user can edit the revision of said course
+      await assertCourseAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+
+      const course = await getCourseSnapshot(input.tuid);
       if (course !== null) {
+        //A restored course goes back on the calendar, so check it like any other change
+        if (course.state == CourseState.REMOVED) {
+          await assertRoomsInBuildings(
+            course.locations.flatMap((location) => location.rooms)
+          );
+          const conflicts = await findRoomConflictsForCourse(
+            course.revision_tuid,
+            course
+          );
+          if (conflicts.length > 0) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: roomConflictsToMessage(conflicts),
+            });
+          }
+        }
+
         await ctx.prisma.course.update({
           where: {
             tuid: input.tuid,
@@ -391,6 +302,17 @@ export const calendarRouter = createTRPCRouter({
                 : CourseState.REMOVED,
           },
         });
+
+        //Keep track of who removed (or restored) the course
+        await recordCourseAudit({
+          user_tuid: ctx.session.user.id,
+          action:
+            course.state == CourseState.REMOVED
+              ? CourseAuditAction.RESTORED
+              : CourseAuditAction.REMOVED,
+          before: course,
+          after: await getCourseSnapshot(input.tuid),
+        });
       }
     }),
 
@@ -402,6 +324,9 @@ export const calendarRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx, input }) => {
+      //Make sure the user can view the revision of said course
+      await assertCourseAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
       const course: CourseWithLocationsFacultyAndNotes | null =
         //Query a course where the tuid is at the current tuid
         await ctx.prisma.course.findUnique({
@@ -559,6 +484,9 @@ export const calendarRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
       const revisionWithCourses = await ctx.prisma.scheduleRevision.findUnique({
         where: {
           tuid: input.tuid,
@@ -589,6 +517,13 @@ export const calendarRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(
+        ctx.session.user.id,
+        input.revision,
+        VIEW_ROLES
+      );
+
       //Get each semester count
       const [sp, fa, wi, su, name] = await ctx.prisma.$transaction([
         //Spring
@@ -687,11 +622,9 @@ export const calendarRouter = createTRPCRouter({
    * @author Brendan Fuller
    */
   getSemesters: protectedProcedure.query(async ({ ctx, input }) => {
-    //Get the list of revision by the current user
+    //Get the list of revisions the current user can view
     const schedules = await ctx.prisma.scheduleRevision.findMany({
-      where: {
-        creator_tuid: ctx.session.user.id,
-      },
+      where: revisionAccessWhere(ctx.session.user.id),
       //Make sure to include the courses
       include: {
         courses: true,
@@ -780,6 +713,9 @@ export const calendarRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx, input }) => {
+      //Make sure the user can edit said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+
       //
 
       const locations = input.course.locations.map((location) => {
@@ -813,8 +749,24 @@ export const calendarRouter = createTRPCRouter({
         };
       });
       const course = input.course;
+
+      //Make sure the rooms of the course exist in their buildings
+      await assertRoomsInBuildings(courseRooms(course));
+
+      //Make sure the course does not double book any rooms on the revision
+      const conflicts = await findRoomConflictsForCourse(
+        input.tuid,
+        courseToConflictCandidate(course)
+      );
+      if (conflicts.length > 0) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: roomConflictsToMessage(conflicts),
+        });
+      }
+
       //If parse was successful then...
-      await ctx.prisma.course.create({
+      const created = await ctx.prisma.course.create({
         data: {
           revision: {
             connect: {
@@ -881,6 +833,13 @@ export const calendarRouter = createTRPCRouter({
           },
         },
       });
+
+      await recordCourseAudit({
+        user_tuid: ctx.session.user.id,
+        action: CourseAuditAction.ADDED,
+        before: null,
+        after: await getCourseSnapshot(created.tuid),
+      });
       return true;
     }),
 
@@ -927,6 +886,44 @@ export const calendarRouter = createTRPCRouter({
 
       const course = input;
 
+      //Get the revision the course is on, so it can be checked for conflicts
+      const existing = await ctx.prisma.course.findUnique({
+        where: {
+          tuid: input.tuid,
+        },
+        select: {
+          revision_tuid: true,
+        },
+      });
+      if (existing == null) {
+        return false;
+      }
+
+      //Make sure the user can edit the revision of said course
+      await assertRevisionAccess(
+        ctx.session.user.id,
+        existing.revision_tuid,
+        EDIT_ROLES
+      );
+
+      //Make sure the rooms of the course exist in their buildings
+      await assertRoomsInBuildings(courseRooms(course));
+
+      //Make sure the course does not double book any rooms on the revision
+      const conflicts = await findRoomConflictsForCourse(
+        existing.revision_tuid,
+        courseToConflictCandidate(course)
+      );
+      if (conflicts.length > 0) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: roomConflictsToMessage(conflicts),
+        });
+      }
+
+      //Snapshot the course before it is changed for the history
+      const before = await getCourseSnapshot(input.tuid ?? "");
+
       await ctx.prisma.$transaction([
         //First delete all of te faculty relationships to the curse
         ctx.prisma.guidelinesFacultyToCourse.deleteMany({
@@ -1016,8 +1013,335 @@ export const calendarRouter = createTRPCRouter({
           },
         }),
       ]);
+
+      await recordCourseAudit({
+        user_tuid: ctx.session.user.id,
+        action: CourseAuditAction.UPDATED,
+        before,
+        after: await getCourseSnapshot(input.tuid ?? ""),
+      });
       return true;
     }),
+
+  /**
+   * getConflicts
+   * Gets every room that is double booked on a revision for a semester
+   */
+  getConflicts: protectedProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+        semester_fall: z.boolean().default(false),
+        semester_winter: z.boolean().default(false),
+        semester_spring: z.boolean().default(false),
+        semester_summer: z.boolean().default(false),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      const conflicts = await findRevisionRoomConflicts(input.tuid, input);
+
+      //Get the buildings for said conflicts so they can be displayed by name
+      const buildings = await ctx.prisma.guidelineBuilding.findMany({
+        where: {
+          tuid: {
+            in: conflicts.map((conflict) => conflict.building_tuid),
+          },
+        },
+      });
+
+      return conflicts.map((conflict) => ({
+        ...conflict,
+        building: buildings.find(
+          (building) => building.tuid == conflict.building_tuid
+        ),
+      }));
+    }),
+
+  /**
+   * getFacultyConflicts
+   * Gets every faculty member that is double booked (or does not have enough
+   * time between courses) on a revision for a semester
+   */
+  getFacultyConflicts: protectedProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+        semester_fall: z.boolean().default(false),
+        semester_winter: z.boolean().default(false),
+        semester_spring: z.boolean().default(false),
+        semester_summer: z.boolean().default(false),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      const conflicts = await findRevisionFacultyConflicts(input.tuid, input);
+      return await withFacultyNames(conflicts);
+    }),
+
+  /**
+   * getCourseFacultyConflicts
+   * Checks a course from the course modal (which may not be saved yet) for
+   * any faculty conflicts on the revision
+   */
+  getCourseFacultyConflicts: protectedProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+        course: calendarCourseSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      const conflicts = await findFacultyConflictsForCourse(
+        input.tuid,
+        courseToConflictCandidate(input.course)
+      );
+      return await withFacultyNames(conflicts);
+    }),
+
+  /**
+   * getCourseRoomWarnings
+   * Checks a course from the course modal (which may not be saved yet) for any
+   * assigned rooms which do not have enough seats for the capacity of the course
+   */
+  getCourseRoomWarnings: protectedProcedure
+    .input(
+      z.object({
+        course: calendarCourseSchema,
+      })
+    )
+    .mutation(async ({ input }) => {
+      return await findRoomCapacityWarnings(
+        input.course.capacity,
+        courseRooms(input.course)
+      );
+    }),
+
+  /**
+   * getCourseFacultyLoadWarnings
+   * Checks if assigning a course from the course modal (which may not be saved yet)
+   * to its faculty would push them over the credit limits of their type
+   */
+  getCourseFacultyLoadWarnings: protectedProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+        course: calendarCourseSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      return await findFacultyLoadWarnings(input.tuid, {
+        ...courseToConflictCandidate(input.course),
+        credits: input.course.credits,
+      });
+    }),
+
+  /**
+   * getCourseFacultyPreferenceWarnings
+   * Checks a course from the course modal (which may not be saved yet) against
+   * the qualified courses, times and campuses of its faculty
+   */
+  getCourseFacultyPreferenceWarnings: protectedProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+        course: calendarCourseSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      return await findFacultyPreferenceWarnings(
+        courseToConflictCandidate(input.course)
+      );
+    }),
+
+  /**
+   * getCourseGuidelineEvaluation
+   * Checks a course from the course modal (which may not be saved yet) against
+   * each rule of the course guidelines for its semester
+   */
+  getCourseGuidelineEvaluation: protectedProcedure
+    .input(
+      z.object({
+        course: calendarCourseSchema,
+      })
+    )
+    .mutation(async ({ input }) => {
+      const candidate = courseToConflictCandidate(input.course);
+      return evaluateCourseGuidelines(
+        { credits: input.course.credits, locations: candidate.locations },
+        await getSemesterGuidelines(candidate)
+      );
+    }),
+
+  /**
+   * getGuidelineTimes
+   * Gets the times of every course guideline for a semester, which are the
+   * slots a course snaps to when it is dragged on the calendar
+   */
+  getGuidelineTimes: protectedProcedure
+    .input(
+      z.object({
+        semester_fall: z.boolean().default(false),
+        semester_winter: z.boolean().default(false),
+        semester_spring: z.boolean().default(false),
+        semester_summer: z.boolean().default(false),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const times = await ctx.prisma.guidelinesCoursesTimes.findMany({
+        where: {
+          guideline: {
+            OR: [
+              input.semester_fall ? { semester_fall: true } : {},
+              input.semester_winter ? { semester_winter: true } : {},
+              input.semester_spring ? { semester_spring: true } : {},
+              input.semester_summer ? { semester_summer: true } : {},
+            ].filter((value) => Object.keys(value).length > 0),
+          },
+        },
+        select: {
+          start_time: true,
+          end_time: true,
+          guideline: { select: { credits: true } },
+        },
+        orderBy: { start_time: "asc" },
+      });
+      return times.map((time) => ({
+        start_time: time.start_time,
+        end_time: time.end_time,
+        credits: time.guideline.credits,
+      }));
+    }),
+
+  /**
+   * previewCourseMove
+   * Checks a course that is being dragged to a new time (but is not saved yet)
+   * against the guidelines and for any room or faculty conflicts
+   */
+  previewCourseMove: protectedProcedure
+    .input(
+      z.object({
+        tuid: z.string(),
+        course: calendarCourseSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      const candidate = courseToConflictCandidate(input.course);
+      const [guidelines, roomConflicts, facultyConflicts] = await Promise.all([
+        getSemesterGuidelines(candidate),
+        findRoomConflictsForCourse(input.tuid, candidate),
+        findFacultyConflictsForCourse(input.tuid, candidate),
+      ]);
+
+      return {
+        withinGuideline: evaluateCourseGuidelines(
+          { credits: input.course.credits, locations: candidate.locations },
+          guidelines
+        ).withinGuideline,
+        roomConflicts,
+        facultyConflicts: await withFacultyNames(facultyConflicts),
+      };
+    }),
+
+  /**
+   * suggestCourseSlots
+   * Gets every day and time pattern from the course guidelines for the credits
+   * and semester of a course, ranked by how few room and faculty conflicts the
+   * course would have at each on the revision
+   */
+  suggestCourseSlots: protectedProcedure
+    .input(suggestCourseSlotsSchema)
+    .query(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      const semester = {
+        semester_fall: input.semester == Semesters.FALL,
+        semester_winter: input.semester == Semesters.WINTER,
+        semester_spring: input.semester == Semesters.SPRING,
+        semester_summer: input.semester == Semesters.SUMMER,
+      };
+      const patterns = await getGuidelineSlotPatterns(input.credits, semester);
+      return await rankSlotPatterns(
+        input.tuid,
+        {
+          tuid: input.course_tuid,
+          subject: "",
+          course_number: "",
+          section: "",
+          start_date: input.start_date,
+          end_date: input.end_date,
+          ...semester,
+          faculty: input.faculty_tuid
+            ? [{ faculty_tuid: input.faculty_tuid }]
+            : [],
+        },
+        input.rooms,
+        patterns
+      );
+    }),
+
+  /**
+   * getUnscheduledCourses
+   * Gets every course on a revision which has not been given days or times
+   * yet, which are the courses the auto scheduler places by default
+   */
+  getUnscheduledCourses: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .query(async ({ ctx, input }) => {
+      //Make sure the user can view said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+      return await getUnscheduledCourses(input.tuid);
+    }),
+
+  /**
+   * proposeAutoSchedule
+   * Finds guideline days, times and rooms for the chosen courses, which are
+   * returned as a diff to be accepted or rejected and are not saved
+   */
+  proposeAutoSchedule: protectedProcedure
+    .input(proposeAutoScheduleSchema)
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the user can edit said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+      return await proposeAutoSchedule({
+        revision_tuid: input.tuid,
+        course_tuids: input.course_tuids,
+        building_tuids: input.building_tuids,
+      });
+    }),
+
+  /**
+   * applyAutoSchedule
+   * Saves the accepted placements from the auto scheduler
+   */
+  applyAutoSchedule: protectedProcedure
+    .input(applyAutoScheduleSchema)
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the user can edit said revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+      return await applyAutoSchedule(
+        ctx.session.user.id,
+        input.tuid,
+        input.placements
+      );
+    }),
 });
 
 // Methods --------------------------------------------------------------------------------------------------------
@@ -1038,127 +1362,69 @@ function getSemester(input: {
   return semester;
 }
 
-// Function contains the query logic for finding courses attahced to a revision by day. The query is the same for each day, apart from the
-// actual day being searched
-async function queryCoursesByDay(
-  input: {
-    faculty?: string[] | undefined;
-    credits?: number | undefined;
-    buildings?: string[] | undefined;
-    departments?: string[] | undefined;
-    tuid: string;
-    semester_summer: boolean;
-    semester_fall: boolean;
-    semester_winter: boolean;
-    semester_spring: boolean;
-    days: {
-      monday: boolean;
-      tuesday: boolean;
-      wednesday: boolean;
-      thursday: boolean;
-      friday: boolean;
-      saturday: boolean;
-      sunday: boolean;
-    };
-    minRoomNum: string;
-    maxRoomNum: string;
-  },
-  day?: string
-) {
-  const coursesByDay: RevisionWithCourses | null =
-    // Query will find a revision based on tuid, then will find every course linked to that revision on the specified day, along with the faculty
-    // teaching each course and the location(s)/time(s) the course is taught on the specified day (If a course is taught on Monday in one location
-    // and on Wednesday in another location, only the Monday location will result from the Monday query, and so on)
-    await prisma.scheduleRevision.findUnique({
-      where: {
-        tuid: input.tuid,
-      },
-      include: {
-        courses: {
-          where: {
-            // Filter by a list of faculty tuids if it was provided by the client
-            ...(input.faculty
-              ? { faculty: { some: { faculty_tuid: { in: input.faculty } } } }
-              : {}),
-
-            // Filter by a list of department codes if it was provided by the client
-            ...(input.departments
-              ? { department: { in: input.departments } }
-              : {}),
-
-            // Filter by a certain number of credit hours if it was provided by the client
-            ...(input.credits ? { credits: input.credits } : {}),
-
-            // Filter by course location...
-            locations: {
-              some: {
-                // ...if a course is taught in any location on a certain day
-
-                ...(day != undefined
-                  ? {
-                      [day]: {
-                        equals: true,
-                      },
-                    }
-                  : {
-                      OR: [
-                        {
-                          is_online: true,
-                        },
-                      ],
-                    }),
-
-                // ...and if a course is taught in any location present within a list of buildings, if
-                // said list of buildings is provided by the client
-                ...(input.buildings
-                  ? {
-                      rooms: {
-                        some: { building_tuid: { in: input.buildings } },
-                      },
-                    }
-                  : {}),
+/**
+ * Converts a course from the calendar form into the format used when
+ * checking for any conflicts
+ */
+function courseToConflictCandidate(
+  course: ICalendarCourseSchema
+): IConflictCandidate {
+  return {
+    tuid: course.tuid,
+    subject: course.subject.name,
+    course_number: course.course_number,
+    section: course.section.toString(),
+    start_date: course.start_date,
+    end_date: course.end_date,
+    semester_fall: course.semester == Semesters.FALL,
+    semester_winter: course.semester == Semesters.WINTER,
+    semester_spring: course.semester == Semesters.SPRING,
+    semester_summer: course.semester == Semesters.SUMMER,
+    faculty: course.faculty?.faculty_tuid
+      ? [{ faculty_tuid: course.faculty.faculty_tuid }]
+      : [],
+    locations: course.locations.map((location) => ({
+      ...location,
+      //Only a room with a building can be booked
+      rooms:
+        location.rooms?.room && location.rooms?.building?.buiding_tuid
+          ? [
+              {
+                building_tuid: location.rooms.building.buiding_tuid,
+                room: location.rooms.room.toString(),
               },
-            },
+            ]
+          : [],
+    })),
+  };
+}
 
-            // Filter by semesters
-            semester_fall: input.semester_fall,
-            semester_winter: input.semester_winter,
-            semester_spring: input.semester_spring,
-            semester_summer: input.semester_summer,
-          },
+/**
+ * Gets every room (with a building) assigned to a course from the calendar form
+ */
+function courseRooms(course: ICalendarCourseSchema) {
+  return courseToConflictCandidate(course).locations.flatMap(
+    (location) => location.rooms
+  );
+}
 
-          include: {
-            faculty: {
-              include: {
-                faculty: true,
-              },
-            },
-            locations: {
-              ...(day != undefined
-                ? {
-                    where: {
-                      OR: [
-                        {
-                          is_online: false,
-                        },
-                      ],
-                    },
-                  }
-                : {}),
-              include: {
-                rooms: {
-                  include: {
-                    building: day != undefined,
-                  },
-                },
-              },
-            },
-          },
-        },
+/**
+ * Adds the name of the faculty member to each faculty conflict
+ */
+async function withFacultyNames<T extends { faculty_tuid: string }>(
+  conflicts: T[]
+) {
+  const faculty = await prisma.guidelinesFaculty.findMany({
+    where: {
+      tuid: {
+        in: conflicts.map((conflict) => conflict.faculty_tuid),
       },
-    });
-
-  return coursesByDay;
+    },
+  });
+  return conflicts.map((conflict) => ({
+    ...conflict,
+    faculty: faculty.find((value) => value.tuid == conflict.faculty_tuid)?.name,
+  }));
 }
 
 /**
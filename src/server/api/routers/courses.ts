@@ -1,14 +1,20 @@
 import { z } from "zod";
 //import { set } from "date-fns";
 
-import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
-import { Prisma } from "@prisma/client";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "src/server/api/trpc";
+import { CourseAuditAction, Prisma } from "@prisma/client";
 import {
   guidelineCourseAddSchema,
   guidelineCourseUpdateSchema,
 } from "src/validation/courses";
 import { cssTransition } from "react-toastify";
 import militaryToTime from "src/utils/time";
+import { assertCourseAccess, EDIT_ROLES } from "src/server/access";
+import { getCourseSnapshot, recordCourseAudit } from "src/server/audit";
 
 //Imports course guidelines schema with days and times
 const courseGuidelinesTD = Prisma.validator<Prisma.GuidelinesCoursesArgs>()({
@@ -265,7 +271,7 @@ export const coursesRouter = createTRPCRouter({
     }),
 
   //Procedure to add course guideline
-  addCourseGuideline: protectedProcedure
+  addCourseGuideline: adminProcedure
     .input(guidelineCourseAddSchema) //Takes input from zod validator
     .mutation(async ({ ctx, input }) => {
       //Query to create a new course guideline
@@ -303,6 +309,9 @@ export const coursesRouter = createTRPCRouter({
   forceDeleteCourse: protectedProcedure
     .input(z.object({ tuid: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      //Only editors of the revision can delete the course
+      await assertCourseAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+
       //Counts the number of results in the course guidelines table based on the passed tuid
       const hasCourse = await ctx.prisma.course.count({
         where: {
@@ -312,6 +321,9 @@ export const coursesRouter = createTRPCRouter({
 
       //Checks to see if the course  exists and if there is only 1
       if (hasCourse == 1) {
+        //Snapshot the course so the history still has it once deleted
+        const before = await getCourseSnapshot(input.tuid);
+
         //Delete all days associated with the one guideline
         await ctx.prisma.course.delete({
           //Where tuid  matches
@@ -320,6 +332,13 @@ export const coursesRouter = createTRPCRouter({
           },
         });
 
+        await recordCourseAudit({
+          user_tuid: ctx.session.user.id,
+          action: CourseAuditAction.DELETED,
+          before,
+          after: null,
+        });
+
         //Returns if the delete was successful
         return true;
       }
@@ -327,7 +346,7 @@ export const coursesRouter = createTRPCRouter({
       return false;
     }),
 
-  deleteCourseGuideline: protectedProcedure
+  deleteCourseGuideline: adminProcedure
     .input(
       z.object({
         tuid: z.string(),
@@ -372,7 +391,7 @@ export const coursesRouter = createTRPCRouter({
       return false;
     }),
 
-  updateCourseGuideline: protectedProcedure
+  updateCourseGuideline: adminProcedure
     .input(guidelineCourseUpdateSchema)
     .mutation(async ({ ctx, input }) => {
       //Checks to see if the guideline exists by searching for the tuid in a count query
@@ -1,5 +1,6 @@
 import { signUpSchema } from "src/validation/auth";
 import { createTRPCRouter, protectedProcedure, publicProcedure } from "../trpc";
+import { assertRevisionAccess, VIEW_ROLES } from "src/server/access";
 
 import { z } from "zod";
 
@@ -11,6 +12,12 @@ export const dashboardRouter = createTRPCRouter({
       })
     )
     .query(async ({ input, ctx }) => {
+      await assertRevisionAccess(
+        ctx.session.user.id,
+        input.revision_tuid,
+        VIEW_ROLES
+      );
+
       //Query the revision from the tuid
       const revision = await ctx.prisma.scheduleRevision.findFirst({
         where: { tuid: input.revision_tuid },
@@ -27,4 +34,40 @@ export const dashboardRouter = createTRPCRouter({
         };
       }
     }),
+
+  /**
+   * getScheduleRevisions
+   * Gets the other revisions on the same schedule as the given revision,
+   * newest first, so they can be compared
+   */
+  getScheduleRevisions: protectedProcedure
+    .input(
+      z.object({
+        revision_tuid: z.string(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      await assertRevisionAccess(
+        ctx.session.user.id,
+        input.revision_tuid,
+        VIEW_ROLES
+      );
+
+      const revision = await ctx.prisma.scheduleRevision.findUnique({
+        where: { tuid: input.revision_tuid },
+        select: { schedule_tuid: true },
+      });
+      if (revision?.schedule_tuid == null) {
+        return [];
+      }
+
+      return await ctx.prisma.scheduleRevision.findMany({
+        where: {
+          schedule_tuid: revision.schedule_tuid,
+          tuid: { not: input.revision_tuid },
+        },
+        select: { tuid: true, name: true, updatedAt: true },
+        orderBy: { updatedAt: "desc" },
+      });
+    }),
 });
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import {
+  adminProcedure,
   createTRPCRouter,
   protectedProcedure,
   publicProcedure,
@@ -20,7 +21,7 @@ export const departmentRouter = createTRPCRouter({
    * Add Department protected procedure to add a single department
    * @author Chris Bellefeuille
    */
-  addDepartment: protectedProcedure
+  addDepartment: adminProcedure
     .input(createDepartmentsSchema)
     //async mutation to create a new department
     .mutation(async ({ ctx, input }) => {
@@ -38,7 +39,7 @@ export const departmentRouter = createTRPCRouter({
    * Delete Department protected procedure to delete a single department
    * @author Chris Bellefeuille
    */
-  deleteDepartment: protectedProcedure
+  deleteDepartment: adminProcedure
     .input(
       z.object({
         tuid: z.string(),
@@ -70,7 +71,7 @@ export const departmentRouter = createTRPCRouter({
    * Update Department protected procedure to update a single department based on the given TUID
    * @author Chris Bellefeuille
    */
-  updateDepartment: protectedProcedure
+  updateDepartment: adminProcedure
     .input(updateDepartmentsSchema)
     .mutation(async ({ ctx, input }) => {
       //Find if the department exists
@@ -1,11 +1,25 @@
 import { z } from "zod";
-import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import {
+  chairProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "src/server/api/trpc";
 import {
   createFacultySchema,
   createFacultySchemaWithTUID,
   createFacultySchemaTUID,
+  facultyLoadSchema,
+  facultyPreferencesSchema,
+  rankCourseFacultySchema,
 } from "src/validation/faculty";
 import type { GuidelinesFaculty } from "@prisma/client";
+import { getFacultyLoadLimits } from "src/server/workload";
+import {
+  getFacultyPreferences,
+  rankCourseFaculty,
+  updateFacultyPreferences,
+} from "src/server/availability";
+import { assertRevisionAccess, EDIT_ROLES } from "src/server/access";
 
 /**
  * Faculty router that will add, delete, update, and get faculty from database
@@ -16,13 +30,13 @@ export const facultyRouter = createTRPCRouter({
    * Add faculty protected procedure to add a single faculty member to the database
    * @author Chris Bellefeuille
    */
-  addFaculty: protectedProcedure
+  addFaculty: chairProcedure
     //use the zod object schema from validation/faculty
     .input(createFacultySchema)
     //async mutation to create a new faculty memeber
     .mutation(async ({ ctx, input }) => {
       //await the creation of the faculty member
-      await ctx.prisma.guidelinesFaculty.create({
+      const faculty = await ctx.prisma.guidelinesFaculty.create({
         //store the input from client in the data field to be written to database
         data: {
           suffix: input.suffix,
@@ -32,15 +46,15 @@ export const facultyRouter = createTRPCRouter({
           department: input.department,
         },
       });
-      //faculty has been added
-      return true;
+      //faculty has been added, which is returned so its tuid can be used
+      return { result: faculty };
     }),
 
   /**
    * Delete one faculty protected procedure to delete a single faculty memeber with the given TUID
    * @author Chris Bellefeuille
    */
-  deleteOneFaculty: protectedProcedure
+  deleteOneFaculty: chairProcedure
     //here we will take in just the tuid as an input from client
     .input(createFacultySchemaTUID)
     //async mutation to handle the deletion
@@ -191,7 +205,7 @@ export const facultyRouter = createTRPCRouter({
    * the client and return the updated faculty member
    * @author Chris Bellefeuille
    */
-  updateFaculty: protectedProcedure
+  updateFaculty: chairProcedure
     //grab client input using the withTuid schema found in validation/faculty.ts
     .input(createFacultySchemaWithTUID)
     //async mutation to run the update
@@ -268,4 +282,68 @@ export const facultyRouter = createTRPCRouter({
         }; //Returns the data mapped to the label and values needed
       });
     }),
+
+  /**
+   * getFacultyLoadLimits
+   * Gets the credit limits of full time and adjunct faculty, per semester and per academic year
+   */
+  getFacultyLoadLimits: protectedProcedure.query(async () => {
+    return await getFacultyLoadLimits();
+  }),
+
+  /**
+   * updateFacultyLoadLimits
+   * Sets the credit limits of either full time or adjunct faculty
+   */
+  updateFacultyLoadLimits: chairProcedure
+    .input(facultyLoadSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { is_adjunct, ...limits } = input;
+      await ctx.prisma.guidelineFacultyLoad.upsert({
+        where: {
+          is_adjunct,
+        },
+        create: input,
+        update: limits,
+      });
+      return true;
+    }),
+
+  /**
+   * getFacultyPreferences
+   * Gets the unavailable and preferred times, preferred campuses and qualified
+   * courses of a faculty member, which only those who manage them can see
+   */
+  getFacultyPreferences: chairProcedure
+    .input(createFacultySchemaTUID)
+    .query(async ({ input }) => {
+      return await getFacultyPreferences(input.tuid);
+    }),
+
+  /**
+   * updateFacultyPreferences
+   * Replaces the times, campuses and qualified courses of a faculty member
+   */
+  updateFacultyPreferences: chairProcedure
+    .input(facultyPreferencesSchema)
+    .mutation(async ({ input }) => {
+      return await updateFacultyPreferences(input);
+    }),
+
+  /**
+   * getRankedCourseFaculty
+   * Finds faculty for a course by their name and department, with the faculty
+   * qualified and available to teach the course first. Only users who can edit the
+   * revision of the course see how each faculty member fits it.
+   */
+  getRankedCourseFaculty: protectedProcedure
+    .input(rankCourseFacultySchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertRevisionAccess(
+        ctx.session.user.id,
+        input.revision_tuid,
+        EDIT_ROLES
+      );
+      return await rankCourseFaculty(input);
+    }),
 });
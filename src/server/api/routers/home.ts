@@ -9,6 +9,7 @@ import {
   Prisma,
 } from "@prisma/client";
 import { prisma } from "src/server/db";
+import { assertRevisionAccess, VIEW_ROLES } from "src/server/access";
 
 // Validation -----------------------------------------------------------------------------------------------------
 
@@ -48,6 +49,8 @@ export const homeRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
       // Count total faculty members that are teaching courses on a specific revision
 
       let facultyCount = 0;
@@ -85,6 +88,8 @@ export const homeRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
       // Count total courses on a specific revision
       const coursesCount = await ctx.prisma.course.count({
         where: {
@@ -101,6 +106,8 @@ export const homeRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
       // Search for all courses with the ADDED state on a specific revision
       const addedCourses: IScheduleCourse[] = await ctx.prisma.course.findMany({
         where: {
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { Permissions, Prisma } from "@prisma/client";
+
+import { adminProcedure, createTRPCRouter } from "src/server/api/trpc";
+import { modifyPermissionSchema } from "src/validation/permissions";
+
+const TOTAL_RESULTS_PER_PAGE = 10;
+
+/**
+ * userWithPermissions
+ * Gets a user with the list of permissions
+ */
+const userWithPermissions = Prisma.validator<Prisma.UserArgs>()({
+  select: {
+    id: true,
+    username: true,
+    email: true,
+    department: true,
+    permissions: true,
+  },
+});
+
+//Export type from Prisma
+export type UserWithPermissions = Prisma.UserGetPayload<
+  typeof userWithPermissions
+>;
+
+//Router to grant and revoke permissions of users
+export const permissionsRouter = createTRPCRouter({
+  /**
+   * getAllUsers
+   * Gets a list of users with their permissions, with pagination and search
+   */
+  getAllUsers: adminProcedure
+    .input(
+      z.object({
+        search: z.string().default(""),
+        page: z.number().default(1),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      //Search by the username or email if provided
+      const where: Prisma.UserWhereInput =
+        input.search != ""
+          ? {
+              OR: [
+                { username: { contains: input.search } },
+                { email: { contains: input.search } },
+              ],
+            }
+          : {};
+
+      const [users, userCount] = await ctx.prisma.$transaction([
+        ctx.prisma.user.findMany({
+          take: TOTAL_RESULTS_PER_PAGE,
+          skip: (input.page - 1) * TOTAL_RESULTS_PER_PAGE,
+          where,
+          ...userWithPermissions,
+        }),
+        ctx.prisma.user.count({ where }),
+      ]);
+
+      return {
+        result: users as UserWithPermissions[],
+        page: input.page,
+        totalPages: Math.ceil(userCount / TOTAL_RESULTS_PER_PAGE),
+      };
+    }),
+
+  /**
+   * grantPermission
+   * Gives a user a permission, if they do not already have it
+   */
+  grantPermission: adminProcedure
+    .input(modifyPermissionSchema)
+    .mutation(async ({ ctx, input }) => {
+      //Make sure the user exists
+      const hasUser = await ctx.prisma.user.count({
+        where: {
+          id: input.user_tuid,
+        },
+      });
+      if (hasUser != 1) {
+        return false;
+      }
+
+      //Do they already have said permission?
+      const hasPermission = await ctx.prisma.permission.count({
+        where: {
+          user_tuid: input.user_tuid,
+          id: input.permission,
+        },
+      });
+      if (hasPermission == 0) {
+        await ctx.prisma.permission.create({
+          data: {
+            user_tuid: input.user_tuid,
+            id: input.permission,
+          },
+        });
+      }
+      return true;
+    }),
+
+  /**
+   * revokePermission
+   * Removes a permission from a user. An admin can not remove their
+   * own admin permission, so there is always at least one admin.
+   */
+  revokePermission: adminProcedure
+    .input(modifyPermissionSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (
+        input.user_tuid == ctx.session.user.id &&
+        input.permission == Permissions.ADMIN
+      ) {
+        return false;
+      }
+      await ctx.prisma.permission.deleteMany({
+        where: {
+          user_tuid: input.user_tuid,
+          id: input.permission,
+        },
+      });
+      return true;
+    }),
+});
@@ -5,12 +5,39 @@ import { z } from "zod";
 import XlsxPopulate from "xlsx-populate";
 
 //Import Prisma (type object reference)
-import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  CourseState,
+  Prisma,
+  PrismaClient,
+  ScheduleRole,
+} from "@prisma/client";
 
 //Import Prisma for indirect access that's not by the TRPC context
 import { prisma } from "src/server/db";
 //Import all required information for TRPC for making APIs
-import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import {
+  adminProcedure,
+  chairProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "src/server/api/trpc";
+//Import the access checks for schedules shared between users
+import {
+  assertRevisionAccess,
+  assertScheduleAccess,
+  EDIT_ROLES,
+  OWNER_ROLES,
+  revisionAccessWhere,
+  VIEW_ROLES,
+} from "src/server/access";
+import { diffRevisions } from "src/server/diff";
+import {
+  courseSemester,
+  courseToExcelRow,
+  getSemesterWindows,
+  rollForwardCourseInclude,
+  shiftDates,
+} from "src/server/rollForward";
 
 import FormData from "form-data";
 import axios from "axios";
@@ -23,18 +50,29 @@ import {
   createRevisionSchemaTUID,
   type IProjectOrganizedColumnRow,
   type IProjectsExcelCourseSchema,
+  type IProjectImportError,
+  type IProjectImportPreview,
+  importFacultyMappingSchema,
+  importBuildingMappingSchema,
+  columnTemplateSchema,
   excelCourseSchema,
 } from "src/validation/projects";
 
-import { type IProjectOrganizedColumnRowNumerical } from "src/validation/projects.frontend";
+import {
+  type IProjectOrganizedColumnRowNumerical,
+  cloneRevisionSchema,
+  rollForwardRevisionSchema,
+} from "src/validation/projects.frontend";
 
 //Import Node-XLSX for manupulating excel files (reading, and writing)
 import xlsx from "node-xlsx";
 
 import ExcelJS from "exceljs";
 import { ICalendarCourseSchema } from "src/validation/calendar";
-import { IScheduleCourse, RevisionWithCourses } from "./calendar";
+import { IScheduleCourse } from "./calendar";
+import { RevisionWithCourses } from "src/server/revisionCourses";
 import militaryToTime from "src/utils/time";
+import { type IColumnTemplateHeaders } from "src/utils/columns";
 import { Readable } from "stream";
 
 /**
@@ -48,7 +86,7 @@ import { Readable } from "stream";
 type ExcelDataColumns = Array<Array<string | undefined>>;
 
 const scheduleWithRevisions = Prisma.validator<Prisma.ScheduleArgs>()({
-  include: { revisions: true },
+  include: { revisions: true, users: true },
 });
 
 /**
@@ -88,14 +126,186 @@ export const projectsRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
       const columns = await exportExcelFileToStorage(input.tuid);
       return columns;
     }),
+
+  /**
+   * diffRevisions
+   * Compares two revisions, reporting the courses which were added, removed
+   * or changed going from revision `a` to revision `b`
+   */
+  diffRevisions: protectedProcedure
+    .input(
+      z.object({
+        a: z.string(),
+        b: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.a, VIEW_ROLES);
+      await assertRevisionAccess(ctx.session.user.id, input.b, VIEW_ROLES);
+      return await diffRevisions(input.a, input.b);
+    }),
+
+  /**
+   * cloneRevision
+   * Deep copies a revision (courses, locations, rooms, faculty and notes) into a
+   * new revision on the same schedule, which allows for what-if scenarios
+   * without having to upload the excel file again
+   */
+  cloneRevision: protectedProcedure
+    .input(cloneRevisionSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+
+      const revision = await ctx.prisma.scheduleRevision.findUnique({
+        where: { tuid: input.tuid },
+        include: {
+          courses: { include: courseWithRelations.include },
+        },
+      });
+
+      //A revision still onboarding has nothing to clone
+      if (revision == null || revision.onboarding) {
+        return { success: false, tuid: null };
+      }
+
+      const clone = await ctx.prisma.scheduleRevision.create({
+        data: {
+          name: input.name,
+          //Keep the file and organized columns so the clone can be exported
+          file: revision.file,
+          organizedColumns: revision.organizedColumns ?? {},
+          onboarding: false,
+          creator_tuid: ctx.session.user.id,
+          schedule_tuid: revision.schedule_tuid,
+          courses: {
+            create: revision.courses.map((course) => cloneCourseSchema(course)),
+          },
+        },
+      });
+      return { success: true, tuid: clone.tuid };
+    }),
+
+  /**
+   * getRollForwardWindows
+   * Gets the current term and date window of each semester on a revision, which
+   * are the defaults when rolling the revision forward
+   */
+  getRollForwardWindows: protectedProcedure
+    .input(createRevisionSchemaTUID)
+    .query(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
+      const courses = await ctx.prisma.course.findMany({
+        where: { revision_tuid: input.tuid },
+        include: rollForwardCourseInclude,
+      });
+      return {
+        term: Math.max(0, ...courses.map((course) => course.term)),
+        windows: getSemesterWindows(courses),
+      };
+    }),
+
+  /**
+   * rollForwardRevision
+   * Creates a new revision for the next term from an existing one. The term is
+   * advanced, the dates of each semester are moved into the given windows, every
+   * course is marked as unmodified, and optionally removed courses are dropped.
+   */
+  rollForwardRevision: protectedProcedure
+    .input(rollForwardRevisionSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+
+      const revision = await ctx.prisma.scheduleRevision.findUnique({
+        where: { tuid: input.tuid },
+        include: {
+          courses: {
+            where: input.drop_removed
+              ? { state: { not: CourseState.REMOVED } }
+              : {},
+            include: rollForwardCourseInclude,
+          },
+        },
+      });
+      if (revision == null || revision.onboarding) {
+        return { success: false, errors: ["Revision does not exist"] };
+      }
+
+      //Each course needs the window of its semester to be moved into
+      const sourceWindows = getSemesterWindows(revision.courses);
+      for (const source of sourceWindows) {
+        if (!input.windows.some((item) => item.semester == source.semester)) {
+          return {
+            success: false,
+            errors: [
+              `No dates were given for ${source.semester.toLowerCase()}`,
+            ],
+          };
+        }
+      }
+
+      //Create the revision first so the courses can be added to it
+      const rolled = await ctx.prisma.scheduleRevision.create({
+        data: {
+          name: input.name,
+          file: revision.file,
+          organizedColumns: revision.organizedColumns ?? {},
+          creator_tuid: ctx.session.user.id,
+          schedule_tuid: revision.schedule_tuid,
+        },
+      });
+
+      try {
+        await ctx.prisma.$transaction([
+          ...revision.courses.map((course) => {
+            const semester = courseSemester(course);
+            const source = sourceWindows.find(
+              (item) => item.semester == semester
+            );
+            const target = input.windows.find(
+              (item) => item.semester == semester
+            );
+            const row = courseToExcelRow(course);
+            const args = createCourseSchema(
+              {
+                ...row,
+                term: input.term,
+                ...(source && target ? shiftDates(course, source, target) : {}),
+              },
+              { tuid: rolled.tuid }
+            );
+            //Keep the section as is, the excel row stores it as a number
+            args.data.section = course.section;
+            return ctx.prisma.course.create(args);
+          }),
+          //The revision is done once all the courses are added
+          ctx.prisma.scheduleRevision.update({
+            where: { tuid: rolled.tuid },
+            data: { onboarding: false },
+          }),
+        ]);
+      } catch (error) {
+        await ctx.prisma.scheduleRevision.delete({
+          where: { tuid: rolled.tuid },
+        });
+        return { success: false, errors: ["Failed to roll forward courses"] };
+      }
+      return { success: true, errors: [], tuid: rolled.tuid };
+    }),
+
   getMainSchedule: protectedProcedure.query(async ({ ctx }) => {
     const scheduleResult = await ctx.prisma.schedule.findMany({
+      //Only schedules the user can add revisions to
       where: {
-        revisions: {
-          every: { creator_tuid: ctx.session.user.id },
+        users: {
+          some: {
+            user_tuid: ctx.session.user.id,
+            role: { in: EDIT_ROLES },
+          },
         },
       },
       include: {
@@ -133,9 +343,10 @@ export const projectsRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const hasRevision = await ctx.prisma.scheduleRevision.count({
         //check based on the client input of tuid
+        //only owners of the schedule can delete a revision
         where: {
-          creator_tuid: ctx.session.user.id,
           tuid: input.tuid,
+          ...revisionAccessWhere(ctx.session.user.id, OWNER_ROLES),
         },
       });
       if (hasRevision == 1) {
@@ -170,6 +381,7 @@ export const projectsRouter = createTRPCRouter({
           // //We start at 0
           // skip: (input.page - 1) * 10,
           where: {
+            users: { some: { user_tuid: ctx.session.user.id } },
             revisions: {
               every: { name: { contains: input.search } },
             },
@@ -180,6 +392,7 @@ export const projectsRouter = createTRPCRouter({
                 updatedAt: "desc",
               },
             },
+            users: { where: { user_tuid: ctx.session.user.id } },
           },
         });
       } else {
@@ -190,7 +403,7 @@ export const projectsRouter = createTRPCRouter({
           // //We start at 0
           // skip: input.page * 10,
           where: {
-            revisions: { some: { creator_tuid: ctx.session.user.id } },
+            users: { some: { user_tuid: ctx.session.user.id } },
           },
           include: {
             revisions: {
@@ -198,6 +411,7 @@ export const projectsRouter = createTRPCRouter({
                 updatedAt: "desc",
               },
             },
+            users: { where: { user_tuid: ctx.session.user.id } },
           },
         });
       }
@@ -207,6 +421,9 @@ export const projectsRouter = createTRPCRouter({
         result: scheduleResult.reverse().map((s) => {
           const [main, ...revisions] = s.revisions;
           return {
+            tuid: s.tuid,
+            //The role the current user has on the schedule
+            role: s.users[0]?.role ?? ScheduleRole.VIEWER,
             main: {
               name: main?.name,
               tuid: main?.tuid,
@@ -286,7 +503,15 @@ export const projectsRouter = createTRPCRouter({
   createScheduleRevision: protectedProcedure
     .input(createRevisionOnboarding)
     .mutation(async ({ ctx, input }) => {
-      //Create a list of campuses from the type generated by prisma
+      //Make sure the user can modify the revision, and the schedule it is being added to
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, EDIT_ROLES);
+      if (input.schedule != null) {
+        await assertScheduleAccess(
+          ctx.session.user.id,
+          input.schedule,
+          EDIT_ROLES
+        );
+      }
 
       const count = await ctx.prisma.scheduleRevision.count({
         where: { tuid: input.tuid },
@@ -298,14 +523,28 @@ export const projectsRouter = createTRPCRouter({
         const revision = await ctx.prisma.scheduleRevision.findUnique({
           where: { tuid: input.tuid },
         });
-        //Parse the excel file from the database
+        //Parse the excel file from the database, unless the user corrected the cells of the sheet
         //TODO: Make sure this doesn't error out. NOTE: This should be check in the uploadExcel api ideally.
-        const results = xlsx.parse(revision?.file);
+        const results =
+          input.table != undefined
+            ? [{ name: revision?.name ?? "", data: input.table }]
+            : xlsx.parse(revision?.file);
 
         //Check if we have the sheet from the file
         if (results[0] != undefined) {
           const sheet = results[0];
           const columns = sheet?.data as ExcelDataColumns;
+          //The corrected sheet replaces the uploaded file, so it is what gets exported later on
+          const file =
+            input.table != undefined
+              ? xlsx.build([
+                  {
+                    name: sheet.name.substring(0, 30),
+                    data: input.table,
+                    options: {},
+                  },
+                ])
+              : undefined;
 
           //console.log({ invertedNestedOrganizedColumns });
 
@@ -315,22 +554,38 @@ export const projectsRouter = createTRPCRouter({
             ctx.prisma
           );
 
-          let valid = true;
-          let errors: z.ZodError;
+          const errors: IProjectImportError[] = [];
 
-          //Make sure every single course row is safely parsed
+          //Make sure every single course row is safely parsed, collecting the errors of all of them
           for (const row of formattedColumns) {
             //console.log(row);
             if (row != undefined) {
               const result = await excelCourseSchema.safeParseAsync(row);
               //console.log({ result, row, json: JSON.stringify(row) });
               if (result.success == false) {
-                valid = false;
-                errors = result.error;
-                return { success: false, errors: errors.flatten() };
+                errors.push(
+                  ...result.error.issues.map((issue) => ({
+                    excelRow: row.excelRow ?? -1,
+                    column: importErrorColumn(issue.path),
+                    message: issue.message,
+                  }))
+                );
               }
             }
           }
+          const valid = errors.length == 0;
+          //A dry run only returns what would be created, even with errors
+          if (input.dry_run) {
+            return {
+              success: valid,
+              errors,
+              preview: await previewImport(formattedColumns, ctx.prisma),
+            };
+          }
+          //Nothing is added until every row is valid
+          if (!valid) {
+            return { success: false, errors };
+          }
           //TODO: Validate the input tuid for the Revision, also do we already have courses on this revision?
           //Don't want to add any extra course
           //Make sure all are valid before we actually enter them all into the database
@@ -352,6 +607,7 @@ export const projectsRouter = createTRPCRouter({
                     name: input.name,
                     onboarding: false,
                     organizedColumns: input.columns,
+                    ...(file != undefined ? { file } : {}),
                   },
                 }),
                 //Add all courses in the current transaction
@@ -378,6 +634,14 @@ export const projectsRouter = createTRPCRouter({
                           tuid: input.tuid,
                         },
                       },
+                      //The creator of the schedule is its owner
+                      users: {
+                        create: {
+                          user_tuid: ctx.session.user.id,
+                          assignedBy: ctx.session.user.id,
+                          role: ScheduleRole.OWNER,
+                        },
+                      },
                     },
                   }),
                   //Update the name of the revision and make them
@@ -390,6 +654,7 @@ export const projectsRouter = createTRPCRouter({
                       name: input.name,
                       onboarding: false,
                       organizedColumns: input.columns,
+                      ...(file != undefined ? { file } : {}),
                     },
                   }),
                   //Add all courses in the current transaction
@@ -410,10 +675,191 @@ export const projectsRouter = createTRPCRouter({
         }
       }
       //Do we have a search query
-      return { success: false, errrors: ["Somthing went wrong..."] };
+      return {
+        success: false,
+        errors: [
+          { excelRow: -1, column: "", message: "Somthing went wrong..." },
+        ] as IProjectImportError[],
+      };
+    }),
+
+  /**
+   * mapImportFaculty
+   * Remembers which faculty member a faculty name of an imported sheet is, so the
+   * name is found on this and any future imports
+   */
+  mapImportFaculty: chairProcedure
+    .input(importFacultyMappingSchema)
+    .mutation(async ({ ctx, input }) => {
+      const name = input.name.trim().toLowerCase();
+      await ctx.prisma.importFacultyMapping.upsert({
+        where: { name },
+        create: { name, faculty_tuid: input.faculty_tuid },
+        update: { faculty_tuid: input.faculty_tuid },
+      });
+      return true;
+    }),
+
+  /**
+   * mapImportBuilding
+   * Remembers which building a building prefix of an imported sheet is, so the
+   * prefix is found on this and any future imports
+   */
+  mapImportBuilding: adminProcedure
+    .input(importBuildingMappingSchema)
+    .mutation(async ({ ctx, input }) => {
+      const prefix = input.prefix.trim().toUpperCase();
+      await ctx.prisma.importBuildingMapping.upsert({
+        where: { prefix },
+        create: { prefix, building_tuid: input.building_tuid },
+        update: { building_tuid: input.building_tuid },
+      });
+      return true;
+    }),
+
+  /**
+   * getColumnTemplates
+   * Gets the column templates of the user, used to organize the columns of an upload
+   */
+  getColumnTemplates: protectedProcedure.query(async ({ ctx }) => {
+    const templates = await ctx.prisma.columnTemplate.findMany({
+      where: { user_tuid: ctx.session.user.id },
+      orderBy: { name: "asc" },
+    });
+    return templates.map((template) => ({
+      tuid: template.tuid,
+      name: template.name,
+      headers: template.headers as IColumnTemplateHeaders,
+    }));
+  }),
+
+  /**
+   * saveColumnTemplate
+   * Saves the headers each column is organized by as a template of the user, replacing
+   * the template with the same name
+   */
+  saveColumnTemplate: protectedProcedure
+    .input(columnTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      await ctx.prisma.columnTemplate.upsert({
+        where: {
+          user_tuid_name: { user_tuid: ctx.session.user.id, name: input.name },
+        },
+        create: {
+          user_tuid: ctx.session.user.id,
+          name: input.name,
+          headers: input.headers,
+        },
+        update: {
+          headers: input.headers,
+        },
+      });
+      return true;
+    }),
+
+  /**
+   * deleteColumnTemplate
+   * Deletes a column template of the user
+   */
+  deleteColumnTemplate: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.prisma.columnTemplate.deleteMany({
+        where: { tuid: input.tuid, user_tuid: ctx.session.user.id },
+      });
+      return result.count > 0;
     }),
 });
 
+/**
+ * importErrorColumn
+ * Gets the column of the sheet which an issue of a course row came from
+ */
+const importErrorColumn = (path: Array<string | number>) => {
+  const [key, , nested, , field] = path;
+  //The locations are split from the building, room, times and days of the row
+  if (key == "locations") {
+    if (nested == "rooms") {
+      return field == "room" ? "room" : "building";
+    }
+    return nested == "start_time" || nested == "end_time" ? nested : "days";
+  }
+  //The semesters come from the term, which is also where the course wide checks are shown
+  if (key == undefined || `${key}`.startsWith("semester_")) {
+    return "term";
+  }
+  return `${key}`;
+};
+
+/**
+ * previewImport
+ * Summarizes the courses which would be created from the rows of a sheet, including
+ * the faculty and buildings which could not be found
+ */
+const previewImport = async (
+  rows: Partial<IProjectsExcelCourseSchema>[],
+  ctxPrisma: PrismaClient
+): Promise<IProjectImportPreview> => {
+  //Unknown faculty and buildings are left as their name and prefix when organized
+  const facultyNames = [
+    ...new Set(
+      rows.flatMap((row) =>
+        (row.faculty ?? []).map((faculty) => faculty.faculty_tuid)
+      )
+    ),
+  ];
+  const buildingPrefixes = [
+    ...new Set(
+      rows.flatMap((row) =>
+        (row.locations ?? []).flatMap((location) =>
+          location.rooms.map((room) => room.building_tuid)
+        )
+      )
+    ),
+  ];
+  const [faculty, buildings] = await Promise.all([
+    ctxPrisma.guidelinesFaculty.findMany({
+      where: { tuid: { in: facultyNames } },
+      select: { tuid: true },
+    }),
+    ctxPrisma.guidelineBuilding.findMany({
+      where: { tuid: { in: buildingPrefixes } },
+      select: { tuid: true },
+    }),
+  ]);
+  const facultyTuids = faculty.map((value) => value.tuid);
+  const buildingTuids = buildings.map((value) => value.tuid);
+
+  return {
+    total: rows.length,
+    semesters: {
+      FA: rows.filter((row) => row.semester_fall).length,
+      WI: rows.filter((row) => row.semester_winter).length,
+      SP: rows.filter((row) => row.semester_spring).length,
+      SU: rows.filter((row) => row.semester_summer).length,
+    },
+    unknown_faculty: facultyNames.filter(
+      (name) => !facultyTuids.includes(name)
+    ),
+    unknown_buildings: buildingPrefixes.filter(
+      (prefix) => !buildingTuids.includes(prefix)
+    ),
+    online_rows: rows
+      .filter((row) => row.locations?.some((location) => location.is_online))
+      .map((row) => row.excelRow ?? -1),
+    zero_time_rows: rows
+      .filter((row) =>
+        row.locations?.some(
+          (location) =>
+            !location.is_online &&
+            location.start_time == 0 &&
+            location.end_time == 0
+        )
+      )
+      .map((row) => row.excelRow ?? -1),
+  };
+};
+
 const excelErrorMap: z.ZodErrorMap = (error, ctx) => {
   /*
   This is where you override the various error codes
@@ -535,6 +981,72 @@ export const createCourseSchema = (
   } as Prisma.CourseCreateArgs;
 };
 
+/**
+ * courseWithRelations
+ * A course with everything that is copied when cloning a revision
+ */
+const courseWithRelations = Prisma.validator<Prisma.CourseArgs>()({
+  include: {
+    faculty: true,
+    locations: { include: { rooms: true } },
+    notes: true,
+  },
+});
+
+type CourseWithRelations = Prisma.CourseGetPayload<typeof courseWithRelations>;
+
+/**
+ * cloneCourseSchema
+ * Creates the nested create data for an exact copy of a course, to be
+ * used when creating a new revision
+ */
+export const cloneCourseSchema = (
+  course: CourseWithRelations
+): Prisma.CourseCreateWithoutRevisionInput => {
+  //Remove the ids and relations from the course, which are recreated below
+  const {
+    tuid,
+    revision_tuid,
+    createdAt,
+    updatedAt,
+    faculty,
+    locations,
+    notes,
+    ...data
+  } = course;
+  return {
+    ...data,
+    faculty: {
+      create: faculty.map((item) => {
+        return {
+          faculty: { connect: { tuid: item.faculty_tuid } },
+        };
+      }),
+    },
+    locations: {
+      create: locations.map((location) => {
+        const { tuid, course_tuid, rooms, ...locationData } = location;
+        return {
+          ...locationData,
+          rooms: {
+            create: rooms.map((room) => {
+              return {
+                room: room.room,
+                building: { connect: { tuid: room.building_tuid } },
+              };
+            }),
+          },
+        };
+      }),
+    },
+    notes: {
+      create: notes.map((note) => {
+        return { note: note.note, type: note.type };
+      }),
+    },
+  };
+};
+
 const exportExcelFileToStorage = async (tuid: string) => {
   const count = await prisma.scheduleRevision.count({
     where: { tuid: tuid },
@@ -1065,28 +1577,28 @@ const invertedNestedOrganizedColumns = async (
    */
   const invertedOrganizedColumns = columns
     .splice(1)
-    .map(
-      (c) =>
-        //Reduce each row by adding a new key to each row
-        c.reduce(
-          (obj, item, index) => ({
-            ...obj,
-            //get the name of the key and set it to the value of the item
-            [getIndexFromOrganizedColumns(index)]: `${item}`,
-          }),
-          {}
-        )
-      //make sure the type of this is defined
-    )
-    .filter((ele) => {
-      return ele.constructor === Object && Object.keys(ele).length > 0;
-    }) as IProjectOrganizedColumnRow[];
+    .map((c, rowIndex) => ({
+      //Reduce each row by adding a new key to each row
+      row: c.reduce(
+        (obj, item, index) => ({
+          ...obj,
+          //get the name of the key and set it to the value of the item
+          [getIndexFromOrganizedColumns(index)]: `${item}`,
+        }),
+        {}
+      ) as IProjectOrganizedColumnRow,
+      //The row of the sheet, kept before any empty rows are removed (the header is 0)
+      excelRow: rowIndex + 1,
+    }))
+    .filter(({ row }) => {
+      return row.constructor === Object && Object.keys(row).length > 0;
+    });
 
   //console.log(JSON.stringify(invertedOrganizedColumns));
 
   //Do we have all of the columns?
   //TODO: Do we need to use this?
-  const hasAllColumns = invertedOrganizedColumns.every((row) => {
+  const hasAllColumns = invertedOrganizedColumns.every(({ row }) => {
     return (
       row.noteWhatHasChanged &&
       row.section_id &&
@@ -1116,7 +1628,7 @@ const invertedNestedOrganizedColumns = async (
 
   //Now query all of the columns with its inverted values and well validate them all!
   const invertedNestedOrganizedColumns = await Promise.all(
-    invertedOrganizedColumns.map(async (c, rowIndex) => {
+    invertedOrganizedColumns.map(async ({ row: c, excelRow }) => {
       //Spread all the data we want to split
       const {
         _, //Yes its an underscore. Just removing the key
@@ -1209,6 +1721,19 @@ const invertedNestedOrganizedColumns = async (
         return parseInt(time);
       };
 
+      //Converts the date of a sheet, which is a serial number in excel but text (ex: 8/28/2023) in a csv
+      const convertSheetDate = (value: string | undefined) => {
+        if (value != undefined && !/^\d+(\.\d+)?$/.test(value.trim())) {
+          const date = new Date(value);
+          if (!isNaN(date.getTime())) {
+            return new Date(
+              Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())
+            );
+          }
+        }
+        return new Date(Date.UTC(0, 0, (parseInt(value ?? "") || 0) - 1));
+      };
+
       //Gets the term year based on its seperated slash "/"
       const getTermYear = (term: string) => {
         //console.log("Did we error at term?");
@@ -1281,11 +1806,19 @@ const invertedNestedOrganizedColumns = async (
 
             //See if the building is a valid building.
             //TODO: Also query by location from the root node
-            const buildingResult = await prisma.guidelineBuilding.findFirst({
-              where: {
-                prefix: item,
-              },
-            });
+            const buildingResult =
+              (await prisma.guidelineBuilding.findFirst({
+                where: {
+                  prefix: item,
+                },
+              })) ??
+              //Otherwise the prefix may have been mapped to a building on an earlier import
+              (
+                await prisma.importBuildingMapping.findUnique({
+                  where: { prefix: item.trim().toUpperCase() },
+                  include: { building: true },
+                })
+              )?.building;
 
             //Return the data with the awful online object "building" check,
             //because someone had to put ONL for a building smh
@@ -1351,11 +1884,19 @@ const invertedNestedOrganizedColumns = async (
         const value = await Promise.all(
           updateFaculty.map(async (faculty) => {
             //Check the faculty member by name (lowercase)
-            const resultFaculty = await prisma.guidelinesFaculty.findFirst({
-              where: {
-                name: faculty.toLowerCase(),
-              },
-            });
+            const resultFaculty =
+              (await prisma.guidelinesFaculty.findFirst({
+                where: {
+                  name: faculty.toLowerCase(),
+                },
+              })) ??
+              //Otherwise the name may have been mapped to a faculty member on an earlier import
+              (
+                await prisma.importFacultyMapping.findUnique({
+                  where: { name: faculty.trim().toLowerCase() },
+                  include: { faculty: true },
+                })
+              )?.faculty;
             //That's it, faculty member has been check. Will be null if can't be found and the validation doesn't allow it.
             return {
               faculty_tuid:
@@ -1370,7 +1911,7 @@ const invertedNestedOrganizedColumns = async (
 
       //The merged ouput of the course
       const mergedCourseOutput = {
-        excelRow: rowIndex + 1,
+        excelRow,
         section_id:
           data.section_id == undefined ? null : parseInt(data.section_id),
         type: "Unknown", //TODO: Figure out what type was supposed to be again
@@ -1382,12 +1923,10 @@ const invertedNestedOrganizedColumns = async (
         subject: data.subject,
         course_number: data.course_number,
         section: parseInt(data.section) || data.section,
-        //The "excel time" to js time
-        start_date: new Date(
-          Date.UTC(0, 0, (parseInt(data.start_date) || 0) - 1)
-        ),
-        //The "excel time" to js time
-        end_date: new Date(Date.UTC(0, 0, (parseInt(data.end_date) || 0) - 1)),
+        //The "excel time" (or a date from a csv) to js time
+        start_date: convertSheetDate(data.start_date),
+        //The "excel time" (or a date from a csv) to js time
+        end_date: convertSheetDate(data.end_date),
         credits: parseInt(data.credits) || 0,
         title: data.title,
         capacity: parseInt(data.capacity) || 0,
@@ -1,5 +1,13 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import { assertRevisionAccess, VIEW_ROLES } from "src/server/access";
+import { getGuidelineCompliance } from "src/server/compliance";
+import { guidelineComplianceSchema } from "src/validation/report";
+import {
+  checkFacultyLoad,
+  getFacultyLoadLimits,
+  getRevisionFacultyCredits,
+} from "src/server/workload";
 
 //Router to generate reports on the report page
 export const reportRouter = createTRPCRouter({
@@ -18,6 +26,9 @@ export const reportRouter = createTRPCRouter({
       })
     )
     .query(async ({ ctx, input }) => {
+      //Make sure the user is able to view the revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+
       //Query to get an array of faculty objects that match the semester given
       //by the user and the search string if it is not empty.
       const courseResult = await ctx.prisma.guidelinesFaculty.findMany({
@@ -49,9 +60,11 @@ export const reportRouter = createTRPCRouter({
           ...(input.search != "" ? { name: { contains: input.search } } : {}),
         },
         select: {
+          tuid: true,
           name: true,
           email: true,
           department: true,
+          is_adjunct: true,
           to_courses: {
             select: {
               course: {
@@ -178,6 +191,13 @@ export const reportRouter = createTRPCRouter({
         });
       });
 
+      //Get the credits of each faculty member for the whole academic year, and the
+      //limits of their type to check if they are overloaded or underloaded
+      const [yearCredits, limits] = await Promise.all([
+        getRevisionFacultyCredits(input.tuid),
+        getFacultyLoadLimits(),
+      ]);
+
       //Map each faculty member from the above query to return an array of objects
       //with each faculty member, their courses taught and total number of credits taught
       //and send it to the front end
@@ -202,8 +222,17 @@ export const reportRouter = createTRPCRouter({
             return sum + value;
           }, 0);
 
+        const load = checkFacultyLoad(
+          {
+            semester: totalCredits,
+            year: yearCredits.get(faculty.tuid)?.year ?? 0,
+          },
+          faculty.is_adjunct ? limits.adjunct : limits.full_time
+        );
+
         return {
           totalCredits,
+          load,
           ...faculty,
           to_courses,
         };
@@ -212,4 +241,17 @@ export const reportRouter = createTRPCRouter({
       //return the faculties array of objects
       return { faculties, isFall, isSpring, isSummer, isWinter };
     }),
+
+  /**
+   * getGuidelineCompliance
+   * Gets every course outside of the course guidelines on a revision for a semester,
+   * grouped by department and subject, with the percentage of compliant sections
+   */
+  getGuidelineCompliance: protectedProcedure
+    .input(guidelineComplianceSchema)
+    .query(async ({ ctx, input }) => {
+      //Make sure the user is able to view the revision
+      await assertRevisionAccess(ctx.session.user.id, input.tuid, VIEW_ROLES);
+      return await getGuidelineCompliance(input);
+    }),
 });
@@ -0,0 +1,345 @@
+import { z } from "zod";
+import { type PrismaClient, ScheduleRole } from "@prisma/client";
+
+import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import {
+  assertScheduleAccess,
+  OWNER_ROLES,
+  VIEW_ROLES,
+} from "src/server/access";
+import {
+  inviteScheduleUserSchema,
+  removeScheduleUserSchema,
+  updateScheduleMemberRoleSchema,
+} from "src/validation/schedules";
+
+//Router to share schedules with other users
+export const schedulesRouter = createTRPCRouter({
+  /**
+   * getMembers
+   * Gets all users on a schedule with their role, along with the pending invites
+   */
+  getMembers: protectedProcedure
+    .input(z.object({ schedule_tuid: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await assertScheduleAccess(
+        ctx.session.user.id,
+        input.schedule_tuid,
+        VIEW_ROLES
+      );
+
+      const [members, invites] = await ctx.prisma.$transaction([
+        ctx.prisma.schedulesOnUsers.findMany({
+          where: { schedule_tuid: input.schedule_tuid },
+          include: {
+            user: { select: { id: true, username: true, email: true } },
+          },
+          orderBy: { assignedAt: "asc" },
+        }),
+        ctx.prisma.scheduleInvite.findMany({
+          where: { schedule_tuid: input.schedule_tuid },
+          orderBy: { createdAt: "asc" },
+        }),
+      ]);
+
+      return { members, invites };
+    }),
+
+  /**
+   * inviteUser
+   * Invites a user to the schedule by their email, only owners can invite.
+   * If the user was already invited their role is updated instead.
+   */
+  inviteUser: protectedProcedure
+    .input(inviteScheduleUserSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertScheduleAccess(
+        ctx.session.user.id,
+        input.schedule_tuid,
+        OWNER_ROLES
+      );
+
+      //Do not invite someone who is already on the schedule
+      const isMember = await ctx.prisma.schedulesOnUsers.count({
+        where: {
+          schedule_tuid: input.schedule_tuid,
+          user: { email: input.email },
+        },
+      });
+      if (isMember > 0) {
+        return {
+          success: false,
+          errors: ["That user already has access to this schedule"],
+        };
+      }
+
+      await ctx.prisma.scheduleInvite.upsert({
+        where: {
+          email_schedule_tuid: {
+            email: input.email,
+            schedule_tuid: input.schedule_tuid,
+          },
+        },
+        create: {
+          email: input.email,
+          schedule_tuid: input.schedule_tuid,
+          role: input.role,
+          invitedBy: ctx.session.user.id,
+        },
+        update: {
+          role: input.role,
+          invitedBy: ctx.session.user.id,
+        },
+      });
+      return { success: true, errors: [] };
+    }),
+
+  /**
+   * getMyInvites
+   * Gets the pending invites sent to the email of the current user
+   */
+  getMyInvites: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.prisma.user.findUnique({
+      where: { id: ctx.session.user.id },
+      select: { email: true },
+    });
+    if (user?.email == null) {
+      return [];
+    }
+
+    const invites = await ctx.prisma.scheduleInvite.findMany({
+      where: { email: user.email },
+      include: {
+        schedule: {
+          include: {
+            revisions: {
+              orderBy: { updatedAt: "desc" },
+              take: 1,
+              select: { name: true },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return invites.map((invite) => {
+      return {
+        tuid: invite.tuid,
+        role: invite.role,
+        createdAt: invite.createdAt,
+        name: invite.schedule.revisions[0]?.name ?? "<Untitled>",
+      };
+    });
+  }),
+
+  /**
+   * acceptInvite
+   * Accepts an invite sent to the current user, adding them to the schedule
+   */
+  acceptInvite: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const invite = await findMyInvite(
+        ctx.prisma,
+        ctx.session.user.id,
+        input.tuid
+      );
+      if (invite == null) {
+        return false;
+      }
+
+      await ctx.prisma.$transaction([
+        ctx.prisma.schedulesOnUsers.upsert({
+          where: {
+            user_tuid_schedule_tuid: {
+              user_tuid: ctx.session.user.id,
+              schedule_tuid: invite.schedule_tuid,
+            },
+          },
+          create: {
+            user_tuid: ctx.session.user.id,
+            schedule_tuid: invite.schedule_tuid,
+            assignedBy: invite.invitedBy,
+            role: invite.role,
+          },
+          update: {},
+        }),
+        ctx.prisma.scheduleInvite.delete({ where: { tuid: invite.tuid } }),
+      ]);
+      return true;
+    }),
+
+  /**
+   * declineInvite
+   * Declines an invite sent to the current user
+   */
+  declineInvite: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const invite = await findMyInvite(
+        ctx.prisma,
+        ctx.session.user.id,
+        input.tuid
+      );
+      if (invite == null) {
+        return false;
+      }
+      await ctx.prisma.scheduleInvite.delete({ where: { tuid: invite.tuid } });
+      return true;
+    }),
+
+  /**
+   * revokeInvite
+   * Removes a pending invite from a schedule, only owners can revoke
+   */
+  revokeInvite: protectedProcedure
+    .input(z.object({ tuid: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const invite = await ctx.prisma.scheduleInvite.findUnique({
+        where: { tuid: input.tuid },
+      });
+      if (invite == null) {
+        return false;
+      }
+      await assertScheduleAccess(
+        ctx.session.user.id,
+        invite.schedule_tuid,
+        OWNER_ROLES
+      );
+      await ctx.prisma.scheduleInvite.delete({ where: { tuid: invite.tuid } });
+      return true;
+    }),
+
+  /**
+   * removeMember
+   * Removes a user from a schedule. Owners can remove anyone, and any
+   * user can remove themselves. The last owner can not be removed.
+   */
+  removeMember: protectedProcedure
+    .input(removeScheduleUserSchema)
+    .mutation(async ({ ctx, input }) => {
+      //Anyone can leave, otherwise they must be an owner
+      if (input.user_tuid != ctx.session.user.id) {
+        await assertScheduleAccess(
+          ctx.session.user.id,
+          input.schedule_tuid,
+          OWNER_ROLES
+        );
+      }
+
+      const member = await ctx.prisma.schedulesOnUsers.findUnique({
+        where: {
+          user_tuid_schedule_tuid: {
+            user_tuid: input.user_tuid,
+            schedule_tuid: input.schedule_tuid,
+          },
+        },
+      });
+      if (member == null) {
+        return false;
+      }
+
+      //Make sure the schedule always has an owner
+      if (await isLastOwner(ctx.prisma, member)) {
+        return false;
+      }
+
+      await ctx.prisma.schedulesOnUsers.delete({
+        where: {
+          user_tuid_schedule_tuid: {
+            user_tuid: input.user_tuid,
+            schedule_tuid: input.schedule_tuid,
+          },
+        },
+      });
+      return true;
+    }),
+
+  /**
+   * updateMemberRole
+   * Changes the role of a user on a schedule, only owners can change roles.
+   * The last owner can not be changed to another role.
+   */
+  updateMemberRole: protectedProcedure
+    .input(updateScheduleMemberRoleSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertScheduleAccess(
+        ctx.session.user.id,
+        input.schedule_tuid,
+        OWNER_ROLES
+      );
+
+      const member = await ctx.prisma.schedulesOnUsers.findUnique({
+        where: {
+          user_tuid_schedule_tuid: {
+            user_tuid: input.user_tuid,
+            schedule_tuid: input.schedule_tuid,
+          },
+        },
+      });
+      if (member == null) {
+        return false;
+      }
+
+      //Make sure the schedule always has an owner
+      if (
+        input.role != ScheduleRole.OWNER &&
+        (await isLastOwner(ctx.prisma, member))
+      ) {
+        return false;
+      }
+
+      await ctx.prisma.schedulesOnUsers.update({
+        where: {
+          user_tuid_schedule_tuid: {
+            user_tuid: input.user_tuid,
+            schedule_tuid: input.schedule_tuid,
+          },
+        },
+        data: { role: input.role },
+      });
+      return true;
+    }),
+});
+
+/**
+ * isLastOwner
+ * Checks if a member is the only owner of their schedule
+ */
+const isLastOwner = async (
+  prisma: PrismaClient,
+  member: { schedule_tuid: string; role: ScheduleRole }
+) => {
+  if (member.role != ScheduleRole.OWNER) {
+    return false;
+  }
+  const owners = await prisma.schedulesOnUsers.count({
+    where: {
+      schedule_tuid: member.schedule_tuid,
+      role: ScheduleRole.OWNER,
+    },
+  });
+  return owners <= 1;
+};
+
+/**
+ * findMyInvite
+ * Finds an invite only if it was sent to the email of the given user
+ */
+const findMyInvite = async (
+  prisma: PrismaClient,
+  user_tuid: string,
+  invite_tuid: string
+) => {
+  const user = await prisma.user.findUnique({
+    where: { id: user_tuid },
+    select: { email: true },
+  });
+  if (user?.email == null) {
+    return null;
+  }
+  return await prisma.scheduleInvite.findFirst({
+    where: { tuid: invite_tuid, email: user.email },
+  });
+};
@@ -1,6 +1,10 @@
 import { z } from "zod";
 
-import { createTRPCRouter, protectedProcedure } from "src/server/api/trpc";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+} from "src/server/api/trpc";
 import { Subject } from "@prisma/client";
 import {
   createSubjectsSchema,
@@ -84,7 +88,7 @@ export const subjectRouter = createTRPCRouter({
   ),
 
   //Router to add a subject to the subject table
-  addSubject: protectedProcedure
+  addSubject: adminProcedure
     .input(createSubjectsSchema)
     .mutation(async ({ ctx, input }) => {
       console.log(input);
@@ -98,7 +102,7 @@ export const subjectRouter = createTRPCRouter({
     }),
 
   // Router to delete a subject
-  deleteSubject: protectedProcedure
+  deleteSubject: adminProcedure
     .input(
       z.object({
         //Takes in tuid from client on which subject to delete
@@ -127,7 +131,7 @@ export const subjectRouter = createTRPCRouter({
     }),
 
   //Router to update a subject
-  updateSubject: protectedProcedure
+  updateSubject: adminProcedure
     .input(updateSubjectsSchema)
     .mutation(async ({ ctx, input }) => {
       //Runs a query to count how many subjects there are with the provided tuid
@@ -19,7 +19,7 @@
 import { type CreateNextContextOptions } from "@trpc/server/adapters/next";
 import { type Session } from "next-auth";
 
-import { getServerAuthSession } from "src/server/auth";
+import { getServerAuthSession, userHasPermission } from "src/server/auth";
 import { prisma } from "src/server/db";
 
 type CreateContextOptions = {
@@ -65,6 +65,7 @@ export const createTRPCContext = async (opts: CreateNextContextOptions) => {
  * transformer
  */
 import { initTRPC, TRPCError } from "@trpc/server";
+import { Permissions } from "@prisma/client";
 import superjson from "superjson";
 
 const t = initTRPC
@@ -124,3 +125,43 @@ const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
  * @see https://trpc.io/docs/procedures
  */
 export const protectedProcedure = t.procedure.use(enforceUserIsAuthed);
+
+/**
+ * Reusable middleware that enforces users have at least one of the given
+ * permissions before running the procedure
+ */
+const enforceUserHasPermission = (permissions: Permissions[]) =>
+  t.middleware(async ({ ctx, next }) => {
+    if (!ctx.session || !ctx.session.user) {
+      throw new TRPCError({ code: "UNAUTHORIZED" });
+    }
+    if (!(await userHasPermission(ctx.session.user.id, permissions))) {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    return next({
+      ctx: {
+        // infers the `session` as non-nullable
+        session: { ...ctx.session, user: ctx.session.user },
+      },
+    });
+  });
+
+/**
+ * Admin procedure
+ *
+ * If you want a query or mutation to ONLY be accessible to admins, use this.
+ * It verifies the session is valid and the user has the ADMIN permission
+ */
+export const adminProcedure = t.procedure.use(
+  enforceUserHasPermission([Permissions.ADMIN])
+);
+
+/**
+ * Department chair procedure
+ *
+ * If you want a query or mutation to be accessible to department chairs, use this.
+ * Admins are also allowed, as they can do anything a department chair can
+ */
+export const chairProcedure = t.procedure.use(
+  enforceUserHasPermission([Permissions.ADMIN, Permissions.DEPARTMENT_CHAIR])
+);
@@ -0,0 +1,411 @@
+import {
+  CourseAuditAction,
+  CourseAuditUndoState,
+  CourseState,
+  Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import {
+  courseName,
+  facultyConflictsToMessage,
+  findFacultyConflictsForCourse,
+  findRoomConflictsForCourse,
+  roomConflictsToMessage,
+} from "./conflicts";
+import { compareCourses, type IFieldChange } from "./diff";
+import { assertRoomsInBuildings } from "./rooms";
+
+/**
+ * auditCourse
+ * The course type (with faculty, locations, rooms and notes) which is saved
+ * as a snapshot before and after each change
+ */
+const auditCourse = Prisma.validator<Prisma.CourseArgs>()({
+  include: {
+    faculty: {
+      include: { faculty: true },
+    },
+    locations: {
+      include: {
+        rooms: { include: { building: true } },
+      },
+    },
+    notes: true,
+  },
+});
+
+//Export the TS type from inference
+export type IAuditCourse = Prisma.CourseGetPayload<typeof auditCourse>;
+
+/**
+ * Gets the snapshot of a course as it currently is, or null if it does not exist
+ */
+export const getCourseSnapshot = async (course_tuid: string) => {
+  const course: IAuditCourse | null = await prisma.course.findUnique({
+    where: { tuid: course_tuid },
+    include: auditCourse.include,
+  });
+  return course;
+};
+
+/**
+ * Converts a snapshot to JSON so it can be stored, dates become ISO strings
+ */
+const snapshotToJson = (course: IAuditCourse | null) =>
+  course == null
+    ? Prisma.DbNull
+    : (JSON.parse(JSON.stringify(course)) as Prisma.InputJsonObject);
+
+/**
+ * recordCourseAudit
+ * Saves a change to a course along with who made it. The changed fields are
+ * worked out from the snapshots so the history does not need to compare them later.
+ *
+ * Any new change goes on the undo stack of the user, and clears their redo stack.
+ */
+export const recordCourseAudit = async ({
+  user_tuid,
+  action,
+  before,
+  after,
+  undo_state = CourseAuditUndoState.DONE,
+}: {
+  user_tuid: string;
+  action: CourseAuditAction;
+  before: IAuditCourse | null;
+  after: IAuditCourse | null;
+  undo_state?: CourseAuditUndoState;
+}) => {
+  const course = after ?? before;
+  if (course == null) {
+    return;
+  }
+  const changes: IFieldChange[] =
+    before != null && after != null ? compareCourses(before, after) : [];
+
+  //Anything undone can no longer be redone once something new is changed
+  if (undo_state == CourseAuditUndoState.DONE) {
+    await prisma.courseAudit.updateMany({
+      where: {
+        user_tuid,
+        revision_tuid: course.revision_tuid,
+        undo_state: CourseAuditUndoState.UNDONE,
+      },
+      data: { undo_state: CourseAuditUndoState.DISCARDED },
+    });
+  }
+
+  await prisma.courseAudit.create({
+    data: {
+      revision_tuid: course.revision_tuid,
+      course_tuid: course.tuid,
+      user_tuid,
+      action,
+      course: courseName(course),
+      before: snapshotToJson(before),
+      after: snapshotToJson(after),
+      changes: changes as unknown as Prisma.InputJsonArray,
+      undo_state,
+    },
+  });
+};
+
+/**
+ * Reads a stored snapshot back into a course, converting the dates back
+ */
+const snapshotFromJson = (json: Prisma.JsonValue): IAuditCourse | null => {
+  if (json == null) {
+    return null;
+  }
+  const course = json as unknown as IAuditCourse;
+  return {
+    ...course,
+    start_date: new Date(course.start_date),
+    end_date: new Date(course.end_date),
+  };
+};
+
+/**
+ * Checks if two snapshots are the same version of a course
+ */
+const snapshotsMatch = (a: IAuditCourse | null, b: IAuditCourse | null) => {
+  if (a == null || b == null) {
+    return a == b;
+  }
+  return a.state == b.state && compareCourses(a, b).length == 0;
+};
+
+/**
+ * assertCanRestore
+ * Makes sure a course can be put back to a snapshot. The course must not have
+ * been changed since the audit (by anyone), and the snapshot can not put a course
+ * in a room that is not a classroom, double book a room or double book faculty.
+ */
+const assertCanRestore = async (
+  revision_tuid: string,
+  audit: { course_tuid: string; course: string },
+  expected: IAuditCourse | null,
+  snapshot: IAuditCourse | null
+) => {
+  const current = await getCourseSnapshot(audit.course_tuid);
+  if (!snapshotsMatch(current, expected)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${audit.course} has been changed since, so this change can not be reverted`,
+    });
+  }
+
+  //Nothing to check when the course is deleted or removed again
+  if (snapshot == null || snapshot.state == CourseState.REMOVED) {
+    return;
+  }
+
+  await assertRoomsInBuildings(
+    snapshot.locations.flatMap((location) => location.rooms)
+  );
+  const [roomConflicts, facultyConflicts] = await Promise.all([
+    findRoomConflictsForCourse(revision_tuid, snapshot),
+    findFacultyConflictsForCourse(revision_tuid, snapshot),
+  ]);
+  if (roomConflicts.length > 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: roomConflictsToMessage(roomConflicts),
+    });
+  }
+  if (facultyConflicts.length > 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: facultyConflictsToMessage(facultyConflicts),
+    });
+  }
+};
+
+/**
+ * restoreCourseSnapshot
+ * Puts a course back to how it was in a snapshot. A missing snapshot means the
+ * course did not exist, so it is deleted, and a deleted course is created again
+ * with the same tuid.
+ */
+const restoreCourseSnapshot = async (
+  course_tuid: string,
+  snapshot: IAuditCourse | null
+) => {
+  if (snapshot == null) {
+    await prisma.course.deleteMany({ where: { tuid: course_tuid } });
+    return;
+  }
+
+  //Remove the relations from the course, which are recreated below
+  const {
+    createdAt,
+    updatedAt,
+    revision_tuid,
+    faculty,
+    locations,
+    notes,
+    ...data
+  } = snapshot;
+  const relations = {
+    faculty: {
+      create: faculty.map((item) => {
+        return { faculty: { connect: { tuid: item.faculty_tuid } } };
+      }),
+    },
+    locations: {
+      create: locations.map((location) => {
+        const { tuid, course_tuid, rooms, ...locationData } = location;
+        return {
+          ...locationData,
+          rooms: {
+            create: rooms.map((room) => {
+              return {
+                room: room.room,
+                building: { connect: { tuid: room.building_tuid } },
+              };
+            }),
+          },
+        };
+      }),
+    },
+    notes: {
+      create: notes.map((note) => {
+        return { note: note.note, type: note.type };
+      }),
+    },
+  };
+
+  await prisma.$transaction([
+    //Remove the current relations, the course is then updated (or created again)
+    prisma.guidelinesFacultyToCourse.deleteMany({ where: { course_tuid } }),
+    prisma.courseNote.deleteMany({ where: { course_tuid } }),
+    prisma.courseLocation.deleteMany({ where: { course_tuid } }),
+    prisma.course.upsert({
+      where: { tuid: course_tuid },
+      create: {
+        ...data,
+        revision: { connect: { tuid: revision_tuid } },
+        ...relations,
+      },
+      update: { ...data, ...relations },
+    }),
+  ]);
+};
+
+/**
+ * Actions which are made by the user, and not by undoing or redoing
+ */
+const UNDOABLE_ACTIONS = [
+  CourseAuditAction.ADDED,
+  CourseAuditAction.UPDATED,
+  CourseAuditAction.REMOVED,
+  CourseAuditAction.RESTORED,
+  CourseAuditAction.DELETED,
+];
+
+/**
+ * getUndoStack
+ * Gets how many changes a user can undo and redo on a revision
+ */
+export const getUndoStack = async (
+  user_tuid: string,
+  revision_tuid: string
+) => {
+  const [undo, redo] = await prisma.$transaction([
+    prisma.courseAudit.count({
+      where: {
+        user_tuid,
+        revision_tuid,
+        undo_state: CourseAuditUndoState.DONE,
+        action: { in: UNDOABLE_ACTIONS },
+      },
+    }),
+    prisma.courseAudit.count({
+      where: {
+        user_tuid,
+        revision_tuid,
+        undo_state: CourseAuditUndoState.UNDONE,
+      },
+    }),
+  ]);
+  return { undo, redo };
+};
+
+/**
+ * undoCourseChange
+ * Reverts the latest change a user made on a revision, and moves it to their redo
+ * stack. Returns the audit that was undone, or null if there is nothing to undo.
+ */
+export const undoCourseChange = async (
+  user_tuid: string,
+  revision_tuid: string
+) => {
+  const audit = await prisma.courseAudit.findFirst({
+    where: {
+      user_tuid,
+      revision_tuid,
+      undo_state: CourseAuditUndoState.DONE,
+      action: { in: UNDOABLE_ACTIONS },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  if (audit == null) {
+    return null;
+  }
+
+  //The course must still be how the change left it
+  const before = snapshotFromJson(audit.before);
+  await assertCanRestore(
+    revision_tuid,
+    audit,
+    snapshotFromJson(audit.after),
+    before
+  );
+
+  const current = await getCourseSnapshot(audit.course_tuid);
+  await restoreCourseSnapshot(audit.course_tuid, before);
+  await prisma.courseAudit.update({
+    where: { tuid: audit.tuid },
+    data: { undo_state: CourseAuditUndoState.UNDONE, undoneAt: new Date() },
+  });
+
+  //Keep the undo in the history, but it can not be undone itself
+  await recordCourseAudit({
+    user_tuid,
+    action: CourseAuditAction.UNDONE,
+    before: current,
+    after: await getCourseSnapshot(audit.course_tuid),
+    undo_state: CourseAuditUndoState.DISCARDED,
+  });
+  return audit;
+};
+
+/**
+ * redoCourseChange
+ * Applies the latest change a user undid on a revision again, and moves it back
+ * to their undo stack. Returns the audit that was redone, or null if there is nothing to redo.
+ */
+export const redoCourseChange = async (
+  user_tuid: string,
+  revision_tuid: string
+) => {
+  const audit = await prisma.courseAudit.findFirst({
+    where: {
+      user_tuid,
+      revision_tuid,
+      undo_state: CourseAuditUndoState.UNDONE,
+    },
+    orderBy: { undoneAt: "desc" },
+  });
+  if (audit == null) {
+    return null;
+  }
+
+  //The course must still be how the undo left it
+  const after = snapshotFromJson(audit.after);
+  await assertCanRestore(
+    revision_tuid,
+    audit,
+    snapshotFromJson(audit.before),
+    after
+  );
+
+  const current = await getCourseSnapshot(audit.course_tuid);
+  await restoreCourseSnapshot(audit.course_tuid, after);
+  await prisma.courseAudit.update({
+    where: { tuid: audit.tuid },
+    data: { undo_state: CourseAuditUndoState.DONE, undoneAt: null },
+  });
+
+  await recordCourseAudit({
+    user_tuid,
+    action: CourseAuditAction.REDONE,
+    before: current,
+    after: await getCourseSnapshot(audit.course_tuid),
+    undo_state: CourseAuditUndoState.DISCARDED,
+  });
+  return audit;
+};
+
+/**
+ * The fields of an audit which are sent to the front end, the snapshots
+ * are left out as they are only needed to restore a course
+ */
+export const auditSummarySelect = Prisma.validator<Prisma.CourseAuditSelect>()({
+  tuid: true,
+  course_tuid: true,
+  course: true,
+  action: true,
+  changes: true,
+  createdAt: true,
+  user: { select: { username: true } },
+});
+
+/**
+ * Reads the changed fields back from a stored audit
+ */
+export const auditChanges = (changes: Prisma.JsonValue) =>
+  (changes ?? []) as unknown as IFieldChange[];
@@ -1,7 +1,10 @@
 import { type GetServerSidePropsContext } from "next";
 import { type Session, unstable_getServerSession } from "next-auth";
 
+import { type Permissions } from "@prisma/client";
+
 import { authOptions } from "src/pages/api/auth/[...nextauth]";
+import { prisma } from "src/server/db";
 
 /**
  * Wrapper for unstable_getServerSession, used in trpc createContext and the
@@ -51,3 +54,45 @@ export const routeNeedsAuthSession =
 
     return await func(ctx, session);
   };
+
+/**
+ * Checks if a user has at least one of the given permissions
+ */
+export const userHasPermission = async (
+  user_tuid: string,
+  permissions: Permissions[]
+) => {
+  const count = await prisma.permission.count({
+    where: {
+      user_tuid,
+      id: {
+        in: permissions,
+      },
+    },
+  });
+  return count > 0;
+};
+
+/**
+ * A local route wrapper, just like "routeNeedsAuthSession" but the user also
+ * needs at least one of the given permissions. If they do not, they are
+ * redirected back to the projects page.
+ */
+export const routeNeedsPermission = (
+  permissions: Permissions[],
+  func: ServerSideSession
+) =>
+  routeNeedsAuthSession(async (ctx, session) => {
+    if (
+      !session?.user ||
+      !(await userHasPermission(session.user.id, permissions))
+    ) {
+      return {
+        redirect: {
+          destination: "/projects",
+          permanent: false,
+        },
+      };
+    }
+    return await func(ctx, session);
+  });
@@ -0,0 +1,382 @@
+import { CourseAuditAction, CourseState } from "@prisma/client";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import {
+  compareCourseFaculty,
+  compareCourseRooms,
+  courseName,
+  facultyConflictsToMessage,
+  findFacultyConflictsForCourse,
+  getBuildingCampuses,
+  getRevisionConflictCourses,
+  roomConflictsToMessage,
+  findRoomConflictsForCourse,
+  type IConflictCandidate,
+  type IConflictCourse,
+} from "src/server/conflicts";
+import { LOCATION_DAYS } from "src/utils/calendar";
+import { diffCourses, type IDiffCourse } from "src/server/diff";
+import { getCourseSnapshot, recordCourseAudit } from "src/server/audit";
+import { findRoomsOutsideBuildings } from "src/server/rooms";
+import { getGuidelineSlotPatterns, type ISlotPattern } from "src/server/slots";
+import { hasClassroom } from "src/utils/rooms";
+
+/**
+ * IAutoSchedulePlacement
+ *
+ * The days, time and room the auto scheduler picked for a course
+ */
+export type IAutoSchedulePlacement = ISlotPattern & {
+  course_tuid: string;
+  building_tuid: string;
+  room: string;
+};
+
+/**
+ * IAutoScheduleUnplaced
+ *
+ * A course the auto scheduler could not find any days, time and room for
+ */
+export interface IAutoScheduleUnplaced {
+  course_tuid: string;
+  course: string;
+  reason: string;
+}
+
+/**
+ * isUnscheduledLocation
+ * Checks if an in person location of a course has not been given a time yet,
+ * which is how a section without any days or times is imported
+ */
+const isUnscheduledLocation = (
+  location: IConflictCourse["locations"][number]
+) =>
+  !location.is_online &&
+  (location.start_time == 0 || !LOCATION_DAYS.some((day) => location[day]));
+
+/**
+ * getUnscheduledCourses
+ * Gets every course on a revision which has no locations, or an in person
+ * location without any days or times
+ */
+export const getUnscheduledCourses = async (revision_tuid: string) => {
+  const courses = await getRevisionConflictCourses(revision_tuid);
+  return courses
+    .filter(
+      (course) =>
+        course.locations.length == 0 ||
+        course.locations.some(isUnscheduledLocation)
+    )
+    .map((course) => ({
+      tuid: course.tuid,
+      name: courseName(course),
+      title: course.title,
+      credits: course.credits,
+      capacity: course.capacity,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Gets the key of a room, which is the same no matter the case of the room
+ */
+const roomKey = (room: { building_tuid: string; room: string }) =>
+  `${room.building_tuid}/${room.room.toLowerCase()}`;
+
+/**
+ * proposeAutoSchedule
+ * Finds guideline days, times and rooms for each of the courses on a revision
+ * without writing them, so they can be accepted or rejected. A course is only
+ * placed in a room with enough seats, which is not booked at the time, and where
+ * none of its faculty are teaching (or need time to get from) another course.
+ *
+ * The courses with the most students are placed first, in the preferred buildings
+ * (in the order given) first, then the room with the fewest spare seats, then
+ * the earliest time. The in person locations of each placed course are replaced
+ * with the new one, and online locations are kept.
+ */
+export const proposeAutoSchedule = async ({
+  revision_tuid,
+  course_tuids,
+  building_tuids,
+}: {
+  revision_tuid: string;
+  course_tuids: string[];
+  building_tuids: string[];
+}) => {
+  const [courses, campuses, buildings] = await Promise.all([
+    getRevisionConflictCourses(revision_tuid),
+    getBuildingCampuses(),
+    prisma.guidelineBuilding.findMany({
+      include: { classroom_list: true },
+    }),
+  ]);
+
+  const chosen = courses
+    .filter((course) => course_tuids.includes(course.tuid))
+    .sort((a, b) => b.capacity - a.capacity);
+
+  //Rooms that have seats, in order of preference, then the fewest seats first
+  const rooms = buildings
+    .flatMap((building) => {
+      const { classroom_list, ...details } = building;
+      const rank = building_tuids.indexOf(building.tuid);
+      return classroom_list
+        .filter((room) => hasClassroom(building.classrooms, room.room))
+        .map((room) => ({
+          ...room,
+          building: details,
+          rank: rank == -1 ? building_tuids.length : rank,
+        }));
+    })
+    .sort((a, b) => a.rank - b.rank || a.capacity - b.capacity);
+
+  //Index the courses that are not being placed by their rooms and faculty, so
+  //each possible placement is only compared to the courses that could conflict
+  const byRoom = new Map<string, IConflictCandidate[]>();
+  const byFaculty = new Map<string, IConflictCandidate[]>();
+  const book = (course: IConflictCandidate) => {
+    for (const location of course.locations) {
+      for (const room of location.rooms) {
+        const key = roomKey(room);
+        byRoom.set(key, [...(byRoom.get(key) ?? []), course]);
+      }
+    }
+    for (const { faculty_tuid } of course.faculty) {
+      byFaculty.set(faculty_tuid, [
+        ...(byFaculty.get(faculty_tuid) ?? []),
+        course,
+      ]);
+    }
+  };
+  courses.filter((course) => !course_tuids.includes(course.tuid)).forEach(book);
+
+  //The same credits and semester are usually placed more than once
+  const patternCache = new Map<string, Promise<ISlotPattern[]>>();
+  const getPatterns = (course: IConflictCourse) => {
+    const key = [
+      course.credits,
+      course.semester_fall,
+      course.semester_winter,
+      course.semester_spring,
+      course.semester_summer,
+    ].join("/");
+    let patterns = patternCache.get(key);
+    if (patterns == undefined) {
+      patterns = getGuidelineSlotPatterns(course.credits, course);
+      patternCache.set(key, patterns);
+    }
+    return patterns;
+  };
+
+  const placements: IAutoSchedulePlacement[] = [];
+  const unplaced: IAutoScheduleUnplaced[] = [];
+  const before: IDiffCourse[] = [];
+  const after: IDiffCourse[] = [];
+
+  for (const course of chosen) {
+    const patterns = await getPatterns(course);
+    if (patterns.length == 0) {
+      unplaced.push({
+        course_tuid: course.tuid,
+        course: courseName(course),
+        reason: `No course guidelines for ${course.credits} credits in its semester`,
+      });
+      continue;
+    }
+    const fits = rooms.filter((room) => room.capacity >= course.capacity);
+    if (fits.length == 0) {
+      unplaced.push({
+        course_tuid: course.tuid,
+        course: courseName(course),
+        reason: `No room has ${course.capacity} seats`,
+      });
+      continue;
+    }
+
+    const online = course.locations.filter((location) => location.is_online);
+    const others = course.faculty.flatMap(
+      (faculty) => byFaculty.get(faculty.faculty_tuid) ?? []
+    );
+
+    //Find the first room and pattern the course does not conflict at
+    let placed: IConflictCourse | undefined = undefined;
+    for (const room of fits) {
+      const booked = byRoom.get(roomKey(room)) ?? [];
+      for (const pattern of patterns) {
+        const candidate: IConflictCourse = {
+          ...course,
+          locations: [
+            ...online,
+            {
+              tuid: "",
+              course_tuid: course.tuid,
+              ...pattern,
+              is_online: false,
+              rooms: [
+                {
+                  tuid: "",
+                  location_tuid: "",
+                  building_tuid: room.building_tuid,
+                  room: room.room,
+                  building: room.building,
+                },
+              ],
+            },
+          ],
+        };
+        if (
+          booked.some(
+            (other) => compareCourseRooms(candidate, other).length > 0
+          ) ||
+          others.some(
+            (other) =>
+              other.tuid != course.tuid &&
+              compareCourseFaculty(candidate, other, campuses).length > 0
+          )
+        ) {
+          continue;
+        }
+        placed = candidate;
+        placements.push({
+          course_tuid: course.tuid,
+          ...pattern,
+          building_tuid: room.building_tuid,
+          room: room.room,
+        });
+        break;
+      }
+      if (placed != undefined) break;
+    }
+
+    if (placed == undefined) {
+      unplaced.push({
+        course_tuid: course.tuid,
+        course: courseName(course),
+        reason:
+          "Every guideline time conflicts with another course in each room with enough seats",
+      });
+      continue;
+    }
+    //Book the course, so the next courses are placed around it
+    book(placed);
+    before.push(course);
+    after.push(placed);
+  }
+
+  return {
+    placements,
+    unplaced,
+    diff: diffCourses(before, after),
+  };
+};
+
+/**
+ * applyAutoSchedule
+ * Saves the placements of the auto scheduler that were accepted. Each course is
+ * checked again for any rooms that are no longer free, as the revision could have
+ * changed after the placements were proposed. Each saved course goes into the
+ * history (and undo stack) of the user.
+ */
+export const applyAutoSchedule = async (
+  user_tuid: string,
+  revision_tuid: string,
+  placements: IAutoSchedulePlacement[]
+) => {
+  const errors: string[] = [];
+  let applied = 0;
+
+  for (const placement of placements) {
+    const { course_tuid, building_tuid, room, ...pattern } = placement;
+    const course = await getCourseSnapshot(course_tuid);
+    if (course == null || course.revision_tuid != revision_tuid) {
+      errors.push(`Course ${course_tuid} is not on this revision`);
+      continue;
+    }
+
+    const outside = await findRoomsOutsideBuildings([{ building_tuid, room }]);
+    if (outside.length > 0) {
+      errors.push(
+        `${courseName(
+          course
+        )}: Room ${room} is not one of the classrooms of its building`
+      );
+      continue;
+    }
+
+    //The course as it would be placed, which is checked again as the revision
+    //may have changed since the placements were proposed
+    const online = course.locations.filter((location) => location.is_online);
+    const candidate = {
+      ...course,
+      locations: [
+        ...online,
+        { ...pattern, is_online: false, rooms: [{ building_tuid, room }] },
+      ],
+    };
+    const conflicts = await findRoomConflictsForCourse(
+      revision_tuid,
+      candidate
+    );
+    if (conflicts.length > 0) {
+      errors.push(
+        `${courseName(course)}: ${roomConflictsToMessage(conflicts)}`
+      );
+      continue;
+    }
+    const facultyConflicts = await findFacultyConflictsForCourse(
+      revision_tuid,
+      candidate
+    );
+    if (facultyConflicts.length > 0) {
+      errors.push(
+        `${courseName(course)}: ${facultyConflictsToMessage(facultyConflicts)}`
+      );
+      continue;
+    }
+
+    await prisma.$transaction([
+      //Online locations are kept, the rest are replaced by the placement
+      prisma.courseLocation.deleteMany({
+        where: {
+          course_tuid,
+          is_online: false,
+        },
+      }),
+      prisma.course.update({
+        where: {
+          tuid: course_tuid,
+        },
+        data: {
+          state:
+            course.state == CourseState.UNMODIFIED
+              ? CourseState.MODIFIED
+              : course.state,
+          locations: {
+            create: {
+              ...pattern,
+              is_online: false,
+              rooms: {
+                create: {
+                  room,
+                  building: { connect: { tuid: building_tuid } },
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    await recordCourseAudit({
+      user_tuid,
+      action: CourseAuditAction.UPDATED,
+      before: course,
+      after: await getCourseSnapshot(course_tuid),
+    });
+    applied++;
+  }
+
+  return { success: errors.length == 0, applied, errors };
+};
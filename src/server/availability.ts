@@ -0,0 +1,361 @@
+import { FacultyTimeType, Prisma } from "@prisma/client";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import { getBuildingCampuses, timesOverlap } from "src/server/conflicts";
+import { LOCATION_DAYS } from "src/utils/calendar";
+import { DAY_NAMES } from "src/server/diff";
+import {
+  type IFacultyPreferences,
+  type IRankCourseFaculty,
+} from "src/validation/faculty";
+
+/**
+ * A faculty member with their times, campuses and the courses they are qualified to teach
+ */
+const facultyWithPreferences = Prisma.validator<Prisma.GuidelinesFacultyArgs>()(
+  {
+    include: {
+      times: true,
+      campuses: true,
+      qualifications: true,
+    },
+  }
+);
+
+type IFacultyWithPreferences = Prisma.GuidelinesFacultyGetPayload<
+  typeof facultyWithPreferences
+>;
+
+/**
+ * IPreferenceCourse
+ *
+ * The parts of a course (which may not be saved yet) checked against the
+ * preferences of its faculty
+ */
+export interface IPreferenceCourse {
+  subject?: string;
+  course_number?: string;
+  locations: Array<
+    {
+      is_online: boolean;
+      start_time: number;
+      end_time: number;
+      rooms: Array<{ building_tuid: string }>;
+    } & Record<typeof LOCATION_DAYS[number], boolean>
+  >;
+}
+
+/**
+ * IFacultyPreferenceWarning
+ *
+ * A course which is not qualified for, or does not fit the times or campuses, of
+ * a faculty member
+ */
+export interface IFacultyPreferenceWarning {
+  faculty_tuid: string;
+  faculty: string;
+  type:
+    | "NOT_QUALIFIED"
+    | "UNAVAILABLE"
+    | "NOT_PREFERRED_TIME"
+    | "NOT_PREFERRED_CAMPUS";
+  message: string;
+}
+
+/**
+ * Short labels of each warning, used to explain the rank of a faculty member
+ */
+const WARNING_LABELS: Record<IFacultyPreferenceWarning["type"], string> = {
+  NOT_QUALIFIED: "not qualified",
+  UNAVAILABLE: "unavailable",
+  NOT_PREFERRED_TIME: "not a preferred time",
+  NOT_PREFERRED_CAMPUS: "not a preferred campus",
+};
+
+/**
+ * getFacultyPreferences
+ * Gets the times, campuses and qualified courses of a faculty member
+ */
+export const getFacultyPreferences = async (faculty_tuid: string) => {
+  const faculty = await prisma.guidelinesFaculty.findUnique({
+    where: {
+      tuid: faculty_tuid,
+    },
+    include: {
+      times: {
+        select: {
+          type: true,
+          day_monday: true,
+          day_tuesday: true,
+          day_wednesday: true,
+          day_thursday: true,
+          day_friday: true,
+          day_saturday: true,
+          day_sunday: true,
+          start_time: true,
+          end_time: true,
+        },
+        orderBy: [{ type: "asc" }, { start_time: "asc" }],
+      },
+      campuses: {
+        include: {
+          campus: true,
+        },
+      },
+      qualifications: {
+        orderBy: [{ subject: "asc" }, { course_number: "asc" }],
+      },
+    },
+  });
+  if (faculty == null) {
+    return null;
+  }
+  return {
+    tuid: faculty.tuid,
+    times: faculty.times,
+    campuses: faculty.campuses.map((value) => ({
+      label: value.campus.name,
+      value: value.campus_tuid,
+    })),
+    qualifications: faculty.qualifications.map((value) => ({
+      subject: value.subject,
+      course_number: value.course_number,
+    })),
+  };
+};
+
+/**
+ * updateFacultyPreferences
+ * Replaces the times, campuses and qualified courses of a faculty member
+ */
+export const updateFacultyPreferences = async (input: IFacultyPreferences) => {
+  const faculty_tuid = input.tuid;
+  //The same course could be added twice, which is only kept once
+  const qualifications = input.qualifications
+    .map((value) => ({
+      subject: value.subject.trim().toUpperCase(),
+      course_number: value.course_number.trim().toUpperCase(),
+    }))
+    .filter(
+      (value, index, list) =>
+        list.findIndex(
+          (other) =>
+            other.subject == value.subject &&
+            other.course_number == value.course_number
+        ) == index
+    );
+
+  await prisma.$transaction([
+    prisma.guidelineFacultyTime.deleteMany({ where: { faculty_tuid } }),
+    prisma.guidelineFacultyCampus.deleteMany({ where: { faculty_tuid } }),
+    prisma.guidelineFacultyQualification.deleteMany({
+      where: { faculty_tuid },
+    }),
+    prisma.guidelineFacultyTime.createMany({
+      data: input.times.map((time) => ({ faculty_tuid, ...time })),
+    }),
+    prisma.guidelineFacultyCampus.createMany({
+      data: [...new Set(input.campus_tuids)].map((campus_tuid) => ({
+        faculty_tuid,
+        campus_tuid,
+      })),
+    }),
+    prisma.guidelineFacultyQualification.createMany({
+      data: qualifications.map((value) => ({ faculty_tuid, ...value })),
+    }),
+  ]);
+  return true;
+};
+
+/**
+ * Formats the days and time of a block, ex: M/W 830-945
+ */
+const timeToString = (time: IFacultyWithPreferences["times"][number]) =>
+  `${LOCATION_DAYS.filter((day) => time[day])
+    .map((day) => DAY_NAMES[day])
+    .join("/")} ${time.start_time}-${time.end_time}`;
+
+/**
+ * checkFacultyPreferences
+ * Checks a course against the qualified courses, unavailable times, preferred times
+ * and preferred campuses of a faculty member. A faculty member without any qualified
+ * courses, preferred times or preferred campuses is not checked for them.
+ */
+export const checkFacultyPreferences = (
+  faculty: IFacultyWithPreferences,
+  course: IPreferenceCourse,
+  campuses: Map<string, string>
+) => {
+  const warnings: IFacultyPreferenceWarning[] = [];
+  const warn = (type: IFacultyPreferenceWarning["type"], message: string) =>
+    warnings.push({
+      faculty_tuid: faculty.tuid,
+      faculty: faculty.name,
+      type,
+      message: `${faculty.name} ${message}`,
+    });
+
+  if (
+    faculty.qualifications.length > 0 &&
+    course.subject &&
+    course.course_number &&
+    !faculty.qualifications.some(
+      (value) =>
+        value.subject.toUpperCase() == course.subject?.toUpperCase() &&
+        value.course_number.toUpperCase() == course.course_number?.toUpperCase()
+    )
+  ) {
+    warn(
+      "NOT_QUALIFIED",
+      `is not qualified to teach ${course.subject} ${course.course_number}`
+    );
+  }
+
+  //Only the locations which meet in person at a time are checked
+  const locations = course.locations.filter(
+    (location) =>
+      !location.is_online &&
+      location.end_time > location.start_time &&
+      LOCATION_DAYS.some((day) => location[day])
+  );
+  const unavailable = faculty.times.filter(
+    (time) => time.type == FacultyTimeType.UNAVAILABLE
+  );
+  const preferred = faculty.times.filter(
+    (time) => time.type == FacultyTimeType.PREFERRED
+  );
+
+  for (const location of locations) {
+    for (const time of unavailable) {
+      if (
+        LOCATION_DAYS.some((day) => location[day] && time[day]) &&
+        timesOverlap(location, time)
+      ) {
+        warn("UNAVAILABLE", `is unavailable ${timeToString(time)}`);
+      }
+    }
+    //Each day of the location must be within one of the preferred times
+    if (
+      preferred.length > 0 &&
+      !LOCATION_DAYS.every(
+        (day) =>
+          !location[day] ||
+          preferred.some(
+            (time) =>
+              time[day] &&
+              time.start_time <= location.start_time &&
+              time.end_time >= location.end_time
+          )
+      )
+    ) {
+      warn(
+        "NOT_PREFERRED_TIME",
+        `would rather teach ${preferred.map(timeToString).join(", ")}`
+      );
+    }
+  }
+
+  if (faculty.campuses.length > 0) {
+    const preferredCampuses = faculty.campuses.map(
+      (value) => value.campus_tuid
+    );
+    const outside = locations.some((location) =>
+      location.rooms.some((room) => {
+        const campus = campuses.get(room.building_tuid);
+        return campus != undefined && !preferredCampuses.includes(campus);
+      })
+    );
+    if (outside) {
+      warn("NOT_PREFERRED_CAMPUS", "would rather teach at another campus");
+    }
+  }
+
+  //The same warning is only shown once
+  return warnings.filter(
+    (warning, index) =>
+      warnings.findIndex((other) => other.message == warning.message) == index
+  );
+};
+
+/**
+ * findFacultyPreferenceWarnings
+ * Checks a course (which may not be saved yet) against the preferences of
+ * each of its faculty
+ */
+export const findFacultyPreferenceWarnings = async (
+  course: IPreferenceCourse & { faculty: Array<{ faculty_tuid: string }> }
+) => {
+  if (course.faculty.length == 0) {
+    return [];
+  }
+  const [faculty, campuses] = await Promise.all([
+    prisma.guidelinesFaculty.findMany({
+      where: {
+        tuid: { in: course.faculty.map((value) => value.faculty_tuid) },
+      },
+      ...facultyWithPreferences,
+    }),
+    getBuildingCampuses(),
+  ]);
+  return faculty.flatMap((member) =>
+    checkFacultyPreferences(member, course, campuses)
+  );
+};
+
+/**
+ * rankCourseFaculty
+ * Finds the faculty by their name (and department), with the ones qualified to
+ * teach a course first, then the ones available at its times, then the ones with
+ * the fewest other preferences it does not fit
+ */
+export const rankCourseFaculty = async (input: IRankCourseFaculty) => {
+  const [faculty, campuses] = await Promise.all([
+    prisma.guidelinesFaculty.findMany({
+      where: {
+        ...(input.search != "" ? { name: { contains: input.search } } : {}),
+        ...(input.department != null
+          ? { department: { equals: input.department } }
+          : {}),
+      },
+      ...facultyWithPreferences,
+    }),
+    getBuildingCampuses(),
+  ]);
+
+  const course: IPreferenceCourse = {
+    subject: input.course.subject,
+    course_number: input.course.course_number,
+    locations: input.course.locations.map(({ building_tuid, ...location }) => ({
+      ...location,
+      rooms: building_tuid ? [{ building_tuid }] : [],
+    })),
+  };
+
+  return faculty
+    .map((member) => {
+      const warnings = checkFacultyPreferences(member, course, campuses);
+      const has = (type: IFacultyPreferenceWarning["type"]) =>
+        warnings.some((warning) => warning.type == type) ? 1 : 0;
+      return {
+        option: {
+          label: member.name,
+          faculty_tuid: member.tuid,
+          value: member.tuid,
+          warnings: [
+            ...new Set(warnings.map((warning) => WARNING_LABELS[warning.type])),
+          ],
+        },
+        //Not qualified, then unavailable, then any other warnings are ranked lower
+        rank: [has("NOT_QUALIFIED"), has("UNAVAILABLE"), warnings.length],
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.rank.reduce(
+          (order, value, index) => order || value - (b.rank[index] ?? 0),
+          0
+        ) || a.option.label.localeCompare(b.option.label)
+    )
+    .map((ranked) => ranked.option);
+};
@@ -0,0 +1,220 @@
+import xlsx from "node-xlsx";
+
+import {
+  courseName,
+  getRevisionConflictCourses,
+  type IConflictCourse,
+} from "src/server/conflicts";
+import { LOCATION_DAYS } from "src/utils/calendar";
+import { facultyToStrings, locationsToStrings } from "src/server/diff";
+import {
+  evaluateCourseGuidelines,
+  getSemesterGuidelines,
+  type IGuidelineEvaluation,
+} from "src/server/guidelines";
+import { type IGuidelineCompliance } from "src/validation/report";
+
+/**
+ * IComplianceCourse
+ *
+ * A course which is outside of the course guidelines, and why
+ */
+export interface IComplianceCourse {
+  tuid: string;
+  name: string;
+  title: string;
+  faculty: string[];
+  locations: string[];
+  guideline: IGuidelineEvaluation;
+}
+
+/**
+ * IComplianceSubject
+ *
+ * The courses of a subject (in a department) which are outside of the guidelines
+ */
+export interface IComplianceSubject {
+  department: string;
+  subject: string;
+  total: number;
+  compliant: number;
+  courses: IComplianceCourse[];
+}
+
+/**
+ * Gets the percentage of compliant sections, a semester without any sections is fully compliant
+ */
+const percentage = (compliant: number, total: number) =>
+  total == 0 ? 100 : Math.round((compliant / total) * 1000) / 10;
+
+/**
+ * Checks if a course meets in person on any day, which are the courses the
+ * guidelines apply to
+ */
+const meetsInPerson = (course: IConflictCourse) =>
+  course.locations.some(
+    (location) =>
+      !location.is_online && LOCATION_DAYS.some((day) => location[day])
+  );
+
+/**
+ * getGuidelineCompliance
+ * Checks every course of a revision for the semester against the course guidelines,
+ * and groups the sections by department and subject with the ones outside of the
+ * guidelines. Online courses without any meeting days are not counted.
+ */
+export const getGuidelineCompliance = async (input: IGuidelineCompliance) => {
+  const [courses, guidelines] = await Promise.all([
+    getRevisionConflictCourses(input.tuid, input),
+    getSemesterGuidelines(input),
+  ]);
+
+  const filtered = courses.filter(
+    (course) =>
+      meetsInPerson(course) &&
+      (input.faculty_tuid == undefined ||
+        course.faculty.some(
+          (faculty) => faculty.faculty_tuid == input.faculty_tuid
+        )) &&
+      (input.building_tuid == undefined ||
+        course.locations.some((location) =>
+          location.rooms.some(
+            (room) => room.building_tuid == input.building_tuid
+          )
+        ))
+  );
+
+  //Group each section by its department and subject
+  const groups = new Map<string, IComplianceSubject>();
+  for (const course of filtered) {
+    const key = `${course.department}*${course.subject}`;
+    const group = groups.get(key) ?? {
+      department: course.department,
+      subject: course.subject,
+      total: 0,
+      compliant: 0,
+      courses: [],
+    };
+    groups.set(key, group);
+
+    const guideline = evaluateCourseGuidelines(course, guidelines);
+    group.total++;
+    if (guideline.withinGuideline) {
+      group.compliant++;
+      continue;
+    }
+    group.courses.push({
+      tuid: course.tuid,
+      name: courseName(course),
+      title: course.title,
+      faculty: facultyToStrings(course),
+      locations: locationsToStrings(course),
+      guideline,
+    });
+  }
+
+  const subjects = [...groups.values()]
+    .map((group) => ({
+      ...group,
+      percentage: percentage(group.compliant, group.total),
+      courses: group.courses.sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .sort(
+      (a, b) =>
+        a.department.localeCompare(b.department) ||
+        a.subject.localeCompare(b.subject)
+    );
+
+  const total = subjects.reduce((sum, group) => sum + group.total, 0);
+  const compliant = subjects.reduce((sum, group) => sum + group.compliant, 0);
+  return {
+    total,
+    compliant,
+    percentage: percentage(compliant, total),
+    subjects,
+  };
+};
+
+/**
+ * The header of the exported report, and each course outside the guidelines as a row
+ */
+const complianceToRows = (
+  report: Awaited<ReturnType<typeof getGuidelineCompliance>>
+) => {
+  const rows: string[][] = [
+    [
+      "Department",
+      "Subject",
+      "Course",
+      "Title",
+      "Faculty",
+      "Locations",
+      "Closest Guideline",
+      "Problems",
+    ],
+  ];
+  for (const group of report.subjects) {
+    for (const course of group.courses) {
+      const closest = course.guideline.closest;
+      rows.push([
+        group.department,
+        group.subject,
+        course.name,
+        course.title,
+        course.faculty.join("; "),
+        course.locations.join("; "),
+        closest != null
+          ? `${closest.credits} credits, ${closest.meeting_amount} meetings`
+          : "None",
+        course.guideline.rules
+          .filter((rule) => !rule.passed)
+          .map((rule) => rule.message)
+          .join("; "),
+      ]);
+    }
+  }
+  return rows;
+};
+
+/**
+ * complianceToXlsx
+ * Creates an excel file of the courses outside the guidelines, with a sheet
+ * of the percentage of compliant sections for each subject
+ */
+export const complianceToXlsx = (
+  report: Awaited<ReturnType<typeof getGuidelineCompliance>>
+) => {
+  const summary = [
+    ["Department", "Subject", "Sections", "Compliant", "Percentage"],
+    ...report.subjects.map((group) => [
+      group.department,
+      group.subject,
+      group.total,
+      group.compliant,
+      group.percentage,
+    ]),
+    ["All", "", report.total, report.compliant, report.percentage],
+  ];
+  return xlsx.build([
+    { name: "Outside Guidelines", data: complianceToRows(report), options: {} },
+    { name: "Summary", data: summary, options: {} },
+  ]);
+};
+
+/**
+ * complianceToCsv
+ * Creates a CSV file of the courses outside the guidelines
+ */
+export const complianceToCsv = (
+  report: Awaited<ReturnType<typeof getGuidelineCompliance>>
+) =>
+  complianceToRows(report)
+    .map((row) =>
+      row
+        .map((value) =>
+          //Quote any value with a comma, quote or new line
+          /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+        )
+        .join(",")
+    )
+    .join("\r\n");
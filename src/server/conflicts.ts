@@ -0,0 +1,454 @@
+import { CourseState, Prisma } from "@prisma/client";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import {
+  LOCATION_DAYS,
+  militaryToMinutes,
+  type ILocationDay,
+} from "src/utils/calendar";
+
+/**
+ * conflictCourse
+ * The course type (with locations, rooms and buildings) used when checking
+ * for any conflicts on a revision
+ */
+const conflictCourse = Prisma.validator<Prisma.CourseArgs>()({
+  include: {
+    faculty: {
+      include: { faculty: true },
+    },
+    locations: {
+      include: {
+        rooms: { include: { building: true } },
+      },
+    },
+  },
+});
+
+//Export the TS type from inference
+export type IConflictCourse = Prisma.CourseGetPayload<typeof conflictCourse>;
+
+/**
+ * IConflictCandidate
+ *
+ * The minimum amount of information needed about a course to check if it
+ * conflicts with any other course. This allows for a course that has not been
+ * saved yet (adding or updating) to be checked against the saved courses.
+ */
+export interface IConflictCandidate {
+  tuid?: string;
+  subject: string;
+  course_number: string;
+  section: string;
+  start_date: Date;
+  end_date: Date;
+  semester_fall: boolean;
+  semester_winter: boolean;
+  semester_spring: boolean;
+  semester_summer: boolean;
+  faculty: Array<{ faculty_tuid: string }>;
+  locations: Array<
+    {
+      start_time: number;
+      end_time: number;
+      is_online: boolean;
+      rooms: Array<{ building_tuid: string; room: string }>;
+    } & Record<ILocationDay, boolean>
+  >;
+}
+
+/**
+ * IRoomConflict
+ *
+ * A single double booking of a room on a day between two courses
+ */
+export interface IRoomConflict {
+  course_tuid?: string;
+  course: string;
+  conflicting_course_tuid?: string;
+  conflicting_course: string;
+  building_tuid: string;
+  room: string;
+  day: ILocationDay;
+  start_time: number;
+  end_time: number;
+}
+
+/**
+ * IFacultyConflict
+ *
+ * A single faculty member who is either teaching two courses at the same time,
+ * or does not have enough time between two courses to get from one to the other
+ */
+export interface IFacultyConflict {
+  faculty_tuid: string;
+  course_tuid?: string;
+  course: string;
+  conflicting_course_tuid?: string;
+  conflicting_course: string;
+  day: ILocationDay;
+  type: "OVERLAP" | "GAP";
+  gap: number; //Minutes between the two courses (0 if overlapping)
+  required_gap: number; //Minutes that are needed between the two courses
+}
+
+/**
+ * Faculty Gap Rules
+ *
+ * The minimum amount of minutes needed between back to back courses
+ * for a faculty member, depending on where the next course is located.
+ */
+export const FACULTY_GAP_RULES = {
+  building: 0, //Different building, same campus
+  campus: 10, //Different campus
+};
+
+/**
+ * ISemesterSelection
+ * The semester booleans used to narrow down any conflicts to a single semester
+ */
+export interface ISemesterSelection {
+  semester_fall: boolean;
+  semester_winter: boolean;
+  semester_spring: boolean;
+  semester_summer: boolean;
+}
+
+/**
+ * Gets the readable name of the course, ex: CS 105*01
+ */
+export const courseName = (course: {
+  subject: string;
+  course_number: string;
+  section: string;
+}) => `${course.subject} ${course.course_number}*${course.section}`;
+
+/**
+ * Checks if two time ranges overlap, times are in military time (ex: 1430)
+ * so they can be compared directly. Back to back times (one ending at
+ * the same time the other starts) do not overlap.
+ */
+export const timesOverlap = (
+  a: { start_time: number; end_time: number },
+  b: { start_time: number; end_time: number }
+) => a.start_time < b.end_time && b.start_time < a.end_time;
+
+/**
+ * Checks if two date ranges overlap, this includes the days on the edge
+ */
+export const datesOverlap = (
+  a: { start_date: Date; end_date: Date },
+  b: { start_date: Date; end_date: Date }
+) => a.start_date <= b.end_date && b.start_date <= a.end_date;
+
+/**
+ * Checks if two courses occur in the same semester
+ */
+export const sharesSemester = (a: ISemesterSelection, b: ISemesterSelection) =>
+  (a.semester_fall && b.semester_fall) ||
+  (a.semester_winter && b.semester_winter) ||
+  (a.semester_spring && b.semester_spring) ||
+  (a.semester_summer && b.semester_summer);
+
+/**
+ * Finds every room that both courses are booked in at the same time, on the same
+ * day, and within the same dates.
+ */
+export const compareCourseRooms = (
+  course: IConflictCandidate,
+  other: IConflictCandidate
+) => {
+  const conflicts: IRoomConflict[] = [];
+
+  //Make sure that both are in the same semester and date range
+  if (!sharesSemester(course, other) || !datesOverlap(course, other)) {
+    return conflicts;
+  }
+
+  for (const location of course.locations) {
+    //Online locations have no room to conflict with
+    if (location.is_online) continue;
+    for (const otherLocation of other.locations) {
+      if (otherLocation.is_online) continue;
+      if (!timesOverlap(location, otherLocation)) continue;
+
+      for (const day of LOCATION_DAYS) {
+        //Both need to be on said day
+        if (!(location[day] && otherLocation[day])) continue;
+
+        for (const room of location.rooms) {
+          const sameRoom = otherLocation.rooms.some(
+            (otherRoom) =>
+              otherRoom.building_tuid == room.building_tuid &&
+              otherRoom.room.toLowerCase() == room.room.toLowerCase()
+          );
+          if (!sameRoom) continue;
+
+          conflicts.push({
+            course_tuid: course.tuid,
+            course: courseName(course),
+            conflicting_course_tuid: other.tuid,
+            conflicting_course: courseName(other),
+            building_tuid: room.building_tuid,
+            room: room.room,
+            day,
+            //Only the overlapping portion of the time
+            start_time: Math.max(location.start_time, otherLocation.start_time),
+            end_time: Math.min(location.end_time, otherLocation.end_time),
+          });
+        }
+      }
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * Finds every time a faculty member on both courses is either teaching both
+ * at the same time, or does not have the required gap between them because
+ * the courses are in different buildings or campuses.
+ */
+export const compareCourseFaculty = (
+  course: IConflictCandidate,
+  other: IConflictCandidate,
+  campuses: Map<string, string>
+) => {
+  const conflicts: IFacultyConflict[] = [];
+
+  //Make sure that both are in the same semester and date range
+  if (!sharesSemester(course, other) || !datesOverlap(course, other)) {
+    return conflicts;
+  }
+
+  //Get the faculty members on both courses
+  const faculty = course.faculty
+    .map((value) => value.faculty_tuid)
+    .filter((tuid) =>
+      other.faculty.some((value) => value.faculty_tuid == tuid)
+    );
+  if (faculty.length == 0) {
+    return conflicts;
+  }
+
+  for (const location of course.locations) {
+    //Online locations have no time to conflict with
+    if (location.is_online) continue;
+    for (const otherLocation of other.locations) {
+      if (otherLocation.is_online) continue;
+
+      //Get the required gap based on where both locations are
+      const required_gap = requiredFacultyGap(
+        location.rooms,
+        otherLocation.rooms,
+        campuses
+      );
+
+      //Minutes between both locations, negative when they overlap
+      const gap = Math.max(
+        militaryToMinutes(location.start_time) -
+          militaryToMinutes(otherLocation.end_time),
+        militaryToMinutes(otherLocation.start_time) -
+          militaryToMinutes(location.end_time)
+      );
+
+      const overlapping = timesOverlap(location, otherLocation);
+      if (!overlapping && gap >= required_gap) continue;
+
+      for (const day of LOCATION_DAYS) {
+        //Both need to be on said day
+        if (!(location[day] && otherLocation[day])) continue;
+
+        for (const faculty_tuid of faculty) {
+          conflicts.push({
+            faculty_tuid,
+            course_tuid: course.tuid,
+            course: courseName(course),
+            conflicting_course_tuid: other.tuid,
+            conflicting_course: courseName(other),
+            day,
+            type: overlapping ? "OVERLAP" : "GAP",
+            gap: Math.max(gap, 0),
+            required_gap,
+          });
+        }
+      }
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * Gets the minimum amount of minutes needed between two locations from
+ * the faculty gap rules
+ */
+const requiredFacultyGap = (
+  rooms: Array<{ building_tuid: string }>,
+  otherRooms: Array<{ building_tuid: string }>,
+  campuses: Map<string, string>
+) => {
+  let required = 0;
+  for (const room of rooms) {
+    for (const otherRoom of otherRooms) {
+      //Same building has no gap needed
+      if (room.building_tuid == otherRoom.building_tuid) continue;
+      const campus = campuses.get(room.building_tuid);
+      const otherCampus = campuses.get(otherRoom.building_tuid);
+      required = Math.max(
+        required,
+        campus != otherCampus
+          ? FACULTY_GAP_RULES.campus
+          : FACULTY_GAP_RULES.building
+      );
+    }
+  }
+  return required;
+};
+
+/**
+ * Gets a map of every building to its campus
+ */
+export const getBuildingCampuses = async () => {
+  const buildings = await prisma.guidelineBuilding.findMany({
+    select: {
+      tuid: true,
+      campus_tuid: true,
+    },
+  });
+  return new Map(
+    buildings.map((building) => [building.tuid, building.campus_tuid])
+  );
+};
+
+/**
+ * Gets every course on a revision that could conflict with another course,
+ * which excludes any removed courses.
+ */
+export const getRevisionConflictCourses = async (
+  revision_tuid: string,
+  semester?: ISemesterSelection
+) => {
+  const courses: IConflictCourse[] = await prisma.course.findMany({
+    where: {
+      revision_tuid,
+      state: {
+        not: CourseState.REMOVED,
+      },
+      //Only filter by semester if one was given
+      ...(semester
+        ? {
+            OR: [
+              semester.semester_fall ? { semester_fall: true } : {},
+              semester.semester_winter ? { semester_winter: true } : {},
+              semester.semester_spring ? { semester_spring: true } : {},
+              semester.semester_summer ? { semester_summer: true } : {},
+            ].filter((value) => Object.keys(value).length > 0),
+          }
+        : {}),
+    },
+    include: conflictCourse.include,
+  });
+  return courses;
+};
+
+/**
+ * Checks a single course (that may not be saved yet) against every other course
+ * on the revision to find any room double booking.
+ */
+export const findRoomConflictsForCourse = async (
+  revision_tuid: string,
+  course: IConflictCandidate
+) => {
+  const courses = await getRevisionConflictCourses(revision_tuid, course);
+  return courses
+    .filter((other) => other.tuid != course.tuid)
+    .flatMap((other) => compareCourseRooms(course, other));
+};
+
+/**
+ * Finds every room double booking on a revision for a semester. Each pair of
+ * courses is only reported once.
+ */
+export const findRevisionRoomConflicts = async (
+  revision_tuid: string,
+  semester: ISemesterSelection
+) => {
+  const courses = await getRevisionConflictCourses(revision_tuid, semester);
+  const conflicts: IRoomConflict[] = [];
+  courses.forEach((course, index) => {
+    //Only compare with the courses after this one, so pairs are not duplicated
+    for (const other of courses.slice(index + 1)) {
+      conflicts.push(...compareCourseRooms(course, other));
+    }
+  });
+  return conflicts;
+};
+
+/**
+ * Checks a single course (that may not be saved yet) against every other course
+ * on the revision to find any faculty that are double booked.
+ */
+export const findFacultyConflictsForCourse = async (
+  revision_tuid: string,
+  course: IConflictCandidate
+) => {
+  const [courses, campuses] = await Promise.all([
+    getRevisionConflictCourses(revision_tuid, course),
+    getBuildingCampuses(),
+  ]);
+  return courses
+    .filter((other) => other.tuid != course.tuid)
+    .flatMap((other) => compareCourseFaculty(course, other, campuses));
+};
+
+/**
+ * Finds every faculty member that is double booked on a revision for a semester.
+ * Each pair of courses is only reported once.
+ */
+export const findRevisionFacultyConflicts = async (
+  revision_tuid: string,
+  semester: ISemesterSelection
+) => {
+  const [courses, campuses] = await Promise.all([
+    getRevisionConflictCourses(revision_tuid, semester),
+    getBuildingCampuses(),
+  ]);
+  const conflicts: IFacultyConflict[] = [];
+  courses.forEach((course, index) => {
+    //Only compare with the courses after this one, so pairs are not duplicated
+    for (const other of courses.slice(index + 1)) {
+      conflicts.push(...compareCourseFaculty(course, other, campuses));
+    }
+  });
+  return conflicts;
+};
+
+/**
+ * Creates a readable message from the list of room conflicts
+ */
+export const roomConflictsToMessage = (conflicts: IRoomConflict[]) => {
+  return conflicts
+    .map(
+      (conflict) =>
+        `Room ${conflict.room} is already booked by ${
+          conflict.conflicting_course
+        } on ${conflict.day.replace("day_", "")}`
+    )
+    .filter((message, index, self) => self.indexOf(message) === index)
+    .join("\n");
+};
+
+/**
+ * Creates a readable message from the list of faculty conflicts
+ */
+export const facultyConflictsToMessage = (conflicts: IFacultyConflict[]) => {
+  return conflicts
+    .map((conflict) => {
+      const day = conflict.day.replace("day_", "");
+      return conflict.type == "OVERLAP"
+        ? `Faculty already teaches ${conflict.conflicting_course} at the same time on ${day}`
+        : `Faculty needs ${conflict.required_gap} minutes to get to or from ${conflict.conflicting_course} on ${day}`;
+    })
+    .filter((message, index, self) => self.indexOf(message) === index)
+    .join("\n");
+};
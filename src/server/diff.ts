@@ -0,0 +1,285 @@
+import { CourseState, Prisma } from "@prisma/client";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import { courseName } from "./conflicts";
+import { LOCATION_DAYS, type ILocationDay } from "src/utils/calendar";
+
+/**
+ * diffCourse
+ * The course type (with faculty, locations, rooms and buildings) used when
+ * comparing two revisions
+ */
+const diffCourse = Prisma.validator<Prisma.CourseArgs>()({
+  include: {
+    faculty: {
+      include: { faculty: true },
+    },
+    locations: {
+      include: {
+        rooms: { include: { building: true } },
+      },
+    },
+  },
+});
+
+//Export the TS type from inference
+export type IDiffCourse = Prisma.CourseGetPayload<typeof diffCourse>;
+
+/**
+ * ICourseSummary
+ * A readable version of a course, which is shown on either side of the diff
+ */
+export interface ICourseSummary {
+  tuid: string;
+  name: string;
+  title: string;
+  faculty: string[];
+  locations: string[];
+}
+
+/**
+ * IFieldChange
+ * A single field that is different between the two versions of a course
+ */
+export interface IFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * ICourseDiff
+ * A single course that was added, removed or changed between two revisions
+ */
+export interface ICourseDiff {
+  name: string;
+  status: "ADDED" | "REMOVED" | "CHANGED";
+  before?: ICourseSummary;
+  after?: ICourseSummary;
+  changes: IFieldChange[];
+}
+
+/**
+ * Fields of a course that are compared directly, with their readable label
+ */
+const DIFF_FIELDS: Array<[keyof IDiffCourse, string]> = [
+  ["subject", "Subject"],
+  ["course_number", "Course Number"],
+  ["section", "Section"],
+  ["title", "Title"],
+  ["type", "Type"],
+  ["div", "Division"],
+  ["department", "Department"],
+  ["term", "Term"],
+  ["credits", "Credits"],
+  ["capacity", "Capacity"],
+  ["status", "Status"],
+  ["instruction_method", "Instruction Method"],
+  ["start_date", "Start Date"],
+  ["end_date", "End Date"],
+  ["semester_fall", "Fall"],
+  ["semester_winter", "Winter"],
+  ["semester_spring", "Spring"],
+  ["semester_summer", "Summer"],
+];
+
+/**
+ * Short names of each day, in the same order as LOCATION_DAYS
+ */
+export const DAY_NAMES: Record<ILocationDay, string> = {
+  day_monday: "M",
+  day_tuesday: "T",
+  day_wednesday: "W",
+  day_thursday: "TH",
+  day_friday: "F",
+  day_saturday: "SA",
+  day_sunday: "SU",
+};
+
+/**
+ * Converts a field of a course to a readable string so it can be compared
+ */
+const fieldToString = (value: unknown) => {
+  if (value instanceof Date) {
+    return value.toISOString().substring(0, 10);
+  }
+  if (typeof value == "boolean") {
+    return value ? "Yes" : "No";
+  }
+  return value == null ? "" : String(value);
+};
+
+/**
+ * Gets the sorted names of the faculty teaching a course
+ */
+export const facultyToStrings = (course: IDiffCourse) =>
+  course.faculty
+    .map((item) => (item.faculty.name + " " + item.faculty.suffix).trim())
+    .sort();
+
+/**
+ * Gets each location of a course as a sorted list of readable strings,
+ * ex: M/W 830-945 PI 125
+ */
+export const locationsToStrings = (course: IDiffCourse) =>
+  course.locations
+    .map((location) => {
+      const days = LOCATION_DAYS.filter((day) => location[day])
+        .map((day) => DAY_NAMES[day])
+        .join("/");
+      const rooms = location.is_online
+        ? "Online"
+        : location.rooms
+            .map((room) => `${room.building.prefix} ${room.room}`)
+            .sort()
+            .join(", ");
+      return `${days} ${location.start_time}-${location.end_time} ${rooms}`.trim();
+    })
+    .sort();
+
+/**
+ * Creates the readable summary of a course
+ */
+const summarizeCourse = (course: IDiffCourse): ICourseSummary => {
+  return {
+    tuid: course.tuid,
+    name: courseName(course),
+    title: course.title,
+    faculty: facultyToStrings(course),
+    locations: locationsToStrings(course),
+  };
+};
+
+/**
+ * Gets the key a course is matched by when it has no section id
+ */
+const courseKey = (course: IDiffCourse) =>
+  `${course.subject}*${course.course_number}*${course.section}`;
+
+/**
+ * compareCourses
+ * Finds each field which is different between two versions of the same course,
+ * including the faculty, and the times and rooms of the locations
+ */
+export const compareCourses = (before: IDiffCourse, after: IDiffCourse) => {
+  const changes: IFieldChange[] = [];
+  for (const [field, label] of DIFF_FIELDS) {
+    const a = fieldToString(before[field]);
+    const b = fieldToString(after[field]);
+    if (a != b) {
+      changes.push({ field: label, before: a, after: b });
+    }
+  }
+
+  //Faculty and locations are compared as lists, ignoring their order
+  const lists: Array<[string, string, string]> = [
+    [
+      "Faculty",
+      facultyToStrings(before).join("; "),
+      facultyToStrings(after).join("; "),
+    ],
+    [
+      "Locations",
+      locationsToStrings(before).join("; "),
+      locationsToStrings(after).join("; "),
+    ],
+  ];
+  for (const [field, a, b] of lists) {
+    if (a != b) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+};
+
+/**
+ * diffCourses
+ * Compares the courses of two revisions. Courses are first matched by their
+ * section id, and any course without a match is then matched by its
+ * subject, course number and section.
+ */
+export const diffCourses = (
+  beforeCourses: IDiffCourse[],
+  afterCourses: IDiffCourse[]
+) => {
+  const diffs: ICourseDiff[] = [];
+  const unmatched = new Set(afterCourses);
+
+  //Find the matching course on the after revision
+  const findMatch = (course: IDiffCourse) => {
+    if (course.section_id != null) {
+      for (const other of unmatched) {
+        if (other.section_id == course.section_id) return other;
+      }
+    }
+    for (const other of unmatched) {
+      if (courseKey(other) == courseKey(course)) return other;
+    }
+    return undefined;
+  };
+
+  for (const course of beforeCourses) {
+    const match = findMatch(course);
+    if (match == undefined) {
+      diffs.push({
+        name: courseName(course),
+        status: "REMOVED",
+        before: summarizeCourse(course),
+        changes: [],
+      });
+      continue;
+    }
+    unmatched.delete(match);
+    const changes = compareCourses(course, match);
+    if (changes.length > 0) {
+      diffs.push({
+        name: courseName(match),
+        status: "CHANGED",
+        before: summarizeCourse(course),
+        after: summarizeCourse(match),
+        changes,
+      });
+    }
+  }
+
+  //Anything left over only exists on the after revision
+  for (const course of unmatched) {
+    diffs.push({
+      name: courseName(course),
+      status: "ADDED",
+      after: summarizeCourse(course),
+      changes: [],
+    });
+  }
+
+  return diffs.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Gets every course on a revision to be compared, which excludes any removed courses
+ */
+export const getRevisionDiffCourses = async (revision_tuid: string) => {
+  const courses: IDiffCourse[] = await prisma.course.findMany({
+    where: {
+      revision_tuid,
+      state: {
+        not: CourseState.REMOVED,
+      },
+    },
+    include: diffCourse.include,
+  });
+  return courses;
+};
+
+/**
+ * diffRevisions
+ * Compares two revisions, where `a` is the older revision and `b` is the newer one
+ */
+export const diffRevisions = async (a: string, b: string) => {
+  const [before, after] = await Promise.all([
+    getRevisionDiffCourses(a),
+    getRevisionDiffCourses(b),
+  ]);
+  return diffCourses(before, after);
+};
@@ -0,0 +1,219 @@
+import { Prisma } from "@prisma/client";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import { type ISemesterSelection } from "src/server/conflicts";
+import { LOCATION_DAYS, type ILocationDay } from "src/utils/calendar";
+import { DAY_NAMES } from "src/server/diff";
+
+/**
+ * guidelineWithRules
+ * The course guideline type with the days and times it allows
+ */
+const guidelineWithRules = Prisma.validator<Prisma.GuidelinesCoursesArgs>()({
+  include: {
+    days: true,
+    times: true,
+  },
+});
+
+//Export the TS type from inference
+export type IGuidelineWithRules = Prisma.GuidelinesCoursesGetPayload<
+  typeof guidelineWithRules
+>;
+
+/**
+ * IGuidelineCourse
+ *
+ * The parts of a course which are checked against the course guidelines
+ */
+export interface IGuidelineCourse {
+  credits: number;
+  locations: Array<
+    { start_time: number; end_time: number } & Record<ILocationDay, boolean>
+  >;
+}
+
+/**
+ * IGuidelineRule
+ *
+ * A single rule of a course guideline, what it allows and what the course has
+ */
+export interface IGuidelineRule {
+  rule: "CREDITS" | "MEETINGS" | "DAYS" | "TIMES";
+  passed: boolean;
+  expected: string;
+  actual: string;
+  message: string;
+}
+
+/**
+ * IGuidelineEvaluation
+ *
+ * Whether a course is within a course guideline, and the rules of the
+ * guideline it matches (or comes the closest to matching)
+ */
+export interface IGuidelineEvaluation {
+  withinGuideline: boolean;
+  closest: {
+    tuid: string;
+    credits: number;
+    meeting_amount: number;
+  } | null;
+  rules: IGuidelineRule[];
+}
+
+/**
+ * getSemesterGuidelines
+ * Gets every course guideline for the semester, or for every semester if none
+ * are selected
+ */
+export const getSemesterGuidelines = async (semester: ISemesterSelection) => {
+  //An empty condition matches every guideline, so only the selected semesters are kept
+  const semesters = [
+    semester.semester_fall ? { semester_fall: true } : {},
+    semester.semester_winter ? { semester_winter: true } : {},
+    semester.semester_spring ? { semester_spring: true } : {},
+    semester.semester_summer ? { semester_summer: true } : {},
+  ].filter((value) => Object.keys(value).length > 0);
+  const guidelines: IGuidelineWithRules[] =
+    await prisma.guidelinesCourses.findMany({
+      where: semesters.length > 0 ? { OR: semesters } : {},
+      include: guidelineWithRules.include,
+    });
+  return guidelines;
+};
+
+/**
+ * Gets the days of a location or guideline as a readable string, ex: M/W/F
+ */
+const daysToString = (days: Record<ILocationDay, boolean>) =>
+  LOCATION_DAYS.filter((day) => days[day])
+    .map((day) => DAY_NAMES[day])
+    .join("/") || "No days";
+
+/**
+ * Gets the readable list of values, or none if the list is empty
+ */
+const listToString = (values: string[]) =>
+  values.length > 0 ? values.join(" or ") : "None";
+
+/**
+ * checkGuidelineRules
+ * Checks a course against each rule of a course guideline. The course needs the
+ * same credits and amount of meetings (every day of every location), days of one
+ * location that the guideline allows, and the start and end time of one location
+ * the same as one of the guideline times.
+ */
+const checkGuidelineRules = (
+  course: IGuidelineCourse,
+  guideline: IGuidelineWithRules
+): IGuidelineRule[] => {
+  const meetings = course.locations
+    .map((location) => LOCATION_DAYS.filter((day) => location[day]).length)
+    .reduce((sum, value) => sum + value, 0);
+
+  const courseDays = listToString(course.locations.map(daysToString));
+  const courseTimes = listToString(
+    course.locations.map(
+      (location) => `${location.start_time}-${location.end_time}`
+    )
+  );
+  const guidelineDays = listToString(guideline.days.map(daysToString));
+  const guidelineTimes = listToString(
+    guideline.times.map((time) => `${time.start_time}-${time.end_time}`)
+  );
+
+  //A location is on allowed days if the guideline has each of its days
+  const daysPassed = guideline.days.some((days) =>
+    course.locations.some((location) =>
+      LOCATION_DAYS.every((day) => !location[day] || days[day])
+    )
+  );
+  const timesPassed = guideline.times.some((time) =>
+    course.locations.some(
+      (location) =>
+        location.start_time == time.start_time &&
+        location.end_time == time.end_time
+    )
+  );
+
+  return [
+    {
+      rule: "CREDITS",
+      passed: course.credits == guideline.credits,
+      expected: guideline.credits.toString(),
+      actual: course.credits.toString(),
+      message: `The course has ${course.credits} credits, the guideline is for ${guideline.credits}`,
+    },
+    {
+      rule: "MEETINGS",
+      passed: meetings == guideline.meeting_amount,
+      expected: guideline.meeting_amount.toString(),
+      actual: meetings.toString(),
+      message: `The course meets ${meetings} times a week, the guideline needs ${guideline.meeting_amount}`,
+    },
+    {
+      rule: "DAYS",
+      passed: daysPassed,
+      expected: guidelineDays,
+      actual: courseDays,
+      message: `The course meets on ${courseDays}, the guideline allows ${guidelineDays}`,
+    },
+    {
+      rule: "TIMES",
+      passed: timesPassed,
+      expected: guidelineTimes,
+      actual: courseTimes,
+      message: `The course meets at ${courseTimes}, the guideline allows ${guidelineTimes}`,
+    },
+  ];
+};
+
+/**
+ * Scores how close a course is to a guideline, where earlier rules are worth more
+ * than all of the later rules together, so matching credits is the most important
+ */
+const scoreRules = (rules: IGuidelineRule[]) =>
+  rules.reduce(
+    (score, rule, index) =>
+      score + (rule.passed ? 2 ** (rules.length - index) : 0),
+    0
+  );
+
+/**
+ * evaluateCourseGuidelines
+ * Checks a course against each of the course guidelines, and gives back the rules
+ * of the guideline it is within. If it is not within any, the rules of the closest
+ * guideline are given instead so the user can see what is wrong.
+ */
+export const evaluateCourseGuidelines = (
+  course: IGuidelineCourse,
+  guidelines: IGuidelineWithRules[]
+): IGuidelineEvaluation => {
+  let closest: IGuidelineWithRules | undefined = undefined;
+  let closestRules: IGuidelineRule[] = [];
+  let closestScore = -1;
+  for (const guideline of guidelines) {
+    const rules = checkGuidelineRules(course, guideline);
+    const score = scoreRules(rules);
+    if (score > closestScore) {
+      closest = guideline;
+      closestRules = rules;
+      closestScore = score;
+    }
+  }
+
+  if (closest == undefined) {
+    return { withinGuideline: false, closest: null, rules: [] };
+  }
+  return {
+    withinGuideline: closestRules.every((rule) => rule.passed),
+    closest: {
+      tuid: closest.tuid,
+      credits: closest.credits,
+      meeting_amount: closest.meeting_amount,
+    },
+    rules: closestRules,
+  };
+};
@@ -0,0 +1,125 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+import { type ILocationDay } from "src/utils/calendar";
+
+// Essentially creates a new data tyoe built to store comprehensive queries for the calendar
+const revisionWithCourses = Prisma.validator<Prisma.ScheduleRevisionArgs>()({
+  include: {
+    courses: {
+      include: {
+        faculty: {
+          include: { faculty: true },
+        },
+        locations: {
+          include: { rooms: { include: { building: true } } },
+        },
+      },
+    },
+  },
+});
+
+//Export type from Prisma
+export type RevisionWithCourses = Prisma.ScheduleRevisionGetPayload<
+  typeof revisionWithCourses
+>;
+
+/**
+ * queryRevisionCourses
+ * Gets a revision with every course of it that matches the filters of the calendar,
+ * along with the faculty teaching each course and all of its locations. The courses
+ * are split into each day by coursesOnDay, so the revision is only loaded once.
+ */
+export async function queryRevisionCourses(
+  input: {
+    faculty?: string[] | undefined;
+    credits?: number | undefined;
+    departments?: string[] | undefined;
+    tuid: string;
+    semester_summer: boolean;
+    semester_fall: boolean;
+    semester_winter: boolean;
+    semester_spring: boolean;
+  },
+  ctxPrisma: PrismaClient
+): Promise<RevisionWithCourses | null> {
+  return await ctxPrisma.scheduleRevision.findUnique({
+    where: {
+      tuid: input.tuid,
+    },
+    include: {
+      courses: {
+        where: {
+          // Filter by a list of faculty tuids if it was provided by the client
+          ...(input.faculty
+            ? { faculty: { some: { faculty_tuid: { in: input.faculty } } } }
+            : {}),
+
+          // Filter by a list of department codes if it was provided by the client
+          ...(input.departments
+            ? { department: { in: input.departments } }
+            : {}),
+
+          // Filter by a certain number of credit hours if it was provided by the client
+          ...(input.credits ? { credits: input.credits } : {}),
+
+          // Filter by semesters
+          semester_fall: input.semester_fall,
+          semester_winter: input.semester_winter,
+          semester_spring: input.semester_spring,
+          semester_summer: input.semester_summer,
+        },
+        include: {
+          faculty: {
+            include: {
+              faculty: true,
+            },
+          },
+          locations: {
+            include: {
+              rooms: {
+                include: {
+                  building: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * coursesOnDay
+ * Gets the courses of a revision which are taught in any location on a day, or
+ * online if no day is given. When a list of buildings is given, said location
+ * must also be in one of the buildings. The courses of a day only include their
+ * in person locations (If a course is taught on Monday in one location and on
+ * Wednesday in another location, both locations are on Monday and Wednesday)
+ */
+export function coursesOnDay(
+  revision: RevisionWithCourses,
+  buildings: string[] | undefined,
+  day?: ILocationDay
+) {
+  return revision.courses.flatMap((course) => {
+    const matches = course.locations.some(
+      (location) =>
+        (day != undefined ? location[day] : location.is_online) &&
+        (buildings == undefined ||
+          location.rooms.some((room) => buildings.includes(room.building_tuid)))
+    );
+    if (!matches) {
+      return [];
+    }
+    if (day == undefined) {
+      return [course];
+    }
+    return [
+      {
+        ...course,
+        locations: course.locations.filter((location) => !location.is_online),
+      },
+    ];
+  });
+}
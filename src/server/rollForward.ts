@@ -0,0 +1,154 @@
+import { CourseState, Prisma } from "@prisma/client";
+
+import { type IProjectsExcelCourseSchema } from "src/validation/projects";
+import {
+  type IRollForwardWindow,
+  type IRollForwardSemester,
+  ROLL_FORWARD_SEMESTERS,
+} from "src/validation/projects.frontend";
+
+/**
+ * rollForwardCourse
+ * The course type (with faculty, locations, rooms and notes) which is copied
+ * when rolling a revision forward
+ */
+const rollForwardCourse = Prisma.validator<Prisma.CourseArgs>()({
+  include: {
+    faculty: true,
+    locations: { include: { rooms: true } },
+    notes: true,
+  },
+});
+
+//Export the TS type from inference
+export type IRollForwardCourse = Prisma.CourseGetPayload<
+  typeof rollForwardCourse
+>;
+
+//Export the include so the courses can be queried with it
+export const rollForwardCourseInclude = rollForwardCourse.include;
+
+/**
+ * The course flag for each semester
+ */
+const SEMESTER_FLAGS: Record<
+  IRollForwardSemester,
+  "semester_fall" | "semester_winter" | "semester_spring" | "semester_summer"
+> = {
+  FALL: "semester_fall",
+  WINTER: "semester_winter",
+  SPRING: "semester_spring",
+  SUMMER: "semester_summer",
+};
+
+/**
+ * Gets the semester a course is rolled forward by, which is the first
+ * semester flag it has set
+ */
+export const courseSemester = (course: IRollForwardCourse) =>
+  ROLL_FORWARD_SEMESTERS.find((semester) => course[SEMESTER_FLAGS[semester]]);
+
+/**
+ * getSemesterWindows
+ * Gets the earliest start date and latest end date of the courses in
+ * each semester, which is the window the courses are moved from
+ */
+export const getSemesterWindows = (courses: IRollForwardCourse[]) => {
+  const windows = new Map<IRollForwardSemester, IRollForwardWindow>();
+  for (const course of courses) {
+    const semester = courseSemester(course);
+    if (semester == undefined) continue;
+    const window = windows.get(semester);
+    windows.set(semester, {
+      semester,
+      start_date:
+        window == undefined || course.start_date < window.start_date
+          ? course.start_date
+          : window.start_date,
+      end_date:
+        window == undefined || course.end_date > window.end_date
+          ? course.end_date
+          : window.end_date,
+    });
+  }
+  //Keep the same order as the semesters
+  return ROLL_FORWARD_SEMESTERS.map((semester) => windows.get(semester)).filter(
+    (window): window is IRollForwardWindow => window != undefined
+  );
+};
+
+/**
+ * shiftDates
+ * Moves the dates of a course by the same amount the source window moves to
+ * the target window, so courses that start late in the semester still do.
+ * The dates are kept inside of the target window.
+ */
+export const shiftDates = (
+  course: { start_date: Date; end_date: Date },
+  source: IRollForwardWindow,
+  target: IRollForwardWindow
+) => {
+  const offset = target.start_date.getTime() - source.start_date.getTime();
+  const clamp = (time: number) =>
+    new Date(
+      Math.min(
+        Math.max(time, target.start_date.getTime()),
+        target.end_date.getTime()
+      )
+    );
+  return {
+    start_date: clamp(course.start_date.getTime() + offset),
+    end_date: clamp(course.end_date.getTime() + offset),
+  };
+};
+
+/**
+ * courseToExcelRow
+ * Converts a course back into the row format used by the excel upload,
+ * so it can be created with the same schema as an uploaded course
+ */
+export const courseToExcelRow = (
+  course: IRollForwardCourse
+): Required<IProjectsExcelCourseSchema> => {
+  return {
+    excelRow: course.excelRow,
+    tuid: course.tuid,
+    type: course.type,
+    section_id: course.section_id,
+    revision_tuid: course.revision_tuid,
+    term: course.term,
+    semester_summer: course.semester_summer,
+    semester_fall: course.semester_fall,
+    semester_winter: course.semester_winter,
+    semester_spring: course.semester_spring,
+    div: course.div,
+    department: course.department,
+    subject: course.subject,
+    course_number: course.course_number,
+    section: parseInt(course.section),
+    start_date: course.start_date,
+    end_date: course.end_date,
+    credits: course.credits,
+    title: course.title,
+    status: course.status,
+    instruction_method: course.instruction_method,
+    capacity: course.capacity,
+    original_state: CourseState.UNMODIFIED,
+    state: CourseState.UNMODIFIED,
+    faculty: course.faculty.map((faculty) => {
+      return { faculty_tuid: faculty.faculty_tuid };
+    }),
+    notes: course.notes.map((note) => {
+      return { note: note.note, type: note.type };
+    }),
+    locations: course.locations.map((location) => {
+      const { tuid, course_tuid, rooms, ...data } = location;
+      return {
+        ...data,
+        rooms: rooms.map((room) => {
+          return { room: room.room, building_tuid: room.building_tuid };
+        }),
+      };
+    }),
+  };
+};
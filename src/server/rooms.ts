@@ -0,0 +1,221 @@
+import { TRPCError } from "@trpc/server";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import { expandClassrooms, hasClassroom } from "src/utils/rooms";
+import { getRevisionConflictCourses, timesOverlap } from "src/server/conflicts";
+import { LOCATION_DAYS } from "src/utils/calendar";
+import { type IFindAvailableRooms } from "src/validation/buildings";
+
+/**
+ * IRoomCapacityWarning
+ *
+ * A room assigned to a course which has less seats than the capacity of said course
+ */
+export interface IRoomCapacityWarning {
+  building_tuid: string;
+  building: string;
+  room: string;
+  seats: number;
+  capacity: number;
+}
+
+/**
+ * findRoomCapacityWarnings
+ * Checks the rooms assigned to a course have enough seats for the capacity of
+ * the course. Rooms which are not in the room list of their building are not checked.
+ */
+export const findRoomCapacityWarnings = async (
+  capacity: number,
+  rooms: Array<{ building_tuid: string; room: string }>
+): Promise<IRoomCapacityWarning[]> => {
+  if (rooms.length == 0) {
+    return [];
+  }
+  const guidelineRooms = await prisma.guidelineRoom.findMany({
+    where: {
+      OR: rooms.map((room) => ({
+        building_tuid: room.building_tuid,
+        room: room.room,
+      })),
+      capacity: { lt: capacity },
+    },
+    include: {
+      building: true,
+    },
+  });
+  return guidelineRooms.map((room) => ({
+    building_tuid: room.building_tuid,
+    building: room.building.prefix,
+    room: room.room,
+    seats: room.capacity,
+    capacity,
+  }));
+};
+
+/**
+ * findRoomsOutsideBuildings
+ * Finds any rooms which are not in the classroom list of their building
+ */
+export const findRoomsOutsideBuildings = async (
+  rooms: Array<{ building_tuid: string; room: string }>
+) => {
+  if (rooms.length == 0) {
+    return [];
+  }
+  const buildings = await prisma.guidelineBuilding.findMany({
+    where: {
+      tuid: { in: rooms.map((room) => room.building_tuid) },
+    },
+  });
+  return rooms.flatMap((room) => {
+    const building = buildings.find(
+      (building) => building.tuid == room.building_tuid
+    );
+    if (building == undefined || hasClassroom(building.classrooms, room.room)) {
+      return [];
+    }
+    return [
+      {
+        building_tuid: building.tuid,
+        building: building.prefix,
+        classrooms: building.classrooms,
+        room: room.room,
+      },
+    ];
+  });
+};
+
+/**
+ * assertRoomsInBuildings
+ * Makes sure every room is in the classroom list of its building, or throws
+ * an error listing the rooms that are not
+ */
+export const assertRoomsInBuildings = async (
+  rooms: Array<{ building_tuid: string; room: string }>
+) => {
+  const outside = await findRoomsOutsideBuildings(rooms);
+  if (outside.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: outside
+        .map(
+          (room) =>
+            `Room ${room.building} ${room.room} is not one of the classrooms (${room.classrooms})`
+        )
+        .join("\n"),
+    });
+  }
+};
+
+/**
+ * IAvailableRoom
+ *
+ * A room that is free at a time, along with its seats and features if known
+ */
+export interface IAvailableRoom {
+  building_tuid: string;
+  building: string;
+  prefix: string;
+  campus: string;
+  room: string;
+  capacity: number | null;
+  has_lab: boolean;
+  has_projector: boolean;
+  is_accessible: boolean;
+}
+
+/**
+ * findAvailableRooms
+ * Finds every room of the buildings (optionally of a campus or a single building)
+ * which is not booked by another course on the revision at the given days and
+ * time in the semester. When a minimum capacity or features are required, only
+ * rooms which have been added with their seats and features are returned.
+ */
+export const findAvailableRooms = async (input: IFindAvailableRooms) => {
+  const [buildings, courses] = await Promise.all([
+    prisma.guidelineBuilding.findMany({
+      where: {
+        ...(input.campus_tuid ? { campus_tuid: input.campus_tuid } : {}),
+        ...(input.building_tuid ? { tuid: input.building_tuid } : {}),
+      },
+      include: {
+        campus: true,
+        classroom_list: true,
+      },
+      orderBy: {
+        name: "asc",
+      },
+    }),
+    //Check every semester if none were given
+    getRevisionConflictCourses(
+      input.revision_tuid,
+      input.semester_fall ||
+        input.semester_winter ||
+        input.semester_spring ||
+        input.semester_summer
+        ? input
+        : undefined
+    ),
+  ]);
+
+  //Get every room that is booked at the same time on one of the days
+  const booked = new Set<string>();
+  for (const course of courses) {
+    if (course.tuid == input.course_tuid) continue;
+    for (const location of course.locations) {
+      if (location.is_online || !timesOverlap(location, input)) continue;
+      if (!LOCATION_DAYS.some((day) => location[day] && input[day])) continue;
+      for (const room of location.rooms) {
+        booked.add(`${room.building_tuid}/${room.room.toLowerCase()}`);
+      }
+    }
+  }
+
+  const needsDetails =
+    input.min_capacity != undefined || input.features.length > 0;
+
+  return buildings.flatMap((building) => {
+    //Use the added rooms for the details, or every room of the building if none are needed
+    const rooms = needsDetails
+      ? building.classroom_list
+          .filter((room) => hasClassroom(building.classrooms, room.room))
+          .map((room) => room.room)
+      : expandClassrooms(building.classrooms);
+
+    return rooms.flatMap((room): IAvailableRoom[] => {
+      if (booked.has(`${building.tuid}/${room.toLowerCase()}`)) {
+        return [];
+      }
+      const details = building.classroom_list.find(
+        (value) => value.room.toLowerCase() == room.toLowerCase()
+      );
+      if (
+        input.min_capacity != undefined &&
+        (details == undefined || details.capacity < input.min_capacity)
+      ) {
+        return [];
+      }
+      if (
+        input.features.some(
+          (feature) => details == undefined || !details[feature]
+        )
+      ) {
+        return [];
+      }
+      return [
+        {
+          building_tuid: building.tuid,
+          building: building.name,
+          prefix: building.prefix,
+          campus: building.campus.name,
+          room,
+          capacity: details?.capacity ?? null,
+          has_lab: details?.has_lab ?? false,
+          has_projector: details?.has_projector ?? false,
+          is_accessible: details?.is_accessible ?? false,
+        },
+      ];
+    });
+  });
+};
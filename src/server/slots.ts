@@ -0,0 +1,137 @@
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import {
+  compareCourseFaculty,
+  compareCourseRooms,
+  getBuildingCampuses,
+  getRevisionConflictCourses,
+  type IConflictCandidate,
+  type ISemesterSelection,
+} from "src/server/conflicts";
+import { LOCATION_DAYS, type ILocationDay } from "src/utils/calendar";
+
+/**
+ * ISlotPattern
+ *
+ * The days and time a course meets at
+ */
+export type ISlotPattern = {
+  start_time: number;
+  end_time: number;
+} & Record<ILocationDay, boolean>;
+
+/**
+ * ISlotSuggestion
+ *
+ * A pattern from the course guidelines, with the amount of conflicts the
+ * course would have if it was moved to it
+ */
+export type ISlotSuggestion = ISlotPattern & {
+  room_conflicts: number;
+  faculty_conflicts: number;
+};
+
+/**
+ * getGuidelineSlotPatterns
+ * Gets every day and time pattern from the course guidelines that a course with
+ * the amount of credits is allowed to meet at in the semester. Only days with the
+ * same amount of meetings as the guideline are used, so each pattern is within it.
+ */
+export const getGuidelineSlotPatterns = async (
+  credits: number,
+  semester: ISemesterSelection
+) => {
+  const guidelines = await prisma.guidelinesCourses.findMany({
+    where: {
+      credits,
+      OR: [
+        semester.semester_fall ? { semester_fall: true } : {},
+        semester.semester_winter ? { semester_winter: true } : {},
+        semester.semester_spring ? { semester_spring: true } : {},
+        semester.semester_summer ? { semester_summer: true } : {},
+      ].filter((value) => Object.keys(value).length > 0),
+    },
+    include: {
+      times: true,
+      days: true,
+    },
+  });
+
+  //The same pattern can be in more than one guideline, so only keep it once
+  const patterns = new Map<string, ISlotPattern>();
+  for (const guideline of guidelines) {
+    const days = guideline.days.filter(
+      (day) =>
+        LOCATION_DAYS.filter((value) => day[value]).length ==
+        guideline.meeting_amount
+    );
+    for (const day of days) {
+      for (const time of guideline.times) {
+        const pattern: ISlotPattern = {
+          start_time: time.start_time,
+          end_time: time.end_time,
+          day_monday: day.day_monday,
+          day_tuesday: day.day_tuesday,
+          day_wednesday: day.day_wednesday,
+          day_thursday: day.day_thursday,
+          day_friday: day.day_friday,
+          day_saturday: day.day_saturday,
+          day_sunday: day.day_sunday,
+        };
+        const key = [
+          pattern.start_time,
+          pattern.end_time,
+          ...LOCATION_DAYS.map((value) => (pattern[value] ? 1 : 0)),
+        ].join("/");
+        patterns.set(key, pattern);
+      }
+    }
+  }
+  return [...patterns.values()];
+};
+
+/**
+ * rankSlotPatterns
+ * Counts the room and faculty conflicts a course would have on the revision at
+ * each pattern, meeting in the given rooms, and sorts them from the least
+ * conflicts to the most. Ties are sorted by the earliest time.
+ */
+export const rankSlotPatterns = async (
+  revision_tuid: string,
+  course: Omit<IConflictCandidate, "locations">,
+  rooms: Array<{ building_tuid: string; room: string }>,
+  patterns: ISlotPattern[]
+): Promise<ISlotSuggestion[]> => {
+  const [courses, campuses] = await Promise.all([
+    getRevisionConflictCourses(revision_tuid, course),
+    getBuildingCampuses(),
+  ]);
+  const others = courses.filter((other) => other.tuid != course.tuid);
+
+  const suggestions = patterns.map((pattern) => {
+    const candidate: IConflictCandidate = {
+      ...course,
+      locations: [{ ...pattern, is_online: false, rooms }],
+    };
+    return {
+      ...pattern,
+      room_conflicts: others.flatMap((other) =>
+        compareCourseRooms(candidate, other)
+      ).length,
+      faculty_conflicts: others.flatMap((other) =>
+        compareCourseFaculty(candidate, other, campuses)
+      ).length,
+    };
+  });
+
+  return suggestions.sort(
+    (a, b) =>
+      a.room_conflicts +
+        a.faculty_conflicts -
+        (b.room_conflicts + b.faculty_conflicts) ||
+      a.start_time - b.start_time ||
+      //Earlier days of the week first
+      LOCATION_DAYS.findIndex((day) => a[day]) -
+        LOCATION_DAYS.findIndex((day) => b[day])
+  );
+};
@@ -0,0 +1,250 @@
+import { CourseState } from "@prisma/client";
+
+//Get instance of prisma
+import { prisma } from "src/server/db";
+import { type IFacultyLoad } from "src/validation/faculty";
+
+/**
+ * IFacultyLoadLimits
+ *
+ * The credit limits of a type of faculty, a null limit is not checked
+ */
+export type IFacultyLoadLimits = Omit<IFacultyLoad, "is_adjunct">;
+
+/**
+ * IFacultyLoadFlag
+ *
+ * A faculty member teaching more (or less) credits than the limit of their type
+ */
+export interface IFacultyLoadFlag {
+  type: "OVERLOAD" | "UNDERLOAD";
+  period: "SEMESTER" | "YEAR";
+  credits: number;
+  limit: number;
+  message: string;
+}
+
+/**
+ * IFacultyCredits
+ *
+ * The credits a faculty member teaches in each semester of a revision, and
+ * the whole academic year
+ */
+export interface IFacultyCredits {
+  FA: number;
+  WI: number;
+  SP: number;
+  SU: number;
+  year: number;
+}
+
+const NO_LIMITS: IFacultyLoadLimits = {
+  semester_min: null,
+  semester_max: null,
+  year_min: null,
+  year_max: null,
+};
+
+/**
+ * getFacultyLoadLimits
+ * Gets the credit limits of full time and adjunct faculty, which have no limits
+ * until they are set
+ */
+export const getFacultyLoadLimits = async () => {
+  const loads = await prisma.guidelineFacultyLoad.findMany();
+  const limits = (is_adjunct: boolean): IFacultyLoadLimits => {
+    const load = loads.find((value) => value.is_adjunct == is_adjunct);
+    return load != undefined
+      ? {
+          semester_min: load.semester_min,
+          semester_max: load.semester_max,
+          year_min: load.year_min,
+          year_max: load.year_max,
+        }
+      : NO_LIMITS;
+  };
+  return {
+    full_time: limits(false),
+    adjunct: limits(true),
+  };
+};
+
+/**
+ * checkFacultyLoad
+ * Compares the credits of a faculty member in a semester and the academic year
+ * against the limits of their type
+ */
+export const checkFacultyLoad = (
+  credits: { semester: number; year: number },
+  limits: IFacultyLoadLimits
+) => {
+  const flags: IFacultyLoadFlag[] = [];
+  const check = (
+    period: IFacultyLoadFlag["period"],
+    value: number,
+    min: number | null,
+    max: number | null
+  ) => {
+    const name = period == "SEMESTER" ? "semester" : "academic year";
+    if (max != null && value > max) {
+      flags.push({
+        type: "OVERLOAD",
+        period,
+        credits: value,
+        limit: max,
+        message: `${value} credits in the ${name} is over the limit of ${max}`,
+      });
+    }
+    if (min != null && value < min) {
+      flags.push({
+        type: "UNDERLOAD",
+        period,
+        credits: value,
+        limit: min,
+        message: `${value} credits in the ${name} is under the minimum of ${min}`,
+      });
+    }
+  };
+  check("SEMESTER", credits.semester, limits.semester_min, limits.semester_max);
+  check("YEAR", credits.year, limits.year_min, limits.year_max);
+  return flags;
+};
+
+/**
+ * getRevisionFacultyCredits
+ * Sums the credits of each faculty member in each semester of a revision, along
+ * with the academic year. Removed courses, and a course being edited, are not counted.
+ */
+export const getRevisionFacultyCredits = async (
+  revision_tuid: string,
+  exclude_course_tuid?: string
+) => {
+  const courses = await prisma.course.findMany({
+    where: {
+      revision_tuid,
+      state: { not: CourseState.REMOVED },
+      ...(exclude_course_tuid ? { tuid: { not: exclude_course_tuid } } : {}),
+    },
+    select: {
+      credits: true,
+      semester_fall: true,
+      semester_winter: true,
+      semester_spring: true,
+      semester_summer: true,
+      faculty: {
+        select: {
+          faculty_tuid: true,
+        },
+      },
+    },
+  });
+
+  const credits = new Map<string, IFacultyCredits>();
+  for (const course of courses) {
+    for (const { faculty_tuid } of course.faculty) {
+      const total = credits.get(faculty_tuid) ?? {
+        FA: 0,
+        WI: 0,
+        SP: 0,
+        SU: 0,
+        year: 0,
+      };
+      addCourseCredits(total, course);
+      credits.set(faculty_tuid, total);
+    }
+  }
+  return credits;
+};
+
+//The semesters a course can run in, with the credits they add to and their name
+const SEMESTERS = [
+  { field: "semester_fall", key: "FA", name: "Fall" },
+  { field: "semester_winter", key: "WI", name: "Winter" },
+  { field: "semester_spring", key: "SP", name: "Spring" },
+  { field: "semester_summer", key: "SU", name: "Summer" },
+] as const;
+
+type ICourseSemesters = Record<typeof SEMESTERS[number]["field"], boolean>;
+
+/**
+ * Adds the credits of a course to each of its semesters, and to the academic year
+ * once for each of them as the course is taught in each
+ */
+const addCourseCredits = (
+  total: IFacultyCredits,
+  course: ICourseSemesters & { credits: number }
+) => {
+  for (const semester of SEMESTERS) {
+    if (course[semester.field]) {
+      total[semester.key] += course.credits;
+      total.year += course.credits;
+    }
+  }
+};
+
+/**
+ * findFacultyLoadWarnings
+ * Checks if assigning a course (which may not be saved yet) to its faculty would
+ * push any of them over the credit limits of their type, in any semester of the
+ * course or the academic year. A course without a semester is not checked.
+ */
+export const findFacultyLoadWarnings = async (
+  revision_tuid: string,
+  course: {
+    tuid?: string;
+    credits: number;
+    semester_fall: boolean;
+    semester_winter: boolean;
+    semester_spring: boolean;
+    semester_summer: boolean;
+    faculty: Array<{ faculty_tuid: string }>;
+  }
+) => {
+  const semesters = SEMESTERS.filter((semester) => course[semester.field]);
+  if (course.faculty.length == 0 || semesters.length == 0) {
+    return [];
+  }
+  const [faculty, credits, limits] = await Promise.all([
+    prisma.guidelinesFaculty.findMany({
+      where: {
+        tuid: { in: course.faculty.map((value) => value.faculty_tuid) },
+      },
+    }),
+    getRevisionFacultyCredits(revision_tuid, course.tuid),
+    getFacultyLoadLimits(),
+  ]);
+
+  return faculty.flatMap((member) => {
+    const total = {
+      ...(credits.get(member.tuid) ?? { FA: 0, WI: 0, SP: 0, SU: 0, year: 0 }),
+    };
+    addCourseCredits(total, course);
+
+    const memberLimits = member.is_adjunct ? limits.adjunct : limits.full_time;
+
+    //Each semester of the course can go over its limit, and the year only once
+    return [
+      ...semesters.flatMap((semester) =>
+        checkFacultyLoad(
+          { semester: total[semester.key], year: 0 },
+          memberLimits
+        )
+          .filter((flag) => flag.period == "SEMESTER")
+          .map((flag) => ({
+            ...flag,
+            message: `${semester.name}: ${flag.message}`,
+          }))
+      ),
+      ...checkFacultyLoad(
+        { semester: 0, year: total.year },
+        memberLimits
+      ).filter((flag) => flag.period == "YEAR"),
+    ]
+      .filter((flag) => flag.type == "OVERLOAD")
+      .map((flag) => ({
+        faculty_tuid: member.tuid,
+        faculty: member.name,
+        ...flag,
+      }));
+  });
+};
@@ -0,0 +1,103 @@
+/**
+ * The time at the top of the calendar (8:00 AM) in minutes, each minute
+ * after is one pixel down the calendar
+ */
+export const CALENDAR_START_MINUTES = 480;
+
+/**
+ * Days of the week as they are stored on a course location, in calendar order
+ */
+export const LOCATION_DAYS = [
+  "day_monday",
+  "day_tuesday",
+  "day_wednesday",
+  "day_thursday",
+  "day_friday",
+  "day_saturday",
+  "day_sunday",
+] as const;
+
+export type ILocationDay = typeof LOCATION_DAYS[number];
+
+/**
+ * A time slot on the calendar in military time (ie, 1030 is 10:30 AM)
+ */
+export interface ITimeSlot {
+  start_time: number;
+  end_time: number;
+}
+
+/**
+ * Converts a military time (ex: 1430) into the total minutes from midnight
+ */
+export const militaryToMinutes = (time: number) =>
+  Math.floor(time / 100) * 60 + (time % 100);
+
+/**
+ * Converts the minutes since midnight to military time
+ */
+export const minutesToMilitary = (minutes: number) =>
+  Math.floor(minutes / 60) * 100 + (minutes % 60);
+
+/**
+ * snapToTimeSlot
+ * Gets the time slot a course dropped at the given minute snaps to, which is
+ * the slot with the closest start time. If there are no slots, the course keeps
+ * its length and snaps to the nearest 15 minutes instead.
+ */
+export const snapToTimeSlot = (
+  minutes: number,
+  length: number,
+  slots: ITimeSlot[]
+): ITimeSlot => {
+  let closest: ITimeSlot | undefined = undefined;
+  for (const slot of slots) {
+    if (
+      closest == undefined ||
+      Math.abs(militaryToMinutes(slot.start_time) - minutes) <
+        Math.abs(militaryToMinutes(closest.start_time) - minutes)
+    ) {
+      closest = slot;
+    }
+  }
+  if (closest != undefined) {
+    return closest;
+  }
+  const start = Math.round(minutes / 15) * 15;
+  return {
+    start_time: minutesToMilitary(start),
+    end_time: minutesToMilitary(start + length),
+  };
+};
+
+/**
+ * moveLocations
+ * Moves the in person locations of a course that meet on one day to another
+ * day and time. Every day of a moved location shifts by the same amount, so a
+ * Monday/Wednesday course dragged to Tuesday becomes Tuesday/Thursday.
+ */
+export const moveLocations = <
+  T extends Record<ILocationDay, boolean> & ITimeSlot & { is_online: boolean }
+>(
+  locations: T[],
+  from: ILocationDay,
+  to: ILocationDay,
+  slot: ITimeSlot
+): T[] => {
+  const offset = LOCATION_DAYS.indexOf(to) - LOCATION_DAYS.indexOf(from);
+  return locations.map((location) => {
+    if (location.is_online || !location[from]) {
+      return location;
+    }
+    const moved = { ...location, ...slot };
+    LOCATION_DAYS.forEach((day, index) => {
+      //Wrap around the week if a day is shifted past either end
+      const shifted =
+        LOCATION_DAYS[
+          (index - offset + LOCATION_DAYS.length) % LOCATION_DAYS.length
+        ]!;
+      moved[day] = location[shifted];
+    });
+    return moved;
+  });
+};
@@ -0,0 +1,141 @@
+/**
+ * The headers of a column template, being the organized column (ex: term) and
+ * the header of the sheet it was mapped to (ex: Term Code)
+ */
+export type IColumnTemplateHeaders = Record<string, string>;
+
+//Headers shorter than this are only matched exactly, so "ID" does not match "Section ID"
+const MIN_PARTIAL_LENGTH = 4;
+
+/**
+ * normalizeHeader
+ * Lowercases a header and removes anything which is not a letter or number,
+ * so "Start-Time " and "start time" are the same header
+ */
+export const normalizeHeader = (header: string | number | null | undefined) =>
+  `${header ?? ""}`.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * findHeaderColumn
+ * Finds the column of a header in the header row of a sheet, first by the same
+ * normalized header, then by one header containing the other. Any columns which
+ * are already used are skipped, returning -1 when nothing matches.
+ */
+export const findHeaderColumn = (
+  headers: Array<string | number | null | undefined>,
+  name: string,
+  used: number[] = []
+) => {
+  const target = normalizeHeader(name);
+  if (target == "") {
+    return -1;
+  }
+  const normalized = headers.map(normalizeHeader);
+  const isFree = (index: number) => !used.includes(index);
+
+  const exact = normalized.findIndex(
+    (header, index) => isFree(index) && header == target
+  );
+  if (exact != -1) {
+    return exact;
+  }
+  return normalized.findIndex(
+    (header, index) =>
+      isFree(index) &&
+      header.length >= MIN_PARTIAL_LENGTH &&
+      target.length >= MIN_PARTIAL_LENGTH &&
+      (header.includes(target) || target.includes(header))
+  );
+};
+
+/**
+ * applyColumnTemplate
+ * Finds the column of each header of a template in the header row of a sheet,
+ * along with how many of the headers were found. Any columns which are already
+ * used are skipped.
+ */
+export const applyColumnTemplate = (
+  headers: Array<string | number | null | undefined>,
+  template: IColumnTemplateHeaders,
+  used: number[] = []
+) => {
+  const taken = [...used];
+  const columns: Record<string, number> = {};
+  let matched = 0;
+  for (const [key, name] of Object.entries(template)) {
+    const index = findHeaderColumn(headers, name, taken);
+    columns[key] = index;
+    if (index != -1) {
+      taken.push(index);
+      matched++;
+    }
+  }
+  return { columns, matched, total: Object.keys(template).length };
+};
+
+/**
+ * templateFromColumns
+ * Gets the headers of a sheet each organized column is mapped to, which is what
+ * a template saves
+ */
+export const templateFromColumns = (
+  headers: Array<string | number | null | undefined>,
+  columns: Record<string, number | null>
+) => {
+  const template: IColumnTemplateHeaders = {};
+  for (const [key, index] of Object.entries(columns)) {
+    const header = index != null && index >= 0 ? headers[index] : undefined;
+    if (header != undefined && `${header}`.trim() != "") {
+      template[key] = `${header}`.trim();
+    }
+  }
+  return template;
+};
+
+/**
+ * mergeSheets
+ * Merges the rows of several sheets under the header row of the first sheet. The
+ * columns of each other sheet are moved under the header of the first sheet they
+ * match, otherwise they are added after the last column of the header so they
+ * never overwrite a matched column.
+ */
+export const mergeSheets = <T extends string | number | null | undefined>(
+  sheets: T[][][]
+) => {
+  const [first, ...others] = sheets;
+  if (first == undefined) {
+    return [];
+  }
+  const header = [...(first[0] ?? [])];
+  const merged = [header, ...first.slice(1)];
+  for (const [otherHeader = [], ...rows] of others) {
+    //The column of the merged header each column of this sheet is moved to
+    const used: number[] = [];
+    const order = otherHeader.map((name) => {
+      let column = findHeaderColumn(header, `${name ?? ""}`, used);
+      if (column == -1) {
+        column = header.length;
+        header.push(name);
+      }
+      used.push(column);
+      return column;
+    });
+    merged.push(
+      ...rows.map((row) => {
+        const moved: T[] = [];
+        row.forEach((value, index) => {
+          //Cells past the header of this sheet are also added after the last column
+          let column = order[index];
+          if (column == undefined) {
+            column = header.length;
+            header.push("" as T);
+            order[index] = column;
+          }
+          moved[column] = value;
+        });
+        return moved;
+      })
+    );
+  }
+  return merged;
+};
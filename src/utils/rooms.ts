@@ -0,0 +1,121 @@
+/**
+ * The most rooms a classroom list is expanded to, so a large range
+ * such as 1-99999 does not create a huge list
+ */
+export const MAX_EXPANDED_ROOMS = 1000;
+
+/**
+ * A single room number or range of room numbers from a classroom list,
+ * with the letters (if any) each room number can have
+ */
+interface IClassroomRange {
+  start: number;
+  end: number;
+  letters: [string, string] | null;
+}
+
+//A room number followed by an optional letter, like: 143 or 30a
+const roomRegex = /^(\d+)([a-z]?)$/i;
+
+/**
+ * Splits a room into its number and letter, or null if its not a room number
+ */
+const parseRoom = (room: string) => {
+  const match = roomRegex.exec(room.trim());
+  if (match == null) {
+    return null;
+  }
+  return {
+    number: parseInt(match[1]!),
+    letter: (match[2] ?? "").toLowerCase(),
+  };
+};
+
+/**
+ * parseClassrooms
+ * Parses the classroom list of a building (like: 1,10,30a-40c) into its ranges.
+ * A range with letters has every letter between them for each room number, so
+ * 30a-31c is 30a, 30b, 30c, 31a, 31b and 31c. If only one side has a letter
+ * it is used for both. Any part which is not valid is skipped.
+ */
+export const parseClassrooms = (classrooms: string): IClassroomRange[] => {
+  const ranges: IClassroomRange[] = [];
+  for (const part of classrooms.split(",")) {
+    const [first, last, ...rest] = part.split("-");
+    const start = parseRoom(first ?? "");
+    const end = last != undefined ? parseRoom(last) : start;
+    if (start == null || end == null || rest.length > 0) {
+      continue;
+    }
+    const startLetter = start.letter || end.letter;
+    const endLetter = end.letter || start.letter;
+    ranges.push({
+      start: Math.min(start.number, end.number),
+      end: Math.max(start.number, end.number),
+      letters:
+        startLetter != ""
+          ? ([startLetter, endLetter].sort() as [string, string])
+          : null,
+    });
+  }
+  return ranges;
+};
+
+/**
+ * expandClassrooms
+ * Expands the classroom list of a building into every room in it, up to
+ * the limit of rooms
+ */
+export const expandClassrooms = (
+  classrooms: string,
+  limit = MAX_EXPANDED_ROOMS
+) => {
+  const rooms = new Set<string>();
+  for (const range of parseClassrooms(classrooms)) {
+    for (let number = range.start; number <= range.end; number++) {
+      if (range.letters == null) {
+        rooms.add(number.toString());
+      } else {
+        const [first, last] = range.letters;
+        for (
+          let letter = first.charCodeAt(0);
+          letter <= last.charCodeAt(0);
+          letter++
+        ) {
+          rooms.add(number.toString() + String.fromCharCode(letter));
+        }
+      }
+      if (rooms.size >= limit) {
+        return [...rooms].slice(0, limit);
+      }
+    }
+  }
+  return [...rooms];
+};
+
+/**
+ * hasClassroom
+ * Checks if a room is in the classroom list of a building, without expanding
+ * the list. A list without any valid ranges allows any room.
+ */
+export const hasClassroom = (classrooms: string, room: string) => {
+  const ranges = parseClassrooms(classrooms);
+  if (ranges.length == 0) {
+    return true;
+  }
+  const parsed = parseRoom(room);
+  if (parsed == null) {
+    return false;
+  }
+  return ranges.some((range) => {
+    if (parsed.number < range.start || parsed.number > range.end) {
+      return false;
+    }
+    if (range.letters == null) {
+      return parsed.letter == "";
+    }
+    return (
+      parsed.letter >= range.letters[0] && parsed.letter <= range.letters[1]
+    );
+  });
+};
@@ -48,8 +48,68 @@ export const updateBuildingSchema = createBuildingSchema.extend({
   tuid: z.string(),
 });
 
+//This regex ensures a single room number followed by 0 or 1 letter, like: 143 or 30a
+const roomRegex = /^\d+\w?$/;
+
+export const createRoomSchema = z.object({
+  building_tuid: z
+    .string()
+    .cuid({ message: "A valid building must be selected." }),
+  room: z.string().regex(roomRegex, {
+    message: "Room must be a single room number like: 143 or 30a",
+  }),
+  capacity: z
+    .number({ invalid_type_error: "Capacity must be a number" })
+    .int()
+    .min(1, { message: "Room must have at least 1 seat" })
+    .max(500, { message: "Room must have no more than 500 seats" }),
+  has_lab: z.boolean().default(false),
+  has_projector: z.boolean().default(false),
+  is_accessible: z.boolean().default(false),
+});
+
+export const updateRoomSchema = createRoomSchema.extend({
+  tuid: z.string(),
+});
+
+/**
+ * The features a room can have
+ */
+export const ROOM_FEATURES = [
+  "has_lab",
+  "has_projector",
+  "is_accessible",
+] as const;
+
+export const findAvailableRoomsSchema = z.object({
+  revision_tuid: z.string(),
+  //The course the rooms are found for, so its own rooms are not taken
+  course_tuid: z.string().optional(),
+  start_time: z.number(),
+  end_time: z.number(),
+  day_monday: z.boolean().default(false),
+  day_tuesday: z.boolean().default(false),
+  day_wednesday: z.boolean().default(false),
+  day_thursday: z.boolean().default(false),
+  day_friday: z.boolean().default(false),
+  day_saturday: z.boolean().default(false),
+  day_sunday: z.boolean().default(false),
+  semester_fall: z.boolean().default(false),
+  semester_winter: z.boolean().default(false),
+  semester_spring: z.boolean().default(false),
+  semester_summer: z.boolean().default(false),
+  campus_tuid: z.string().optional(),
+  building_tuid: z.string().optional(),
+  min_capacity: z.number().optional(),
+  features: z.array(z.enum(ROOM_FEATURES)).default([]),
+});
+
 export type ICreateCampus = z.infer<typeof createCampusSchema>;
 export type IUpdateCampus = z.infer<typeof updateCampusSchema>;
 
 export type ICreateBuilding = z.infer<typeof createBuildingSchema>;
 export type IUpdateBuilding = z.infer<typeof updateBuildingSchema>;
+
+export type ICreateRoom = z.infer<typeof createRoomSchema>;
+export type IUpdateRoom = z.infer<typeof updateRoomSchema>;
+export type IFindAvailableRooms = z.infer<typeof findAvailableRoomsSchema>;
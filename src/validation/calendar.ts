@@ -215,5 +215,59 @@ export const calendarAddNewCourseToRevisionSchema = z.object({
   course: calendarCourseSchema,
 });
 
+/**
+ * Suggest Course Slots Schema
+ *
+ * What is known about a course in the modal (which may not be valid yet),
+ * used to suggest the days and times it can be scheduled at
+ */
+export const suggestCourseSlotsSchema = z.object({
+  tuid: z.string(), //The tuid of the revision
+  course_tuid: z.string().optional(),
+  credits: z.number(),
+  semester: z.nativeEnum(Semesters),
+  start_date: z.date(),
+  end_date: z.date(),
+  faculty_tuid: z.string().optional(),
+  rooms: z
+    .array(z.object({ building_tuid: z.string(), room: z.string() }))
+    .default([]),
+});
+
+/**
+ * Auto Schedule Schemas
+ *
+ * The courses to place on a revision with the buildings to place them in first,
+ * and the placements that were accepted to be saved
+ */
+export const proposeAutoScheduleSchema = z.object({
+  tuid: z.string(), //The tuid of the revision
+  course_tuids: z
+    .array(z.string())
+    .min(1, { message: "Select at least 1 course to schedule" }),
+  building_tuids: z.array(z.string()).default([]),
+});
+
+export const applyAutoScheduleSchema = z.object({
+  tuid: z.string(), //The tuid of the revision
+  placements: z.array(
+    z.object({
+      course_tuid: z.string(),
+      building_tuid: z.string(),
+      room: z.string(),
+      start_time: z.number(),
+      end_time: z.number(),
+      day_monday: z.boolean(),
+      day_tuesday: z.boolean(),
+      day_wednesday: z.boolean(),
+      day_thursday: z.boolean(),
+      day_friday: z.boolean(),
+      day_saturday: z.boolean(),
+      day_sunday: z.boolean(),
+    })
+  ),
+});
+
 //Export type for Calendar Course Schema
 export type ICalendarCourseSchema = z.infer<typeof calendarCourseSchema>;
+export type ISuggestCourseSlots = z.infer<typeof suggestCourseSlotsSchema>;
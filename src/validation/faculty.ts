@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { FacultyTimeType } from "@prisma/client";
 
 /**
  * This regex ensures the user doesn't use any special characters within the name field
@@ -50,3 +51,143 @@ export const createFacultySchemaWithTUID = createFacultySchema.extend({
  */
 export type ICreateFaculty = z.infer<typeof createFacultySchema>;
 export type IUpdateFaculty = z.infer<typeof createFacultySchemaWithTUID>;
+
+/**
+ * A credit limit of a faculty load, which is not checked when left empty
+ */
+const creditLimit = z
+  .number({ invalid_type_error: "Limit must be a number" })
+  .int()
+  .min(0, { message: "Limit must be at least 0 credits" })
+  .max(99, { message: "Limit must be no more than 99 credits" })
+  .nullable();
+
+/**
+ * Zod faculty load schema for the credit limits of full time or adjunct faculty,
+ * per semester and per academic year (which is every semester of a revision)
+ */
+export const facultyLoadSchema = z
+  .object({
+    is_adjunct: z.boolean(),
+    semester_min: creditLimit,
+    semester_max: creditLimit,
+    year_min: creditLimit,
+    year_max: creditLimit,
+  })
+  .refine(
+    (load) =>
+      load.semester_min == null ||
+      load.semester_max == null ||
+      load.semester_min <= load.semester_max,
+    {
+      message: "Minimum must be no more than the maximum",
+      path: ["semester_min"],
+    }
+  )
+  .refine(
+    (load) =>
+      load.year_min == null ||
+      load.year_max == null ||
+      load.year_min <= load.year_max,
+    {
+      message: "Minimum must be no more than the maximum",
+      path: ["year_min"],
+    }
+  );
+
+export type IFacultyLoad = z.infer<typeof facultyLoadSchema>;
+
+/**
+ * Zod faculty time schema for a block of time a faculty member is either
+ * unavailable or would rather teach at
+ */
+export const facultyTimeSchema = z
+  .object({
+    type: z.nativeEnum(FacultyTimeType),
+    day_monday: z.boolean().default(false),
+    day_tuesday: z.boolean().default(false),
+    day_wednesday: z.boolean().default(false),
+    day_thursday: z.boolean().default(false),
+    day_friday: z.boolean().default(false),
+    day_saturday: z.boolean().default(false),
+    day_sunday: z.boolean().default(false),
+    start_time: z.number().int().min(0).max(2359),
+    end_time: z.number().int().min(0).max(2359),
+  })
+  .refine((time) => time.end_time > time.start_time, {
+    message: "End time must be after the start time",
+    path: ["end_time"],
+  })
+  .refine(
+    (time) =>
+      time.day_monday ||
+      time.day_tuesday ||
+      time.day_wednesday ||
+      time.day_thursday ||
+      time.day_friday ||
+      time.day_saturday ||
+      time.day_sunday,
+    {
+      message: "Select at least one day",
+      path: ["day_monday"],
+    }
+  );
+
+/**
+ * Zod faculty preferences schema for the times, campuses and courses of a faculty member
+ */
+export const facultyPreferencesSchema = z.object({
+  tuid: z.string(),
+  times: z.array(facultyTimeSchema),
+  campus_tuids: z.array(z.string()),
+  qualifications: z.array(
+    z.object({
+      subject: z
+        .string()
+        .min(1, { message: "Subject is required" })
+        .max(10, { message: "Subject must be no more than 10 characters" }),
+      course_number: z
+        .string()
+        .min(1, { message: "Course number is required" })
+        .max(10, {
+          message: "Course number must be no more than 10 characters",
+        }),
+    })
+  ),
+});
+
+/**
+ * Zod schema to rank the faculty for a course (which may not be saved yet) by
+ * if they are qualified, available and prefer its times and campuses
+ */
+export const rankCourseFacultySchema = z.object({
+  revision_tuid: z.string(),
+  search: z.string(),
+  department: z.string().nullable().optional().default(null),
+  course: z.object({
+    tuid: z.string().optional(),
+    subject: z.string().optional(),
+    course_number: z.string().optional(),
+    locations: z
+      .array(
+        z.object({
+          is_online: z.boolean().default(false),
+          day_monday: z.boolean().default(false),
+          day_tuesday: z.boolean().default(false),
+          day_wednesday: z.boolean().default(false),
+          day_thursday: z.boolean().default(false),
+          day_friday: z.boolean().default(false),
+          day_saturday: z.boolean().default(false),
+          day_sunday: z.boolean().default(false),
+          start_time: z.number().default(0),
+          end_time: z.number().default(0),
+          building_tuid: z.string().nullable().optional(),
+        })
+      )
+      .default([]),
+  }),
+});
+
+export type IFacultyTime = z.infer<typeof facultyTimeSchema>;
+export type IFacultyPreferences = z.infer<typeof facultyPreferencesSchema>;
+export type IRankCourseFaculty = z.infer<typeof rankCourseFacultySchema>;
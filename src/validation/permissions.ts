@@ -0,0 +1,12 @@
+import { Permissions } from "@prisma/client";
+import { z } from "zod";
+
+/**
+ * Grant or revoke a permission schema
+ */
+export const modifyPermissionSchema = z.object({
+  user_tuid: z.string(),
+  permission: z.nativeEnum(Permissions),
+});
+
+export type IModifyPermission = z.infer<typeof modifyPermissionSchema>;
@@ -13,6 +13,58 @@ export type IProjectFinalizeOnboarding = z.infer<
   typeof finalizeProjectOnBoarding
 >;
 
+/**
+ * Clone a revision into a new revision on the same schedule, which
+ * follows the same naming rules as a new project
+ */
+export const cloneRevisionSchema = finalizeProjectOnBoarding.extend({
+  tuid: z.string(),
+});
+
+export type IProjectCloneRevision = z.infer<typeof cloneRevisionSchema>;
+
+/**
+ * Semesters a revision can be rolled forward by
+ */
+export const ROLL_FORWARD_SEMESTERS = [
+  "FALL",
+  "WINTER",
+  "SPRING",
+  "SUMMER",
+] as const;
+
+export type IRollForwardSemester = typeof ROLL_FORWARD_SEMESTERS[number];
+
+/**
+ * The dates a semester of courses are moved into
+ */
+export const rollForwardWindowSchema = z
+  .object({
+    semester: z.enum(ROLL_FORWARD_SEMESTERS),
+    start_date: z.date(),
+    end_date: z.date(),
+  })
+  .refine((val) => val.start_date <= val.end_date, {
+    path: ["end_date"],
+    message: "Start date cannot be later than end date.",
+  });
+
+export type IRollForwardWindow = z.infer<typeof rollForwardWindowSchema>;
+
+/**
+ * Roll a revision forward into the next term
+ */
+export const rollForwardRevisionSchema = finalizeProjectOnBoarding.extend({
+  tuid: z.string(),
+  term: z.number().int().min(0).max(99),
+  windows: z.array(rollForwardWindowSchema).min(1),
+  drop_removed: z.boolean().default(true),
+});
+
+export type IProjectRollForwardRevision = z.infer<
+  typeof rollForwardRevisionSchema
+>;
+
 export const organizeColumns = z.object({
   section_id: z.number().int(),
   noteWhatHasChanged: z.number().int(),
@@ -1,6 +1,7 @@
 import { CourseNoteType, CourseState } from "@prisma/client";
 import { object, z } from "zod";
 import { prisma } from "src/server/db";
+import { hasClassroom } from "src/utils/rooms";
 import { organizeColumns, organizeColumnsString } from "./projects.frontend";
 export const courseDefined = z.object({
   type: z.string(),
@@ -33,10 +34,82 @@ export const organizeColumnRows = z.object({
 export const createRevisionOnboarding = organizeColumnRows.extend({
   name: z.string(),
   schedule: z.string().nullable(),
+  //The uploaded sheet with any cells corrected by the user, which replaces the file
+  table: z
+    .array(z.array(z.union([z.string(), z.number()]).nullish()))
+    .optional(),
+  //Only validate and summarize the courses, without adding them
+  dry_run: z.boolean().default(false),
 });
 
 export type IProjectCreateRevision = z.infer<typeof createRevisionOnboarding>;
 
+/**
+ * IProjectImportError
+ *
+ * A cell of the uploaded sheet which could not be imported, where the row
+ * is the row of the sheet (the header being 0) and the column is the key of
+ * the organized columns
+ */
+export interface IProjectImportError {
+  excelRow: number;
+  column: string;
+  message: string;
+}
+
+/**
+ * Maps a faculty name of an imported sheet to an existing faculty member
+ */
+export const importFacultyMappingSchema = z.object({
+  name: z.string().min(1),
+  faculty_tuid: z.string(),
+});
+
+export type IProjectImportFacultyMapping = z.infer<
+  typeof importFacultyMappingSchema
+>;
+
+/**
+ * Maps a building prefix of an imported sheet to an existing building
+ */
+export const importBuildingMappingSchema = z.object({
+  prefix: z.string().min(1),
+  building_tuid: z.string(),
+});
+
+export type IProjectImportBuildingMapping = z.infer<
+  typeof importBuildingMappingSchema
+>;
+
+/**
+ * A named mapping of the headers of a sheet to the organized columns
+ */
+export const columnTemplateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Enter a name for the template" })
+    .max(50, { message: "Template name must be no more than 50 characters" }),
+  headers: z.record(z.string()),
+});
+
+export type IProjectColumnTemplate = z.infer<typeof columnTemplateSchema>;
+
+/**
+ * IProjectImportPreview
+ *
+ * A summary of the courses which would be created by importing the sheet, used
+ * to review the import before anything is added
+ */
+export interface IProjectImportPreview {
+  total: number;
+  semesters: { FA: number; WI: number; SP: number; SU: number };
+  unknown_faculty: string[]; //The faculty names which are not a faculty member
+  unknown_buildings: string[]; //The building prefixes which are not a building
+  online_rows: number[]; //The rows with a location which is online
+  zero_time_rows: number[]; //The rows with an in person location without a time
+}
+
 export type IProjectOrganizedColumnFromClient = z.infer<
   typeof organizeColumnRows
 >;
@@ -77,24 +150,40 @@ const notesSchema = z.object({
   type: z.nativeEnum(CourseNoteType),
 });
 
-const roomsSchema = z.object({
-  room: z.string(),
-  building_tuid: z.string().superRefine(async (val, ctx) => {
-    console.log("PARSING HERE for BUILDING");
-    const amount = await prisma.guidelineBuilding.count({
+const roomsSchema = z
+  .object({
+    room: z.string(),
+    building_tuid: z.string().superRefine(async (val, ctx) => {
+      console.log("PARSING HERE for BUILDING");
+      const amount = await prisma.guidelineBuilding.count({
+        where: {
+          tuid: val,
+        },
+      });
+      if (amount == 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          fatal: false,
+          message: `Building '${val}' does not exist!`,
+        });
+      }
+    }),
+  })
+  .superRefine(async (val, ctx) => {
+    //Make sure the room is one of the classrooms of the building
+    const building = await prisma.guidelineBuilding.findUnique({
       where: {
-        tuid: val,
+        tuid: val.building_tuid,
       },
     });
-    if (amount == 0) {
+    if (building != null && !hasClassroom(building.classrooms, val.room)) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        fatal: false,
-        message: `Building '${val}' does not exist!`,
+        path: ["room"],
+        message: `Room '${val.room}' is not one of the classrooms of '${building.prefix}' (${building.classrooms})`,
       });
     }
-  }),
-});
+  });
 
 const locationsSchema = z.object({
   start_time: z.number(),
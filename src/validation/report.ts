@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+/**
+ * Guideline Compliance Schema
+ *
+ * The revision and semester to check the course guidelines for, optionally
+ * only for the courses of a faculty member or in a building
+ */
+export const guidelineComplianceSchema = z.object({
+  tuid: z.string(), //The tuid of the revision
+  semester_fall: z.boolean().default(false),
+  semester_winter: z.boolean().default(false),
+  semester_spring: z.boolean().default(false),
+  semester_summer: z.boolean().default(false),
+  faculty_tuid: z.string().optional(),
+  building_tuid: z.string().optional(),
+});
+
+export type IGuidelineCompliance = z.infer<typeof guidelineComplianceSchema>;
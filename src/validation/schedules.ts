@@ -0,0 +1,36 @@
+import { ScheduleRole } from "@prisma/client";
+import { z } from "zod";
+
+/**
+ * Invite a user to a schedule by their email schema
+ */
+export const inviteScheduleUserSchema = z.object({
+  schedule_tuid: z.string(),
+  email: z.string().email(),
+  role: z.nativeEnum(ScheduleRole),
+});
+
+export type IInviteScheduleUser = z.infer<typeof inviteScheduleUserSchema>;
+
+/**
+ * Remove a user from a schedule schema
+ */
+export const removeScheduleUserSchema = z.object({
+  schedule_tuid: z.string(),
+  user_tuid: z.string(),
+});
+
+export type IRemoveScheduleUser = z.infer<typeof removeScheduleUserSchema>;
+
+/**
+ * Change the role of a user on a schedule schema
+ */
+export const updateScheduleMemberRoleSchema = z.object({
+  schedule_tuid: z.string(),
+  user_tuid: z.string(),
+  role: z.nativeEnum(ScheduleRole),
+});
+
+export type IUpdateScheduleMemberRole = z.infer<
+  typeof updateScheduleMemberRoleSchema
+>;